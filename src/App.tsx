@@ -3,6 +3,8 @@ import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { Login } from './pages/Login';
 import { Projects } from './pages/Projects';
 import { ProjectDetail } from './pages/ProjectDetail';
+import { LayoutEditor } from './pages/LayoutEditor';
+import { SharedLayout } from './pages/SharedLayout';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -47,6 +49,15 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/projects/:projectId/solutions/:solutionId/edit"
+        element={
+          <ProtectedRoute>
+            <LayoutEditor />
+          </ProtectedRoute>
+        }
+      />
+      <Route path="/share/:token" element={<SharedLayout />} />
       <Route path="/" element={<Navigate to="/projects" replace />} />
     </Routes>
   );
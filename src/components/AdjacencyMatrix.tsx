@@ -0,0 +1,151 @@
+import { WORKSTATIONS_KEY } from '../utils/adjacency';
+import type { AdjacencyRelation, AdjacencyRule, LayoutRequirements, RoomType, Zone } from '../utils/layoutEngine';
+import { RELATION_LABELS, ZONE_LABELS, requirementKeyLabel } from '../utils/layoutEngine';
+
+interface Props {
+  requirements: LayoutRequirements;
+  rules: AdjacencyRule[];
+  zones: Partial<Record<string, Zone>>;
+  onRulesChange: (rules: AdjacencyRule[]) => void;
+  onZonesChange: (zones: Partial<Record<string, Zone>>) => void;
+}
+
+const RELATION_SHORT: Record<AdjacencyRelation, string> = {
+  adjacent: '相鄰',
+  near: '靠近',
+  apart: '分開'
+};
+
+const RELATION_COLORS: Record<AdjacencyRelation, string> = {
+  adjacent: '#e6f4ea',
+  near: '#e8f0fe',
+  apart: '#fce8e6'
+};
+
+const selectStyle = {
+  padding: '0.25rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '0.85rem'
+};
+
+// Room types and custom rooms that are actually requested, in form order.
+function requestedKeys(req: LayoutRequirements): string[] {
+  const counts: [RoomType, number | boolean][] = [
+    ['meeting_small', req.meeting_rooms_small],
+    ['meeting_medium', req.meeting_rooms_medium],
+    ['meeting_large', req.meeting_rooms_large],
+    ['phone_booth', req.phone_booths],
+    ['breakout', req.breakout_areas],
+    ['kitchen', req.kitchen_pantry],
+    ['reception', req.reception_area],
+    ['storage', req.storage_rooms],
+    ['server_room', req.server_room]
+  ];
+
+  return [
+    ...counts.filter(([, count]) => Boolean(count)).map(([type]) => type),
+    ...(req.custom_rooms ?? []).filter((custom) => custom.name.trim() && custom.count > 0).map((custom) => custom.id)
+  ];
+}
+
+// Upper triangle of a room-by-room matrix; each cell holds at most one rule
+// for the pair. The zone column also covers the open workspace.
+export function AdjacencyMatrix({ requirements, rules, zones, onRulesChange, onZonesChange }: Props) {
+  const keys = requestedKeys(requirements);
+  const label = (key: string) => requirementKeyLabel(key, requirements.custom_rooms);
+
+  const ruleFor = (a: string, b: string) =>
+    rules.find((rule) => (rule.a === a && rule.b === b) || (rule.a === b && rule.b === a));
+
+  const setRule = (a: string, b: string, relation: AdjacencyRelation | '') => {
+    const others = rules.filter((rule) => rule !== ruleFor(a, b));
+    onRulesChange(relation ? [...others, { a, b, relation }] : others);
+  };
+
+  const setZone = (key: string, zone: Zone | '') => {
+    const next = { ...zones };
+    if (zone) next[key] = zone;
+    else delete next[key];
+    onZonesChange(next);
+  };
+
+  const zoneSelect = (key: string) => (
+    <select
+      value={zones[key] ?? ''}
+      onChange={(e) => setZone(key, e.target.value as Zone | '')}
+      style={selectStyle}
+    >
+      <option value="">不分區</option>
+      {(Object.keys(ZONE_LABELS) as Zone[]).map((zone) => (
+        <option key={zone} value={zone}>{ZONE_LABELS[zone]}</option>
+      ))}
+    </select>
+  );
+
+  const cellStyle = { padding: '0.4rem', borderBottom: '1px solid #eee', whiteSpace: 'nowrap' as const };
+
+  return (
+    <div style={{ marginBottom: '2rem' }}>
+      <h3>相鄰與分區</h3>
+      <p style={{ color: '#666', marginTop: 0, fontSize: '0.9rem' }}>
+        例：機房與接待區{RELATION_LABELS.apart}、茶水間與休息區{RELATION_LABELS.adjacent}。
+        {ZONE_LABELS.quiet}與{ZONE_LABELS.loud}的空間會保持距離，配置生成時會盡量滿足並列出未達成的條件。
+      </p>
+
+      {keys.length < 2 ? (
+        <p style={{ color: '#999' }}>至少需要兩種空間才能設定相鄰條件</p>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}></th>
+                <th style={cellStyle}>分區</th>
+                {keys.slice(1).map((key) => (
+                  <th key={key} style={cellStyle}>{label(key)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {keys.slice(0, -1).map((rowKey, row) => (
+                <tr key={rowKey}>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>{label(rowKey)}</th>
+                  <td style={cellStyle}>{zoneSelect(rowKey)}</td>
+                  {keys.slice(1).map((colKey, col) => {
+                    if (col < row) return <td key={colKey} style={cellStyle}></td>;
+                    const relation = ruleFor(rowKey, colKey)?.relation;
+                    return (
+                      <td key={colKey} style={{ ...cellStyle, background: relation ? RELATION_COLORS[relation] : undefined }}>
+                        <select
+                          value={relation ?? ''}
+                          onChange={(e) => setRule(rowKey, colKey, e.target.value as AdjacencyRelation | '')}
+                          title={`${label(rowKey)} / ${label(colKey)}`}
+                          style={selectStyle}
+                        >
+                          <option value="">—</option>
+                          {(Object.keys(RELATION_SHORT) as AdjacencyRelation[]).map((option) => (
+                            <option key={option} value={option}>{RELATION_SHORT[option]}</option>
+                          ))}
+                        </select>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>{label(keys[keys.length - 1])}</th>
+                <td style={cellStyle}>{zoneSelect(keys[keys.length - 1])}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginTop: '1rem' }}>
+        <span>{label(WORKSTATIONS_KEY)}（開放工位）分區：</span>
+        {zoneSelect(WORKSTATIONS_KEY)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+import { useState, useRef } from 'react';
+import type { Point } from '../utils/geometry';
+import type { Opening, OpeningType } from '../utils/floorPlanDimensions';
+import { OPENING_LABELS } from '../utils/floorPlanDimensions';
+import { OPENING_COLORS } from '../utils/layoutRenderer';
+import { snapPoint, snapToEdge } from '../utils/snapping';
+
+export interface TracedShapes {
+  outline: Point[];
+  columns: Point[][];
+  cores: Point[][];
+  shafts: Point[][];
+  openings: Opening[];
+}
+
+interface Props {
+  imageUrl: string;
+  imageSize: { width: number; height: number };
+  initialShapes: TracedShapes;
+  onChange: (shapes: TracedShapes) => void;
+}
+
+type Layer = 'outline' | 'columns' | 'cores' | 'shafts';
+type Mode = 'draw' | 'annotate' | 'edit';
+
+interface VertexRef {
+  layer: Layer;
+  polygon: number;
+  vertex: number;
+}
+
+const LAYERS: { key: Layer; label: string; color: string }[] = [
+  { key: 'outline', label: '外牆', color: '#667eea' },
+  { key: 'columns', label: '柱子', color: '#c5221f' },
+  { key: 'cores', label: '核心區', color: '#92400e' },
+  { key: 'shafts', label: '管道間', color: '#4b5563' }
+];
+
+const OPENING_TYPES: OpeningType[] = ['entrance', 'window', 'fire_exit'];
+
+const SNAP_TOLERANCE_PX = 10;
+
+const polygonsOf = (shapes: TracedShapes, layer: Layer): Point[][] =>
+  layer === 'outline' ? (shapes.outline.length > 0 ? [shapes.outline] : []) : shapes[layer];
+
+const withPolygons = (shapes: TracedShapes, layer: Layer, polygons: Point[][]): TracedShapes =>
+  layer === 'outline' ? { ...shapes, outline: polygons[0] ?? [] } : { ...shapes, [layer]: polygons };
+
+export function BoundaryTracer({ imageUrl, imageSize, initialShapes, onChange }: Props) {
+  const [shapes, setShapes] = useState<TracedShapes>(initialShapes);
+  const [history, setHistory] = useState<TracedShapes[]>([]);
+  const [future, setFuture] = useState<TracedShapes[]>([]);
+  const [layer, setLayer] = useState<Layer>('outline');
+  const [mode, setMode] = useState<Mode>(initialShapes.outline.length > 0 ? 'edit' : 'draw');
+  const [openingType, setOpeningType] = useState<OpeningType>('entrance');
+  const [path, setPath] = useState<Point[]>([]);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<VertexRef | null>(null);
+
+  const update = (next: TracedShapes) => {
+    setShapes(next);
+    onChange(next);
+  };
+
+  const commit = (next: TracedShapes) => {
+    setHistory([...history, shapes]);
+    setFuture([]);
+    update(next);
+  };
+
+  const undo = () => {
+    if (path.length > 0) {
+      setPath(path.slice(0, -1));
+      return;
+    }
+    if (history.length === 0) return;
+    setFuture([shapes, ...future]);
+    update(history[history.length - 1]);
+    setHistory(history.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setHistory([...history, shapes]);
+    update(future[0]);
+    setFuture(future.slice(1));
+  };
+
+  const clear = () => {
+    setPath([]);
+    commit({ outline: [], columns: [], cores: [], shafts: [], openings: [] });
+    setMode('draw');
+  };
+
+  const allVertices = (): Point[] => [
+    ...shapes.outline,
+    ...shapes.columns.flat(),
+    ...shapes.cores.flat(),
+    ...shapes.shafts.flat(),
+    ...path
+  ];
+
+  const toImagePoint = (e: React.PointerEvent | React.MouseEvent): { point: Point; tolerance: number } => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { point: { x: 0, y: 0 }, tolerance: SNAP_TOLERANCE_PX };
+
+    const p = svg.createSVGPoint();
+    p.x = e.clientX;
+    p.y = e.clientY;
+    const transformed = p.matrixTransform(matrix.inverse());
+    return {
+      point: { x: Math.round(transformed.x), y: Math.round(transformed.y) },
+      tolerance: SNAP_TOLERANCE_PX / matrix.a
+    };
+  };
+
+  // Shortcuts only apply while focus is in the tracer, and never to fields
+  // someone is typing in; Enter on a toolbar button still presses it.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+    if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) redo(); else undo();
+    } else if ((e.ctrlKey || e.metaKey) && e.key === 'y') {
+      e.preventDefault();
+      redo();
+    } else if (e.key === 'Escape') {
+      setPath([]);
+    } else if (e.key === 'Enter' && target.tagName !== 'BUTTON') {
+      closePath();
+    }
+  };
+
+  const closePath = () => {
+    if (path.length < 3) return;
+    const polygons = layer === 'outline' ? [path] : [...polygonsOf(shapes, layer), path];
+    commit(withPolygons(shapes, layer, polygons));
+    setPath([]);
+    if (layer === 'outline') setMode('edit');
+  };
+
+  // Doors and windows are two clicks along a wall; both ends stick to the
+  // outline.
+  const addOpeningPoint = (point: Point) => {
+    const onWall = snapToEdge(point, shapes.outline);
+    if (path.length === 0) {
+      setPath([onWall]);
+      return;
+    }
+    commit({ ...shapes, openings: [...shapes.openings, { type: openingType, start: path[0], end: onWall }] });
+    setPath([]);
+  };
+
+  const removeOpening = (index: number) => {
+    commit({ ...shapes, openings: shapes.openings.filter((_, i) => i !== index) });
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (mode === 'annotate') {
+      addOpeningPoint(toImagePoint(e).point);
+      return;
+    }
+    if (mode !== 'draw') return;
+    const { point, tolerance } = toImagePoint(e);
+    const snapped = snapPoint(point, path[path.length - 1] ?? null, allVertices(), tolerance);
+
+    if (path.length >= 3 && Math.abs(snapped.x - path[0].x) < tolerance && Math.abs(snapped.y - path[0].y) < tolerance) {
+      closePath();
+      return;
+    }
+    setPath([...path, snapped]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const { point, tolerance } = toImagePoint(e);
+    const drag = dragRef.current;
+
+    if (drag) {
+      const polygons = polygonsOf(shapes, drag.layer);
+      const polygon = polygons[drag.polygon];
+      const others = allVertices().filter((v) => v !== polygon[drag.vertex]);
+      const snapped = snapPoint(point, null, others, tolerance);
+      const nextPolygon = polygon.map((v, i) => (i === drag.vertex ? snapped : v));
+      update(withPolygons(shapes, drag.layer, polygons.map((p, i) => (i === drag.polygon ? nextPolygon : p))));
+      return;
+    }
+
+    if (mode === 'draw' && path.length > 0) {
+      setCursor(snapPoint(point, path[path.length - 1], allVertices(), tolerance));
+    } else if (mode === 'annotate' && path.length > 0) {
+      setCursor(snapToEdge(point, shapes.outline));
+    }
+  };
+
+  const startVertexDrag = (e: React.PointerEvent, ref: VertexRef) => {
+    if (mode !== 'edit') return;
+    e.stopPropagation();
+    setHistory([...history, shapes]);
+    setFuture([]);
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = ref;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragRef.current) {
+      svgRef.current?.releasePointerCapture(e.pointerId);
+      dragRef.current = null;
+    }
+  };
+
+  const removeVertex = (ref: VertexRef) => {
+    const polygons = polygonsOf(shapes, ref.layer);
+    const polygon = polygons[ref.polygon];
+    const next = polygon.length > 3
+      ? polygons.map((p, i) => (i === ref.polygon ? p.filter((_, j) => j !== ref.vertex) : p))
+      : polygons.filter((_, i) => i !== ref.polygon);
+    commit(withPolygons(shapes, ref.layer, next));
+  };
+
+  const insertVertex = (target: Layer, polygonIndex: number, afterIndex: number, point: Point) => {
+    const polygons = polygonsOf(shapes, target);
+    const next = polygons.map((p, i) => (i === polygonIndex
+      ? [...p.slice(0, afterIndex + 1), point, ...p.slice(afterIndex + 1)]
+      : p));
+    commit(withPolygons(shapes, target, next));
+  };
+
+  const stroke = Math.max(2, imageSize.width / 400);
+  const radius = stroke * 2.5;
+  const pathColor = mode === 'annotate' ? OPENING_COLORS[openingType] : LAYERS.find((l) => l.key === layer)?.color;
+  const hasOutline = shapes.outline.length >= 3;
+
+  const buttonStyle = (active: boolean, disabled = false) => ({
+    padding: '0.5rem 1rem',
+    background: active ? '#667eea' : '#f1f3f4',
+    color: active ? 'white' : (disabled ? '#ccc' : '#333'),
+    border: 'none',
+    borderRadius: '4px',
+    cursor: disabled ? 'not-allowed' : 'pointer'
+  });
+
+  return (
+    <div tabIndex={0} onKeyDown={handleKeyDown}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '1rem' }}>
+        {LAYERS.map((l) => (
+          <button
+            key={l.key}
+            onClick={() => {
+              setLayer(l.key);
+              setPath([]);
+              setMode('draw');
+            }}
+            style={buttonStyle(layer === l.key && mode === 'draw')}
+          >
+            描繪{l.label}
+          </button>
+        ))}
+        {OPENING_TYPES.map((type) => (
+          <button
+            key={type}
+            onClick={() => {
+              setOpeningType(type);
+              setPath([]);
+              setMode('annotate');
+            }}
+            disabled={!hasOutline}
+            style={buttonStyle(mode === 'annotate' && openingType === type, !hasOutline)}
+          >
+            標註{OPENING_LABELS[type]}
+          </button>
+        ))}
+        <button onClick={() => { setPath([]); setMode('edit'); }} style={buttonStyle(mode === 'edit')}>
+          編輯頂點
+        </button>
+        <span style={{ flex: 1 }} />
+        <button onClick={undo} disabled={history.length === 0 && path.length === 0} style={buttonStyle(false, history.length === 0 && path.length === 0)}>
+          復原 (Ctrl+Z)
+        </button>
+        <button onClick={redo} disabled={future.length === 0} style={buttonStyle(false, future.length === 0)}>
+          重做 (Ctrl+Y)
+        </button>
+        <button onClick={clear} style={buttonStyle(false)}>
+          清除
+        </button>
+      </div>
+
+      <p style={{ color: '#666', margin: '0 0 1rem 0', fontSize: '0.9rem' }}>
+        {mode === 'draw' && '點擊新增頂點，接近水平或垂直時會自動對齊；點擊起點或按 Enter 完成，Esc 取消目前線段。'}
+        {mode === 'annotate' && `沿外牆點擊${OPENING_LABELS[openingType]}的兩端，端點會自動貼齊牆面；Esc 取消。`}
+        {mode === 'edit' && '拖曳頂點調整位置，點擊邊上的小圓點新增頂點，雙擊頂點或門窗刪除。'}
+      </p>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+        onClick={handleClick}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setCursor(null)}
+        style={{
+          width: '100%',
+          maxHeight: '600px',
+          border: '1px solid #ddd',
+          borderRadius: '4px',
+          cursor: mode === 'edit' ? 'default' : 'crosshair',
+          background: '#fafafa',
+          touchAction: 'none'
+        }}
+      >
+        <image href={imageUrl} width={imageSize.width} height={imageSize.height} />
+
+        {LAYERS.map((l) => polygonsOf(shapes, l.key).map((polygon, pi) => (
+          <g key={`${l.key}-${pi}`}>
+            <polygon
+              points={polygon.map((p) => `${p.x},${p.y}`).join(' ')}
+              fill={l.key === 'outline' ? 'rgba(102, 126, 234, 0.15)' : `${l.color}55`}
+              stroke={l.color}
+              strokeWidth={stroke}
+            />
+            {mode === 'edit' && polygon.map((p, vi) => {
+              const next = polygon[(vi + 1) % polygon.length];
+              return (
+                <g key={vi}>
+                  <circle
+                    cx={(p.x + next.x) / 2}
+                    cy={(p.y + next.y) / 2}
+                    r={radius * 0.6}
+                    fill="white"
+                    stroke={l.color}
+                    strokeWidth={stroke / 2}
+                    style={{ cursor: 'copy' }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      insertVertex(l.key, pi, vi, { x: Math.round((p.x + next.x) / 2), y: Math.round((p.y + next.y) / 2) });
+                    }}
+                  />
+                  <circle
+                    cx={p.x}
+                    cy={p.y}
+                    r={radius}
+                    fill={l.color}
+                    style={{ cursor: 'move' }}
+                    onPointerDown={(e) => startVertexDrag(e, { layer: l.key, polygon: pi, vertex: vi })}
+                    onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      removeVertex({ layer: l.key, polygon: pi, vertex: vi });
+                    }}
+                  />
+                </g>
+              );
+            })}
+          </g>
+        )))}
+
+        {shapes.openings.map((o, i) => (
+          <line
+            key={i}
+            x1={o.start.x}
+            y1={o.start.y}
+            x2={o.end.x}
+            y2={o.end.y}
+            stroke={OPENING_COLORS[o.type]}
+            strokeWidth={stroke * 3}
+            strokeLinecap="round"
+            style={{ cursor: mode === 'edit' ? 'pointer' : undefined }}
+            onDoubleClick={(e) => {
+              if (mode !== 'edit') return;
+              e.stopPropagation();
+              removeOpening(i);
+            }}
+          >
+            <title>{OPENING_LABELS[o.type]}</title>
+          </line>
+        ))}
+
+        {path.length > 0 && (
+          <polyline
+            points={[...path, ...(cursor ? [cursor] : [])].map((p) => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke={pathColor}
+            strokeWidth={stroke}
+            strokeDasharray={`${stroke * 4} ${stroke * 2}`}
+          />
+        )}
+        {path.map((p, i) => (
+          <circle key={i} cx={p.x} cy={p.y} r={radius} fill={pathColor} />
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { findMentions } from '../utils/comments';
+import type { Collaborator } from '../utils/workspaces';
+import { collaboratorName } from '../utils/workspaces';
+
+interface Props {
+  collaborators: Collaborator[];
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string, mentions: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const MAX_MENTION_OPTIONS = 5;
+
+export function CommentComposer({ collaborators, placeholder, submitLabel, onSubmit, onCancel }: Props) {
+  const [body, setBody] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Offers people while the text ends in an @ followed by part of a name.
+  const mentionQuery = body.match(/@([^\s@]*)$/)?.[1].toLowerCase() ?? null;
+  const mentionOptions = mentionQuery === null ? [] : collaborators
+    .filter((collaborator) =>
+      collaboratorName(collaborator).toLowerCase().includes(mentionQuery) ||
+      collaborator.email.toLowerCase().includes(mentionQuery))
+    .slice(0, MAX_MENTION_OPTIONS);
+
+  const insertMention = (collaborator: Collaborator) => {
+    setBody(body.replace(/@[^\s@]*$/, `@${collaboratorName(collaborator)} `));
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(body, findMentions(body, collaborators));
+      setBody('');
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      alert('留言失敗，請稍後再試');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+        style={{
+          width: '100%',
+          padding: '0.5rem',
+          border: '1px solid #ddd',
+          borderRadius: '4px',
+          fontFamily: 'inherit',
+          resize: 'vertical',
+          boxSizing: 'border-box'
+        }}
+      />
+
+      {mentionOptions.length > 0 && (
+        <div style={{
+          position: 'absolute',
+          left: 0,
+          right: 0,
+          background: 'white',
+          border: '1px solid #ddd',
+          borderRadius: '4px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+          zIndex: 1
+        }}>
+          {mentionOptions.map((collaborator) => (
+            <div
+              key={collaborator.user_id}
+              onClick={() => insertMention(collaborator)}
+              style={{ padding: '0.5rem', cursor: 'pointer' }}
+            >
+              {collaboratorName(collaborator)}
+              <span style={{ marginLeft: '0.5rem', fontSize: '0.85rem', color: '#666' }}>{collaborator.email}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem', marginTop: '0.5rem' }}>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '0.5rem 1rem',
+              background: '#f1f3f4',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            取消
+          </button>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || !body.trim()}
+          style={{
+            padding: '0.5rem 1rem',
+            background: submitting || !body.trim() ? '#ccc' : '#667eea',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: submitting || !body.trim() ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {submitting ? '送出中...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useRef } from 'react';
+import type { CommentPin } from '../utils/comments';
+import { pinFromDrag } from '../utils/comments';
+
+export interface PinMarker {
+  id: string;
+  number: number;
+  pin: CommentPin;
+  resolved: boolean;
+}
+
+interface Props {
+  imageUrl: string;
+  markers: PinMarker[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  // While placing, a click drops a point and a drag marks a region.
+  placing: boolean;
+  pending: CommentPin | null;
+  onPlace: (pin: CommentPin) => void;
+}
+
+const PIN_COLOR = '#667eea';
+const ACTIVE_COLOR = '#f59e0b';
+const RESOLVED_COLOR = '#9ca3af';
+
+export function CommentPinBoard({ imageUrl, markers, activeId, onSelect, placing, pending, onPlace }: Props) {
+  const [dragStart, setDragStart] = useState<CommentPin | null>(null);
+  const [dragEnd, setDragEnd] = useState<CommentPin | null>(null);
+  const boardRef = useRef<HTMLDivElement>(null);
+
+  const toFraction = (e: React.PointerEvent): CommentPin => {
+    const rect = boardRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!placing) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(toFraction(e));
+    setDragEnd(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragStart) setDragEnd(toFraction(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    onPlace(pinFromDrag(dragStart, toFraction(e)));
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const renderPin = (pin: CommentPin, color: string, label: string, onClick?: () => void, key?: string) => {
+    const badge = (
+      <span style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        minWidth: '22px',
+        height: '22px',
+        padding: '0 4px',
+        borderRadius: '11px',
+        background: color,
+        color: 'white',
+        fontSize: '0.75rem',
+        fontWeight: 'bold',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.3)'
+      }}>
+        {label}
+      </span>
+    );
+
+    if (pin.width !== undefined && pin.height !== undefined) {
+      return (
+        <div
+          key={key}
+          onClick={onClick}
+          style={{
+            position: 'absolute',
+            left: `${pin.x * 100}%`,
+            top: `${pin.y * 100}%`,
+            width: `${pin.width * 100}%`,
+            height: `${pin.height * 100}%`,
+            border: `2px solid ${color}`,
+            background: `${color}22`,
+            cursor: onClick ? 'pointer' : 'inherit'
+          }}
+        >
+          <div style={{ position: 'absolute', top: '-11px', left: '-11px' }}>{badge}</div>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={key}
+        onClick={onClick}
+        style={{
+          position: 'absolute',
+          left: `${pin.x * 100}%`,
+          top: `${pin.y * 100}%`,
+          transform: 'translate(-50%, -50%)',
+          cursor: onClick ? 'pointer' : 'inherit'
+        }}
+      >
+        {badge}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={boardRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      style={{
+        position: 'relative',
+        userSelect: 'none',
+        touchAction: placing ? 'none' : 'auto',
+        cursor: placing ? 'crosshair' : 'default',
+        border: '1px solid #e0e0e0',
+        borderRadius: '4px',
+        background: '#fafafa'
+      }}
+    >
+      <img src={imageUrl} alt="" draggable={false} style={{ display: 'block', width: '100%' }} />
+
+      {markers.map((marker) =>
+        renderPin(
+          marker.pin,
+          marker.id === activeId ? ACTIVE_COLOR : (marker.resolved ? RESOLVED_COLOR : PIN_COLOR),
+          String(marker.number),
+          placing ? undefined : () => onSelect(marker.id),
+          marker.id
+        )
+      )}
+
+      {pending && renderPin(pending, ACTIVE_COLOR, '+')}
+      {dragStart && dragEnd && renderPin(pinFromDrag(dragStart, dragEnd), ACTIVE_COLOR, '+')}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { CommentComposer } from './CommentComposer';
+import { CommentPinBoard } from './CommentPinBoard';
+import type { PinMarker } from './CommentPinBoard';
+import type { Comment, CommentPin, CommentThread } from '../utils/comments';
+import { addComment, deleteComment, groupThreads, loadComments, setThreadResolved } from '../utils/comments';
+import type { Collaborator } from '../utils/workspaces';
+import { collaboratorName, loadCollaborators } from '../utils/workspaces';
+
+interface FloorPlan {
+  id: string;
+  name: string;
+  original_image_url: string;
+}
+
+interface SolutionDrawing {
+  id: string;
+  created_at: string;
+  solution_image_url: string | null;
+}
+
+interface Props {
+  projectId: string;
+  floorPlan: FloorPlan;
+  // Editors can resolve anyone's thread; owners can also delete anyone's comment.
+  canResolve: boolean;
+  canModerate: boolean;
+  onClose: () => void;
+}
+
+type ThreadFilter = 'open' | 'resolved' | 'mentions' | 'all';
+
+const FILTER_LABELS: Record<ThreadFilter, string> = {
+  open: '未解決',
+  resolved: '已解決',
+  mentions: '提到我',
+  all: '全部'
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const solutionLabel = (solution: SolutionDrawing) =>
+  `方案（${new Date(solution.created_at).toLocaleString('zh-TW', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}）`;
+
+export function CommentsPanel({ projectId, floorPlan, canResolve, canModerate, onClose }: Props) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [solutions, setSolutions] = useState<SolutionDrawing[]>([]);
+  // Null while looking at the floor plan rather than a solution drawing.
+  const [solutionId, setSolutionId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ThreadFilter>('open');
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [placing, setPlacing] = useState(false);
+  const [pending, setPending] = useState<CommentPin | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setSolutionId(null);
+    setActiveId(null);
+    setPending(null);
+    loadDiscussion();
+  }, [floorPlan.id]);
+
+  const loadDiscussion = async () => {
+    try {
+      const [loadedComments, loadedCollaborators, { data, error }] = await Promise.all([
+        loadComments(floorPlan.id),
+        loadCollaborators(projectId),
+        supabase
+          .from('layout_solutions')
+          .select('id, created_at, solution_image_url')
+          .eq('floor_plan_id', floorPlan.id)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (error) throw error;
+      setComments(loadedComments);
+      setCollaborators(loadedCollaborators);
+      setSolutions(data || []);
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectTarget = (id: string | null) => {
+    setSolutionId(id);
+    setActiveId(null);
+    setPlacing(false);
+    setPending(null);
+  };
+
+  const postThread = async (body: string, mentions: string[]) => {
+    if (!user) return;
+
+    const created = await addComment({
+      projectId,
+      floorPlanId: floorPlan.id,
+      layoutSolutionId: solutionId,
+      parentId: null,
+      authorId: user.id,
+      body,
+      pin: pending,
+      mentions
+    });
+    setComments([...comments, created]);
+    setPending(null);
+    if (filter === 'resolved') setFilter('open');
+    setActiveId(created.id);
+  };
+
+  const postReply = async (thread: CommentThread, body: string, mentions: string[]) => {
+    if (!user) return;
+
+    const created = await addComment({
+      projectId,
+      floorPlanId: floorPlan.id,
+      layoutSolutionId: thread.layout_solution_id,
+      parentId: thread.id,
+      authorId: user.id,
+      body,
+      pin: null,
+      mentions
+    });
+    setComments([...comments, created]);
+    setReplyingTo(null);
+  };
+
+  const toggleResolved = async (thread: CommentThread) => {
+    try {
+      const resolvedAt = await setThreadResolved(thread.id, !thread.resolved_at);
+      setComments(comments.map((c) => (c.id === thread.id ? { ...c, resolved_at: resolvedAt } : c)));
+    } catch (error) {
+      console.error('Error resolving thread:', error);
+      alert('更新留言狀態失敗，請稍後再試');
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!confirm(comment.parent_id ? '確定要刪除此回覆嗎？' : '確定要刪除此留言與所有回覆嗎？')) return;
+
+    try {
+      await deleteComment(comment.id);
+      setComments(comments.filter((c) => c.id !== comment.id && c.parent_id !== comment.id));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      alert('刪除失敗，請稍後再試');
+    }
+  };
+
+  const authorName = (authorId: string | null) => {
+    const author = collaborators.find((c) => c.user_id === authorId);
+    return author ? collaboratorName(author) : '前成員';
+  };
+
+  const renderBody = (body: string) => {
+    const names = collaborators.map((c) => escapeRegExp(`@${collaboratorName(c)}`));
+    if (names.length === 0) return body;
+
+    return body.split(new RegExp(`(${names.join('|')})`)).map((part, i) =>
+      i % 2 === 1 ? <strong key={i} style={{ color: '#667eea' }}>{part}</strong> : part
+    );
+  };
+
+  if (loading) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  const solution = solutions.find((s) => s.id === solutionId);
+  const imageUrl = solutionId ? solution?.solution_image_url : floorPlan.original_image_url;
+
+  // Numbered in the order they were opened, whatever the filter.
+  const threads = groupThreads(comments).filter((thread) => thread.layout_solution_id === solutionId);
+  const numbers = new Map(threads.map((thread, i) => [thread.id, i + 1]));
+  const visible = threads.filter((thread) => {
+    if (filter === 'open') return !thread.resolved_at;
+    if (filter === 'resolved') return !!thread.resolved_at;
+    if (filter === 'mentions') return [thread, ...thread.replies].some((c) => user && c.mentions.includes(user.id));
+    return true;
+  });
+  const markers: PinMarker[] = visible
+    .filter((thread) => thread.pin)
+    .map((thread) => ({ id: thread.id, number: numbers.get(thread.id)!, pin: thread.pin!, resolved: !!thread.resolved_at }));
+
+  const smallButton = {
+    padding: '0.25rem 0.5rem',
+    background: 'none',
+    border: 'none',
+    color: '#667eea',
+    cursor: 'pointer',
+    fontSize: '0.85rem'
+  };
+
+  const renderComment = (comment: Comment) => (
+    <div key={comment.id}>
+      <div style={{ fontSize: '0.85rem', color: '#666' }}>
+        <strong style={{ color: '#333' }}>{authorName(comment.author_id)}</strong>
+        {' · '}{new Date(comment.created_at).toLocaleString('zh-TW')}
+        {(comment.author_id === user?.id || canModerate) && (
+          <button onClick={() => handleDelete(comment)} style={{ ...smallButton, color: '#999' }}>
+            刪除
+          </button>
+        )}
+      </div>
+      <div style={{ whiteSpace: 'pre-wrap', marginTop: '0.25rem' }}>{renderBody(comment.body)}</div>
+    </div>
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', padding: '1.5rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{ margin: 0 }}>留言</h3>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', fontSize: '1.25rem', cursor: 'pointer', color: '#666' }}
+        >
+          ×
+        </button>
+      </div>
+
+      <select
+        value={solutionId ?? ''}
+        onChange={(e) => selectTarget(e.target.value || null)}
+        style={{ padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+      >
+        <option value="">平面圖：{floorPlan.name}</option>
+        {solutions.map((s) => <option key={s.id} value={s.id}>{solutionLabel(s)}</option>)}
+      </select>
+
+      {imageUrl ? (
+        <CommentPinBoard
+          imageUrl={imageUrl}
+          markers={markers}
+          activeId={activeId}
+          onSelect={setActiveId}
+          placing={placing}
+          pending={pending}
+          onPlace={(pin) => {
+            setPending(pin);
+            setPlacing(false);
+          }}
+        />
+      ) : (
+        <div style={{ color: '#666' }}>此方案沒有配置圖，留言無法標記位置。</div>
+      )}
+
+      <div style={{ background: '#f9fafb', padding: '1rem', borderRadius: '8px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+          {imageUrl && (
+            <button
+              onClick={() => setPlacing(!placing)}
+              style={{
+                padding: '0.25rem 0.75rem',
+                background: placing ? '#667eea' : 'white',
+                color: placing ? 'white' : '#333',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              📍 標記位置
+            </button>
+          )}
+          <span style={{ fontSize: '0.85rem', color: '#666' }}>
+            {placing
+              ? '點擊圖面標記一點，或拖曳框選範圍'
+              : pending ? (pending.width !== undefined ? '已框選範圍' : '已標記位置') : '不標記位置則為整張圖的留言'}
+          </span>
+          {pending && (
+            <button onClick={() => setPending(null)} style={smallButton}>清除</button>
+          )}
+        </div>
+        <CommentComposer
+          collaborators={collaborators}
+          placeholder="新增留言，輸入 @ 可提及成員"
+          submitLabel="留言"
+          onSubmit={postThread}
+        />
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        {(Object.keys(FILTER_LABELS) as ThreadFilter[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            style={{
+              padding: '0.25rem 0.75rem',
+              background: filter === key ? '#667eea' : '#f1f3f4',
+              color: filter === key ? 'white' : '#333',
+              border: 'none',
+              borderRadius: '12px',
+              cursor: 'pointer',
+              fontSize: '0.85rem'
+            }}
+          >
+            {FILTER_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 && <div style={{ color: '#666' }}>沒有符合的留言。</div>}
+
+      {visible.map((thread) => (
+        <div
+          key={thread.id}
+          onClick={() => setActiveId(thread.id)}
+          style={{
+            border: `1px solid ${thread.id === activeId ? '#f59e0b' : '#e0e0e0'}`,
+            borderRadius: '8px',
+            padding: '1rem',
+            opacity: thread.resolved_at ? 0.7 : 1
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+            <span style={{ fontWeight: 'bold', color: '#667eea' }}>
+              #{numbers.get(thread.id)}{thread.pin && ' 📍'}
+            </span>
+            {thread.resolved_at && <span style={{ fontSize: '0.85rem', color: '#1e7e34' }}>✓ 已解決</span>}
+          </div>
+
+          {renderComment(thread)}
+
+          {thread.replies.length > 0 && (
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '0.75rem',
+              marginTop: '0.75rem',
+              paddingLeft: '0.75rem',
+              borderLeft: '2px solid #e0e0e0'
+            }}>
+              {thread.replies.map(renderComment)}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            <button onClick={() => setReplyingTo(replyingTo === thread.id ? null : thread.id)} style={smallButton}>
+              回覆
+            </button>
+            {(canResolve || thread.author_id === user?.id) && (
+              <button onClick={() => toggleResolved(thread)} style={smallButton}>
+                {thread.resolved_at ? '重新開啟' : '標示為已解決'}
+              </button>
+            )}
+          </div>
+
+          {replyingTo === thread.id && (
+            <div style={{ marginTop: '0.5rem' }}>
+              <CommentComposer
+                collaborators={collaborators}
+                placeholder="回覆，輸入 @ 可提及成員"
+                submitLabel="回覆"
+                onSubmit={(body, mentions) => postReply(thread, body, mentions)}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import type { CustomRoomRequirement, RoomLocation, RoomType } from '../utils/layoutEngine';
+import { LOCATION_LABELS, ROOM_LABELS } from '../utils/layoutEngine';
+
+interface Props {
+  rooms: CustomRoomRequirement[];
+  onChange: (rooms: CustomRoomRequirement[]) => void;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '1rem'
+};
+
+export function CustomRoomRequirements({ rooms, onChange }: Props) {
+  const updateRoom = (id: string, changes: Partial<CustomRoomRequirement>) => {
+    onChange(rooms.map((room) => (room.id === id ? { ...room, ...changes } : room)));
+  };
+
+  const addRoom = () => {
+    onChange([
+      ...rooms,
+      { id: crypto.randomUUID(), name: '', area: 12, count: 1, capacity: 1, adjacent_to: [] }
+    ]);
+  };
+
+  // Removing a room also drops it from the other rooms' adjacency lists.
+  const removeRoom = (id: string) => {
+    onChange(rooms
+      .filter((room) => room.id !== id)
+      .map((room) => ({ ...room, adjacent_to: room.adjacent_to.filter((target) => target !== id) })));
+  };
+
+  const toggleAdjacency = (room: CustomRoomRequirement, target: string) => {
+    updateRoom(room.id, {
+      adjacent_to: room.adjacent_to.includes(target)
+        ? room.adjacent_to.filter((t) => t !== target)
+        : [...room.adjacent_to, target]
+    });
+  };
+
+  return (
+    <div style={{ marginBottom: '2rem' }}>
+      <h3>自訂空間</h3>
+      <p style={{ color: '#666', marginTop: 0, fontSize: '0.9rem' }}>
+        例：主管室、哺乳室、訓練教室等不在上方選項中的空間
+      </p>
+
+      {rooms.map((room) => {
+        const targets: { key: string; label: string }[] = [
+          ...(Object.keys(ROOM_LABELS) as RoomType[]).map((type) => ({ key: type, label: ROOM_LABELS[type] })),
+          ...rooms
+            .filter((other) => other.id !== room.id)
+            .map((other) => ({ key: other.id, label: other.name || '未命名空間' }))
+        ];
+
+        return (
+          <div
+            key={room.id}
+            style={{
+              border: '1px solid #e0e0e0',
+              borderRadius: '8px',
+              padding: '1rem',
+              marginBottom: '1rem'
+            }}
+          >
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: '2fr 1fr 1fr 1fr 1fr auto',
+              gap: '0.75rem',
+              alignItems: 'end'
+            }}>
+              <label>
+                <div style={{ marginBottom: '0.25rem' }}>名稱</div>
+                <input
+                  type="text"
+                  value={room.name}
+                  onChange={(e) => updateRoom(room.id, { name: e.target.value })}
+                  placeholder="例：主管室"
+                  style={inputStyle}
+                />
+              </label>
+              <label>
+                <div style={{ marginBottom: '0.25rem' }}>每間面積 (m²)</div>
+                <input
+                  type="number"
+                  min="1"
+                  value={room.area}
+                  onChange={(e) => updateRoom(room.id, { area: parseFloat(e.target.value) || 0 })}
+                  style={inputStyle}
+                />
+              </label>
+              <label>
+                <div style={{ marginBottom: '0.25rem' }}>數量</div>
+                <input
+                  type="number"
+                  min="0"
+                  value={room.count}
+                  onChange={(e) => updateRoom(room.id, { count: parseInt(e.target.value) || 0 })}
+                  style={inputStyle}
+                />
+              </label>
+              <label>
+                <div style={{ marginBottom: '0.25rem' }}>容納人數</div>
+                <input
+                  type="number"
+                  min="0"
+                  value={room.capacity}
+                  onChange={(e) => updateRoom(room.id, { capacity: parseInt(e.target.value) || 0 })}
+                  style={inputStyle}
+                />
+              </label>
+              <label>
+                <div style={{ marginBottom: '0.25rem' }}>位置偏好</div>
+                <select
+                  value={room.location ?? ''}
+                  onChange={(e) => updateRoom(room.id, { location: (e.target.value || undefined) as RoomLocation | undefined })}
+                  style={inputStyle}
+                >
+                  <option value="">不限</option>
+                  {(Object.keys(LOCATION_LABELS) as RoomLocation[]).map((location) => (
+                    <option key={location} value={location}>{LOCATION_LABELS[location]}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => removeRoom(room.id)}
+                style={{
+                  padding: '0.5rem 1rem',
+                  background: '#fce8e6',
+                  color: '#c5221f',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              >
+                刪除
+              </button>
+            </div>
+
+            <div style={{ marginTop: '0.75rem' }}>
+              <div style={{ marginBottom: '0.25rem', fontSize: '0.9rem', color: '#666' }}>希望鄰近：</div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+                {targets.map((target) => {
+                  const active = room.adjacent_to.includes(target.key);
+                  return (
+                    <button
+                      key={target.key}
+                      onClick={() => toggleAdjacency(room, target.key)}
+                      style={{
+                        padding: '0.25rem 0.75rem',
+                        background: active ? '#667eea' : '#f1f3f4',
+                        color: active ? 'white' : '#333',
+                        border: 'none',
+                        borderRadius: '999px',
+                        cursor: 'pointer',
+                        fontSize: '0.85rem'
+                      }}
+                    >
+                      {target.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addRoom}
+        style={{
+          padding: '0.75rem 1.5rem',
+          background: '#f1f3f4',
+          border: '1px dashed #999',
+          borderRadius: '4px',
+          cursor: 'pointer'
+        }}
+      >
+        + 新增自訂空間
+      </button>
+    </div>
+  );
+}
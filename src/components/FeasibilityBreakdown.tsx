@@ -0,0 +1,29 @@
+import type { FeasibilityFactor } from '../utils/feasibility';
+import { FACTOR_LABELS } from '../utils/feasibility';
+
+interface Props {
+  factors: FeasibilityFactor[];
+}
+
+const barColor = (score: number) => (score >= 80 ? '#34a853' : score >= 60 ? '#fbbc04' : '#ea4335');
+
+export function FeasibilityBreakdown({ factors }: Props) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {factors.map((factor) => (
+        <div key={factor.key}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.25rem' }}>
+            <strong>{FACTOR_LABELS[factor.key]}</strong>
+            <span style={{ fontSize: '0.875rem', color: '#666' }}>
+              {factor.score}/100 × {Math.round(factor.weight * 100)}% = {factor.contribution} 分
+            </span>
+          </div>
+          <div style={{ background: '#e0e0e0', borderRadius: '4px', height: '8px', overflow: 'hidden' }}>
+            <div style={{ width: `${factor.score}%`, height: '100%', background: barColor(factor.score) }} />
+          </div>
+          <div style={{ fontSize: '0.85rem', color: '#666', marginTop: '0.25rem' }}>{factor.detail}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
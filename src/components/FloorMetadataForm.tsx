@@ -0,0 +1,139 @@
+import type { FloorPlanMetadata } from '../utils/floorMetadata';
+import { floorLevelLabel } from '../utils/floorMetadata';
+
+interface Props {
+  metadata: FloorPlanMetadata;
+  onChange: (metadata: FloorPlanMetadata) => void;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '1rem'
+};
+
+const numberOrNull = (value: string) => (value === '' ? null : parseFloat(value));
+
+export function FloorMetadataForm({ metadata, onChange }: Props) {
+  const update = (changes: Partial<FloorPlanMetadata>) => onChange({ ...metadata, ...changes });
+
+  return (
+    <div style={{
+      display: 'grid',
+      gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+      gap: '1rem'
+    }}>
+      <label>
+        <div style={{ marginBottom: '0.25rem' }}>大樓</div>
+        <input
+          type="text"
+          value={metadata.building ?? ''}
+          onChange={(e) => update({ building: e.target.value || null })}
+          placeholder="例：信義大樓"
+          style={inputStyle}
+        />
+      </label>
+      <label>
+        <div style={{ marginBottom: '0.25rem' }}>樓層</div>
+        <input
+          type="number"
+          step="1"
+          value={metadata.floor_level ?? ''}
+          onChange={(e) => update({ floor_level: e.target.value === '' ? null : parseInt(e.target.value, 10) || null })}
+          placeholder="例：12"
+          style={inputStyle}
+        />
+        <small style={{ color: '#666' }}>
+          {metadata.floor_level ? floorLevelLabel(metadata.floor_level) : '地下樓層請輸入負數'}
+        </small>
+      </label>
+      <label>
+        <div style={{ marginBottom: '0.25rem' }}>天花板高度 (m)</div>
+        <input
+          type="number"
+          min="0"
+          step="0.1"
+          value={metadata.ceiling_height_m ?? ''}
+          onChange={(e) => update({ ceiling_height_m: numberOrNull(e.target.value) })}
+          placeholder="例：2.8"
+          style={inputStyle}
+        />
+      </label>
+      <label>
+        <div style={{ marginBottom: '0.25rem' }}>北方方位 (°)</div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <input
+            type="number"
+            min="0"
+            max="359"
+            step="15"
+            value={metadata.north_angle ?? ''}
+            onChange={(e) => {
+              const angle = numberOrNull(e.target.value);
+              update({ north_angle: angle === null ? null : ((angle % 360) + 360) % 360 });
+            }}
+            placeholder="未設定"
+            style={inputStyle}
+          />
+          {metadata.north_angle !== null && (
+            <span
+              title="北方"
+              style={{ display: 'inline-block', transform: `rotate(${metadata.north_angle}deg)`, fontWeight: 'bold' }}
+            >
+              ↑N
+            </span>
+          )}
+        </div>
+        <small style={{ color: '#666' }}>圖面上方順時針轉到北方的角度</small>
+      </label>
+      <label>
+        <div style={{ marginBottom: '0.25rem' }}>月租金 (元/m²)</div>
+        <input
+          type="number"
+          min="0"
+          value={metadata.rent_per_sqm ?? ''}
+          onChange={(e) => update({ rent_per_sqm: numberOrNull(e.target.value) })}
+          placeholder="例：1200"
+          style={inputStyle}
+        />
+      </label>
+      <label>
+        <div style={{ marginBottom: '0.25rem' }}>公設比 (%)</div>
+        <input
+          type="number"
+          min="0"
+          max="99"
+          step="1"
+          value={metadata.core_factor === null ? '' : Math.round(metadata.core_factor * 100)}
+          onChange={(e) => {
+            const percent = numberOrNull(e.target.value);
+            update({ core_factor: percent === null ? null : Math.min(99, Math.max(0, percent)) / 100 });
+          }}
+          placeholder="例：35"
+          style={inputStyle}
+        />
+      </label>
+      <label>
+        <div style={{ marginBottom: '0.25rem' }}>租期開始</div>
+        <input
+          type="date"
+          value={metadata.lease_start ?? ''}
+          onChange={(e) => update({ lease_start: e.target.value || null })}
+          style={inputStyle}
+        />
+      </label>
+      <label>
+        <div style={{ marginBottom: '0.25rem' }}>租期結束</div>
+        <input
+          type="date"
+          value={metadata.lease_end ?? ''}
+          min={metadata.lease_start ?? undefined}
+          onChange={(e) => update({ lease_end: e.target.value || null })}
+          style={inputStyle}
+        />
+      </label>
+    </div>
+  );
+}
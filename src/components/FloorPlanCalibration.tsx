@@ -0,0 +1,287 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { BoundaryTracer } from './BoundaryTracer';
+import type { TracedShapes } from './BoundaryTracer';
+import type { Point } from '../utils/geometry';
+import type { FloorPlanDimensions } from '../utils/floorPlanDimensions';
+import { computeAreas, metersPerPixel, openingToMeters, toMeters } from '../utils/floorPlanDimensions';
+import type { FloorPlanMetadata } from '../utils/floorMetadata';
+
+interface FloorPlan extends FloorPlanMetadata {
+  id: string;
+  name: string;
+  original_image_url: string;
+  floor_area_sqm: number | null;
+  usable_area_sqm: number | null;
+  dimensions_json: FloorPlanDimensions | null;
+}
+
+interface Props {
+  floorPlan: FloorPlan;
+  onSaved: (floorPlan: FloorPlan) => void;
+  onCancel: () => void;
+  cancelLabel?: string;
+}
+
+type Step = 'reference' | 'outline';
+
+export function FloorPlanCalibration({ floorPlan, onSaved, onCancel, cancelLabel = '取消' }: Props) {
+  const existing = floorPlan.dimensions_json || {};
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(existing.image ?? null);
+  const [step, setStep] = useState<Step>('reference');
+  const [referencePoints, setReferencePoints] = useState<Point[]>(
+    existing.scale ? [existing.scale.reference.start, existing.scale.reference.end] : []
+  );
+  const [referenceLength, setReferenceLength] = useState(existing.scale ? String(existing.scale.reference.length_m) : '');
+  const [shapes, setShapes] = useState<TracedShapes>({
+    outline: existing.outline_px ?? [],
+    columns: existing.columns_px ?? [],
+    cores: existing.cores_px ?? [],
+    shafts: existing.shafts_px ?? [],
+    openings: existing.openings_px ?? []
+  });
+  const [saving, setSaving] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => setImageSize({ width: image.naturalWidth, height: image.naturalHeight });
+    image.src = floorPlan.original_image_url;
+  }, [floorPlan.original_image_url]);
+
+  const scale = referencePoints.length === 2
+    ? metersPerPixel(referencePoints[0], referencePoints[1], parseFloat(referenceLength) || 0)
+    : null;
+
+  const dimensions: FloorPlanDimensions | null = scale && imageSize ? {
+    ...existing,
+    image: imageSize,
+    scale: {
+      meters_per_pixel: scale,
+      reference: {
+        start: referencePoints[0],
+        end: referencePoints[1],
+        length_m: parseFloat(referenceLength)
+      }
+    },
+    outline_px: shapes.outline,
+    outline: toMeters(shapes.outline, scale),
+    columns_px: shapes.columns,
+    columns: shapes.columns.map((polygon) => toMeters(polygon, scale)),
+    cores_px: shapes.cores,
+    cores: shapes.cores.map((polygon) => toMeters(polygon, scale)),
+    shafts_px: shapes.shafts,
+    shafts: shapes.shafts.map((polygon) => toMeters(polygon, scale)),
+    openings_px: shapes.openings,
+    openings: shapes.openings.map((opening) => openingToMeters(opening, scale))
+  } : null;
+
+  const areas = dimensions ? computeAreas(dimensions) : null;
+
+  const toImagePoint = (e: React.MouseEvent): Point => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const transformed = point.matrixTransform(matrix.inverse());
+    return { x: Math.round(transformed.x), y: Math.round(transformed.y) };
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    const point = toImagePoint(e);
+    setReferencePoints(referencePoints.length >= 2 ? [point] : [...referencePoints, point]);
+  };
+
+  const handleSave = async () => {
+    if (!dimensions || !areas) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('floor_plans')
+        .update({
+          dimensions_json: dimensions,
+          floor_area_sqm: areas.total,
+          usable_area_sqm: areas.usable
+        })
+        .eq('id', floorPlan.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      onSaved(data);
+    } catch (error) {
+      console.error('Error saving calibration:', error);
+      alert('儲存失敗，請稍後再試');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!imageSize) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>載入平面圖中...</div>;
+  }
+
+  const stroke = Math.max(2, imageSize.width / 400);
+  const handleRadius = stroke * 2.5;
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '8px',
+      marginBottom: '2rem'
+    }}>
+      <h2 style={{ marginTop: 0 }}>校正比例與面積 - {floorPlan.name}</h2>
+
+      <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+        {(['reference', 'outline'] as Step[]).map((s, i) => (
+          <button
+            key={s}
+            onClick={() => setStep(s)}
+            disabled={s === 'outline' && !scale}
+            style={{
+              padding: '0.5rem 1rem',
+              background: step === s ? '#667eea' : '#f1f3f4',
+              color: step === s ? 'white' : (s === 'outline' && !scale ? '#ccc' : '#333'),
+              border: 'none',
+              borderRadius: '4px',
+              cursor: s === 'outline' && !scale ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {i + 1}. {s === 'reference' ? '繪製參考線' : '描繪邊界與標註門窗'}
+          </button>
+        ))}
+      </div>
+
+      {step === 'outline' ? (
+        <BoundaryTracer
+          imageUrl={floorPlan.original_image_url}
+          imageSize={imageSize}
+          initialShapes={shapes}
+          onChange={setShapes}
+        />
+      ) : (
+        <>
+          <p style={{ color: '#666', margin: '0 0 1rem 0' }}>
+            在圖上點擊兩點畫出一條已知長度的參考線（例如一面牆或標註尺寸），並輸入實際長度。
+          </p>
+
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+            onClick={handleClick}
+            style={{
+              width: '100%',
+              maxHeight: '600px',
+              border: '1px solid #ddd',
+              borderRadius: '4px',
+              cursor: 'crosshair',
+              background: '#fafafa'
+            }}
+          >
+            <image href={floorPlan.original_image_url} width={imageSize.width} height={imageSize.height} />
+
+            {shapes.outline.length > 0 && (
+              <polygon
+                points={shapes.outline.map((p) => `${p.x},${p.y}`).join(' ')}
+                fill="rgba(102, 126, 234, 0.2)"
+                stroke="#667eea"
+                strokeWidth={stroke}
+              />
+            )}
+
+            {referencePoints.length === 2 && (
+              <line
+                x1={referencePoints[0].x}
+                y1={referencePoints[0].y}
+                x2={referencePoints[1].x}
+                y2={referencePoints[1].y}
+                stroke="#c5221f"
+                strokeWidth={stroke}
+              />
+            )}
+            {referencePoints.map((p, i) => (
+              <circle key={i} cx={p.x} cy={p.y} r={handleRadius} fill="#c5221f" />
+            ))}
+          </svg>
+        </>
+      )}
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))',
+        gap: '1.5rem',
+        margin: '1.5rem 0'
+      }}>
+        <div>
+          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+            參考線實際長度 (公尺)
+          </label>
+          <input
+            type="number"
+            value={referenceLength}
+            onChange={(e) => setReferenceLength(e.target.value)}
+            placeholder="例：10"
+            min="0"
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              border: '1px solid #ddd',
+              borderRadius: '4px',
+              fontSize: '1rem'
+            }}
+          />
+          {scale && (
+            <small style={{ color: '#666' }}>比例：1 px = {scale.toFixed(4)} m</small>
+          )}
+        </div>
+
+        <div>
+          <div><strong>外牆頂點：</strong> {shapes.outline.length} 個</div>
+          <div><strong>柱子：</strong> {shapes.columns.length} 處</div>
+          <div><strong>核心區／管道間：</strong> {shapes.cores.length + shapes.shafts.length} 處</div>
+          <div><strong>門窗：</strong> {shapes.openings.length} 處</div>
+        </div>
+
+        <div>
+          <div><strong>總面積：</strong> {areas ? `${areas.total} m²` : '—'}</div>
+          <div><strong>可用面積：</strong> {areas ? `${areas.usable} m²` : '—'}</div>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
+        <button
+          onClick={onCancel}
+          style={{
+            padding: '0.75rem 1.5rem',
+            background: '#f1f3f4',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          {cancelLabel}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!areas || saving}
+          style={{
+            padding: '0.75rem 1.5rem',
+            background: !areas || saving ? '#ccc' : '#667eea',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: !areas || saving ? 'not-allowed' : 'pointer',
+            fontWeight: 'bold'
+          }}
+        >
+          {saving ? '儲存中...' : '儲存校正結果'}
+        </button>
+      </div>
+    </div>
+  );
+}
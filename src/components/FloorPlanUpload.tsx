@@ -1,35 +1,58 @@
 import { useState, useRef } from 'react';
 import { supabase } from '../lib/supabase';
+import { FloorPlanCalibration } from './FloorPlanCalibration';
+import { FloorMetadataForm } from './FloorMetadataForm';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { FloorPlanDimensions } from '../utils/floorPlanDimensions';
+import { computeAreas } from '../utils/floorPlanDimensions';
+import { importDxf } from '../utils/dxfImport';
+import type { FloorPlanMetadata } from '../utils/floorMetadata';
+import { EMPTY_FLOOR_METADATA, floorLevelLabel, leaseMonths, monthlyRent } from '../utils/floorMetadata';
 
-interface FloorPlan {
+interface FloorPlan extends FloorPlanMetadata {
   id: string;
   name: string;
   original_image_url: string;
   floor_area_sqm: number | null;
   usable_area_sqm: number | null;
+  dimensions_json: FloorPlanDimensions | null;
 }
 
 interface Props {
   projectId: string;
   onFloorPlanUploaded: (floorPlan: FloorPlan) => void;
+  onFloorPlanUpdated: (floorPlan: FloorPlan) => void;
   floorPlans: FloorPlan[];
   onSelectFloorPlan: (floorPlan: FloorPlan) => void;
   selectedFloorPlan: FloorPlan | null;
+  // Viewers see the floor plans but cannot upload or change them.
+  readOnly?: boolean;
 }
 
 export function FloorPlanUpload({
   projectId,
   onFloorPlanUploaded,
+  onFloorPlanUpdated,
   floorPlans,
   onSelectFloorPlan,
-  selectedFloorPlan
+  selectedFloorPlan,
+  readOnly
 }: Props) {
   const [uploading, setUploading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [floorPlanName, setFloorPlanName] = useState('');
   const [floorArea, setFloorArea] = useState('');
+  const [metadata, setMetadata] = useState<FloorPlanMetadata>(EMPTY_FLOOR_METADATA);
+  const [showMetadata, setShowMetadata] = useState(false);
+  const [editingMetadata, setEditingMetadata] = useState<{ floorPlan: FloorPlan; metadata: FloorPlanMetadata } | null>(null);
+  const [savingMetadata, setSavingMetadata] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [calibratingPlan, setCalibratingPlan] = useState<FloorPlan | null>(null);
+  const [calibratingNewPlan, setCalibratingNewPlan] = useState(false);
+  const [pdf, setPdf] = useState<{ document: PDFDocumentProxy; baseName: string; page: number } | null>(null);
+  const [importedDimensions, setImportedDimensions] = useState<FloorPlanDimensions | null>(null);
+  const [converting, setConverting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDrag = (e: React.DragEvent) => {
@@ -52,14 +75,63 @@ export function FloorPlanUpload({
     }
   };
 
-  const handleFileSelect = (file: File) => {
-    if (file.type.startsWith('image/')) {
-      setSelectedFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPreviewUrl(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const showPreview = (file: File) => {
+    setSelectedFile(file);
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setPreviewUrl(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // PDFs are rasterized to PNG and DXF drawings to SVG before upload, so the
+  // rest of the app only ever deals with images.
+  const handleFileSelect = async (file: File) => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    setPdf(null);
+    setImportedDimensions(null);
+
+    setConverting(true);
+    try {
+      if (file.type === 'application/pdf' || extension === 'pdf') {
+        // pdf.js is large; only load it when a PDF is actually picked.
+        const { openPdf, rasterizePdfPage } = await import('../utils/pdfImport');
+        const pdfDocument = await openPdf(file);
+        setPdf({ document: pdfDocument, baseName, page: 1 });
+        showPreview(await rasterizePdfPage(pdfDocument, 1, baseName));
+      } else if (extension === 'dxf') {
+        const { svg, dimensions } = importDxf(await file.text());
+        const areas = computeAreas(dimensions);
+        setImportedDimensions(dimensions);
+        if (areas) setFloorArea(String(areas.total));
+        showPreview(new File([svg], `${baseName}.svg`, { type: 'image/svg+xml' }));
+      } else if (file.type.startsWith('image/')) {
+        showPreview(file);
+      } else {
+        alert('不支援的檔案格式，請上傳 JPG、PNG、PDF 或 DXF 檔案');
+      }
+    } catch (error) {
+      console.error('Error reading floor plan file:', error);
+      alert('無法讀取檔案，請確認檔案格式是否正確');
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const selectPdfPage = async (page: number) => {
+    if (!pdf) return;
+
+    setConverting(true);
+    try {
+      const { rasterizePdfPage } = await import('../utils/pdfImport');
+      setPdf({ ...pdf, page });
+      showPreview(await rasterizePdfPage(pdf.document, page, pdf.baseName));
+    } catch (error) {
+      console.error('Error rendering PDF page:', error);
+      alert('無法轉換此頁，請選擇其他頁面');
+    } finally {
+      setConverting(false);
     }
   };
 
@@ -88,17 +160,27 @@ export function FloorPlanUpload({
           name: floorPlanName,
           original_image_url: urlData.publicUrl,
           floor_area_sqm: floorArea ? parseFloat(floorArea) : null,
+          ...metadata,
+          ...(importedDimensions ? {
+            dimensions_json: importedDimensions,
+            usable_area_sqm: computeAreas(importedDimensions)?.usable ?? null
+          } : {})
         })
         .select()
         .single();
 
       if (insertError) throw insertError;
 
-      onFloorPlanUploaded(floorPlan);
+      setCalibratingPlan(floorPlan);
+      setCalibratingNewPlan(true);
       setSelectedFile(null);
       setPreviewUrl(null);
+      setPdf(null);
+      setImportedDimensions(null);
       setFloorPlanName('');
       setFloorArea('');
+      setMetadata(EMPTY_FLOOR_METADATA);
+      setShowMetadata(false);
     } catch (error) {
       console.error('Error uploading floor plan:', error);
       alert('上傳失敗，請稍後再試');
@@ -107,127 +189,255 @@ export function FloorPlanUpload({
     }
   };
 
+  const editMetadata = (floorPlan: FloorPlan) => {
+    setEditingMetadata({
+      floorPlan,
+      metadata: {
+        building: floorPlan.building,
+        floor_level: floorPlan.floor_level,
+        ceiling_height_m: floorPlan.ceiling_height_m,
+        north_angle: floorPlan.north_angle,
+        rent_per_sqm: floorPlan.rent_per_sqm,
+        lease_start: floorPlan.lease_start,
+        lease_end: floorPlan.lease_end,
+        core_factor: floorPlan.core_factor
+      }
+    });
+  };
+
+  const saveMetadata = async () => {
+    if (!editingMetadata) return;
+
+    setSavingMetadata(true);
+    try {
+      const { data, error } = await supabase
+        .from('floor_plans')
+        .update(editingMetadata.metadata)
+        .eq('id', editingMetadata.floorPlan.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      onFloorPlanUpdated(data);
+      setEditingMetadata(null);
+    } catch (error) {
+      console.error('Error saving floor plan metadata:', error);
+      alert('儲存失敗，請稍後再試');
+    } finally {
+      setSavingMetadata(false);
+    }
+  };
+
+  const finishCalibration = (floorPlan: FloorPlan) => {
+    if (calibratingNewPlan) {
+      onFloorPlanUploaded(floorPlan);
+    } else {
+      onFloorPlanUpdated(floorPlan);
+    }
+    setCalibratingPlan(null);
+    setCalibratingNewPlan(false);
+  };
+
+  const cancelCalibration = () => {
+    if (calibratingNewPlan && calibratingPlan) {
+      onFloorPlanUploaded(calibratingPlan);
+    }
+    setCalibratingPlan(null);
+    setCalibratingNewPlan(false);
+  };
+
+  if (calibratingPlan) {
+    return (
+      <FloorPlanCalibration
+        floorPlan={calibratingPlan}
+        onSaved={finishCalibration}
+        onCancel={cancelCalibration}
+        cancelLabel={calibratingNewPlan ? '略過' : '取消'}
+      />
+    );
+  }
+
   return (
     <div>
-      <div style={{
-        background: 'white',
-        padding: '2rem',
-        borderRadius: '8px',
-        marginBottom: '2rem'
-      }}>
-        <h2 style={{ marginTop: 0 }}>上傳平面圖</h2>
-
-        <div
-          onDragEnter={handleDrag}
-          onDragLeave={handleDrag}
-          onDragOver={handleDrag}
-          onDrop={handleDrop}
-          onClick={() => fileInputRef.current?.click()}
-          style={{
-            border: dragActive ? '2px dashed #667eea' : '2px dashed #ddd',
-            borderRadius: '8px',
-            padding: '3rem',
-            textAlign: 'center',
-            cursor: 'pointer',
-            background: dragActive ? '#f0f4ff' : '#fafafa',
-            marginBottom: '1.5rem'
-          }}
-        >
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*"
-            onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
-            style={{ display: 'none' }}
-          />
-
-          {previewUrl ? (
-            <div>
-              <img
-                src={previewUrl}
-                alt="Preview"
-                style={{
-                  maxWidth: '100%',
-                  maxHeight: '300px',
-                  borderRadius: '4px',
-                  marginBottom: '1rem'
-                }}
-              />
-              <p style={{ color: '#666' }}>點擊重新選擇檔案</p>
-            </div>
-          ) : (
+      {!readOnly && (
+        <div style={{
+          background: 'white',
+          padding: '2rem',
+          borderRadius: '8px',
+          marginBottom: '2rem'
+        }}>
+          <h2 style={{ marginTop: 0 }}>上傳平面圖</h2>
+
+          <div
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            style={{
+              border: dragActive ? '2px dashed #667eea' : '2px dashed #ddd',
+              borderRadius: '8px',
+              padding: '3rem',
+              textAlign: 'center',
+              cursor: 'pointer',
+              background: dragActive ? '#f0f4ff' : '#fafafa',
+              marginBottom: '1.5rem'
+            }}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,application/pdf,.pdf,.dxf"
+              onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
+              style={{ display: 'none' }}
+            />
+
+            {converting ? (
+              <p style={{ color: '#666' }}>轉換檔案中...</p>
+            ) : previewUrl ? (
+              <div>
+                <img
+                  src={previewUrl}
+                  alt="Preview"
+                  style={{
+                    maxWidth: '100%',
+                    maxHeight: '300px',
+                    borderRadius: '4px',
+                    marginBottom: '1rem'
+                  }}
+                />
+                <p style={{ color: '#666' }}>點擊重新選擇檔案</p>
+              </div>
+            ) : (
+              <div>
+                <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>📁</div>
+                <p style={{ fontSize: '1.1rem', marginBottom: '0.5rem' }}>
+                  拖曳平面圖到這裡，或點擊選擇檔案
+                </p>
+                <p style={{ color: '#999', fontSize: '0.9rem' }}>
+                  支援 JPG、PNG、PDF、DXF 格式
+                </p>
+              </div>
+            )}
+          </div>
+
+          {selectedFile && (
             <div>
-              <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>📁</div>
-              <p style={{ fontSize: '1.1rem', marginBottom: '0.5rem' }}>
-                拖曳平面圖到這裡，或點擊選擇檔案
-              </p>
-              <p style={{ color: '#999', fontSize: '0.9rem' }}>
-                支援 JPG、PNG、PDF 格式
-              </p>
-            </div>
-          )}
-        </div>
+              {pdf && pdf.document.numPages > 1 && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                    PDF 頁面
+                  </label>
+                  <select
+                    value={pdf.page}
+                    onChange={(e) => selectPdfPage(parseInt(e.target.value, 10))}
+                    disabled={converting}
+                    style={{
+                      width: '100%',
+                      padding: '0.75rem',
+                      border: '1px solid #ddd',
+                      borderRadius: '4px',
+                      fontSize: '1rem'
+                    }}
+                  >
+                    {Array.from({ length: pdf.document.numPages }, (_, i) => (
+                      <option key={i + 1} value={i + 1}>第 {i + 1} 頁</option>
+                    ))}
+                  </select>
+                </div>
+              )}
 
-        {selectedFile && (
-          <div>
-            <div style={{ marginBottom: '1rem' }}>
-              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
-                平面圖名稱
-              </label>
-              <input
-                type="text"
-                value={floorPlanName}
-                onChange={(e) => setFloorPlanName(e.target.value)}
-                placeholder="例：一樓平面圖"
-                style={{
-                  width: '100%',
-                  padding: '0.75rem',
-                  border: '1px solid #ddd',
-                  borderRadius: '4px',
-                  fontSize: '1rem'
-                }}
-              />
-            </div>
+              {importedDimensions && (importedDimensions.outline ? (
+                <p style={{ color: '#666', marginTop: 0 }}>
+                  已從 DXF 讀取比例與外牆輪廓，上傳後可在校正畫面中確認。
+                </p>
+              ) : (
+                <p style={{ color: '#c5221f', marginTop: 0 }}>
+                  DXF 中找不到封閉的外牆輪廓：外牆圖層的線段無法連成封閉圖形。上傳後請在校正畫面中描繪邊界。
+                </p>
+              ))}
+
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  平面圖名稱
+                </label>
+                <input
+                  type="text"
+                  value={floorPlanName}
+                  onChange={(e) => setFloorPlanName(e.target.value)}
+                  placeholder="例：一樓平面圖"
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #ddd',
+                    borderRadius: '4px',
+                    fontSize: '1rem'
+                  }}
+                />
+              </div>
+
+              <div style={{ marginBottom: '1.5rem' }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  總面積 (選填，平方公尺，上傳後可用校正工具計算)
+                </label>
+                <input
+                  type="number"
+                  value={floorArea}
+                  onChange={(e) => setFloorArea(e.target.value)}
+                  placeholder="例：150"
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #ddd',
+                    borderRadius: '4px',
+                    fontSize: '1rem'
+                  }}
+                />
+              </div>
+
+              <div style={{ marginBottom: '1.5rem' }}>
+                <button
+                  onClick={() => setShowMetadata(!showMetadata)}
+                  style={{
+                    padding: 0,
+                    background: 'none',
+                    border: 'none',
+                    color: '#667eea',
+                    cursor: 'pointer',
+                    fontSize: '1rem',
+                    fontWeight: 'bold'
+                  }}
+                >
+                  {showMetadata ? '▾' : '▸'} 大樓與租約資訊（選填）
+                </button>
+                {showMetadata && (
+                  <div style={{ marginTop: '1rem' }}>
+                    <FloorMetadataForm metadata={metadata} onChange={setMetadata} />
+                  </div>
+                )}
+              </div>
 
-            <div style={{ marginBottom: '1.5rem' }}>
-              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
-                總面積 (選填，平方公尺)
-              </label>
-              <input
-                type="number"
-                value={floorArea}
-                onChange={(e) => setFloorArea(e.target.value)}
-                placeholder="例：150"
+              <button
+                onClick={handleUpload}
+                disabled={uploading || converting || !floorPlanName.trim()}
                 style={{
                   width: '100%',
-                  padding: '0.75rem',
-                  border: '1px solid #ddd',
+                  padding: '1rem',
+                  background: (uploading || !floorPlanName.trim()) ? '#ccc' : '#667eea',
+                  color: 'white',
+                  border: 'none',
                   borderRadius: '4px',
-                  fontSize: '1rem'
+                  cursor: (uploading || !floorPlanName.trim()) ? 'not-allowed' : 'pointer',
+                  fontSize: '1rem',
+                  fontWeight: 'bold'
                 }}
-              />
+              >
+                {uploading ? '上傳中...' : '上傳平面圖'}
+              </button>
             </div>
-
-            <button
-              onClick={handleUpload}
-              disabled={uploading || !floorPlanName.trim()}
-              style={{
-                width: '100%',
-                padding: '1rem',
-                background: (uploading || !floorPlanName.trim()) ? '#ccc' : '#667eea',
-                color: 'white',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: (uploading || !floorPlanName.trim()) ? 'not-allowed' : 'pointer',
-                fontSize: '1rem',
-                fontWeight: 'bold'
-              }}
-            >
-              {uploading ? '上傳中...' : '上傳平面圖'}
-            </button>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
 
       {floorPlans.length > 0 && (
         <div style={{
@@ -265,14 +475,107 @@ export function FloorPlanUpload({
                   }}
                 />
                 <h4 style={{ margin: '0.5rem 0' }}>{floorPlan.name}</h4>
+                {(floorPlan.building || floorPlan.floor_level) && (
+                  <p style={{ margin: '0 0 0.25rem 0', color: '#666', fontSize: '0.9rem' }}>
+                    {[floorPlan.building, floorPlan.floor_level ? floorLevelLabel(floorPlan.floor_level) : null]
+                      .filter(Boolean)
+                      .join(' ')}
+                  </p>
+                )}
                 {floorPlan.floor_area_sqm && (
                   <p style={{ margin: 0, color: '#666', fontSize: '0.9rem' }}>
                     {floorPlan.floor_area_sqm} m²
+                    {floorPlan.usable_area_sqm && `（可用 ${floorPlan.usable_area_sqm} m²）`}
                   </p>
                 )}
+                {monthlyRent(floorPlan, floorPlan.floor_area_sqm) !== null && (
+                  <p style={{ margin: '0.25rem 0 0 0', color: '#666', fontSize: '0.9rem' }}>
+                    月租金約 {monthlyRent(floorPlan, floorPlan.floor_area_sqm)?.toLocaleString('zh-TW')} 元
+                    {leaseMonths(floorPlan) && `，租期 ${leaseMonths(floorPlan)} 個月`}
+                  </p>
+                )}
+                {!readOnly && (
+                  <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setCalibratingPlan(floorPlan);
+                      }}
+                      style={{
+                        padding: '0.25rem 0.75rem',
+                        background: '#f1f3f4',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontSize: '0.875rem'
+                      }}
+                    >
+                      {floorPlan.dimensions_json?.scale ? '重新校正' : '校正比例與面積'}
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        editMetadata(floorPlan);
+                      }}
+                      style={{
+                        padding: '0.25rem 0.75rem',
+                        background: '#f1f3f4',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontSize: '0.875rem'
+                      }}
+                    >
+                      樓層資訊
+                    </button>
+                  </div>
+                )}
               </div>
             ))}
           </div>
+
+          {editingMetadata && (
+            <div style={{
+              marginTop: '1.5rem',
+              padding: '1.5rem',
+              border: '2px solid #667eea',
+              borderRadius: '8px'
+            }}>
+              <h4 style={{ marginTop: 0 }}>樓層資訊：{editingMetadata.floorPlan.name}</h4>
+              <FloorMetadataForm
+                metadata={editingMetadata.metadata}
+                onChange={(changed) => setEditingMetadata({ ...editingMetadata, metadata: changed })}
+              />
+              <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                <button
+                  onClick={saveMetadata}
+                  disabled={savingMetadata}
+                  style={{
+                    padding: '0.5rem 1.5rem',
+                    background: savingMetadata ? '#ccc' : '#667eea',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: savingMetadata ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  {savingMetadata ? '儲存中...' : '儲存'}
+                </button>
+                <button
+                  onClick={() => setEditingMetadata(null)}
+                  style={{
+                    padding: '0.5rem 1.5rem',
+                    background: '#f1f3f4',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  取消
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
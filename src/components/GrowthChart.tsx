@@ -0,0 +1,84 @@
+import type { ScenarioFloorPlan, ScenarioYearResult } from '../utils/growthScenarios';
+import { runOutYear } from '../utils/growthScenarios';
+
+interface Props {
+  results: ScenarioYearResult[];
+  floorPlans: ScenarioFloorPlan[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const PADDING = { top: 20, right: 120, bottom: 40, left: 60 };
+const PLAN_COLORS = ['#1e7e34', '#e8710a', '#1a73e8', '#9334e6', '#c5221f'];
+
+// Required area per year against the area of each floor plan; a red marker
+// shows the first year a plan no longer fits.
+export function GrowthChart({ results, floorPlans }: Props) {
+  if (results.length === 0) return null;
+
+  const plans = floorPlans.filter((plan) => plan.floor_area_sqm);
+  const maxArea = Math.max(...results.map((r) => r.requiredArea), ...plans.map((p) => p.floor_area_sqm ?? 0)) * 1.1;
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (results.length === 1 ? innerWidth / 2 : (index / (results.length - 1)) * innerWidth);
+  const y = (area: number) => PADDING.top + innerHeight - (area / maxArea) * innerHeight;
+
+  const requiredLine = results.map((r, i) => `${x(i)},${y(r.requiredArea)}`).join(' ');
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((t) => Math.round(maxArea * t));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: '100%', maxWidth: `${WIDTH}px`, background: 'white' }}>
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#eee" />
+          <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#666">{tick}</text>
+        </g>
+      ))}
+      <text x={12} y={PADDING.top + innerHeight / 2} fontSize="11" fill="#666" transform={`rotate(-90 12 ${PADDING.top + innerHeight / 2})`} textAnchor="middle">
+        m²
+      </text>
+
+      {results.map((r, i) => (
+        <text key={r.year} x={x(i)} y={HEIGHT - PADDING.bottom + 18} textAnchor="middle" fontSize="11" fill="#666">
+          {r.year}
+        </text>
+      ))}
+
+      {plans.map((plan, i) => {
+        const color = PLAN_COLORS[i % PLAN_COLORS.length];
+        const area = plan.floor_area_sqm ?? 0;
+        const outOfSpace = runOutYear(results, plan.id);
+        const index = results.findIndex((r) => r.year === outOfSpace);
+
+        return (
+          <g key={plan.id}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(area)}
+              y2={y(area)}
+              stroke={color}
+              strokeDasharray="6 4"
+            />
+            <text x={WIDTH - PADDING.right + 6} y={y(area) + 4} fontSize="11" fill={color}>
+              {plan.name}
+            </text>
+            {index >= 0 && (
+              <circle cx={x(index)} cy={y(results[index].requiredArea)} r={6} fill="none" stroke="#c5221f" strokeWidth={2} />
+            )}
+          </g>
+        );
+      })}
+
+      <polyline points={requiredLine} fill="none" stroke="#667eea" strokeWidth={2} />
+      {results.map((r, i) => (
+        <circle key={r.year} cx={x(i)} cy={y(r.requiredArea)} r={3} fill="#667eea" />
+      ))}
+      <text x={WIDTH - PADDING.right + 6} y={y(results[results.length - 1].requiredArea) + 4} fontSize="11" fill="#667eea">
+        所需面積
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,397 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { GrowthChart } from './GrowthChart';
+import type { GrowthScenario, ScenarioFloorPlan } from '../utils/growthScenarios';
+import {
+  deleteGrowthScenario,
+  evaluateScenario,
+  headcountsFromGrowth,
+  loadGrowthScenarios,
+  runOutYear,
+  saveGrowthScenario
+} from '../utils/growthScenarios';
+import type { HeadcountProfile } from '../utils/headcountPlanner';
+import { DEFAULT_HEADCOUNT_PROFILE, totalHeadcount } from '../utils/headcountPlanner';
+import type { SpaceStandards } from '../utils/spaceStandards';
+import { DEFAULT_SPACE_STANDARDS, loadSpaceStandards } from '../utils/spaceStandards';
+
+interface Props {
+  projectId: string;
+  floorPlans: ScenarioFloorPlan[];
+}
+
+type Draft = Omit<GrowthScenario, 'id'> & { id?: string };
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '1rem'
+};
+
+const buttonStyle = {
+  padding: '0.5rem 1rem',
+  background: '#f1f3f4',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+};
+
+export function GrowthScenarios({ projectId, floorPlans }: Props) {
+  const [scenarios, setScenarios] = useState<GrowthScenario[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [standards, setStandards] = useState<SpaceStandards>(DEFAULT_SPACE_STANDARDS);
+  const [growth, setGrowth] = useState({ start: 20, rate: 20, years: 3 });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([loadGrowthScenarios(projectId), loadSpaceStandards(projectId)])
+      .then(([loaded, loadedStandards]) => {
+        setScenarios(loaded);
+        setStandards(loadedStandards);
+        if (loaded.length > 0) setDraft(loaded[0]);
+      })
+      .catch((error) => console.error('Error loading growth scenarios:', error))
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  // New scenarios start from the answers given in the requirement wizard, if any.
+  const createScenario = async () => {
+    const { data } = await supabase
+      .from('space_requirements')
+      .select('headcount_profile')
+      .eq('project_id', projectId)
+      .not('headcount_profile', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const profile: HeadcountProfile = data?.headcount_profile ?? DEFAULT_HEADCOUNT_PROFILE;
+    const start = totalHeadcount(profile);
+
+    setGrowth({ ...growth, start });
+    setDraft({
+      project_id: projectId,
+      name: `情境 ${scenarios.length + 1}`,
+      profile: {
+        attendance_ratio: profile.attendance_ratio,
+        desk_sharing_ratio: profile.desk_sharing_ratio,
+        teams: profile.teams
+      },
+      headcounts: headcountsFromGrowth(start, growth.rate, growth.years, new Date().getFullYear()),
+      floor_plan_ids: floorPlans.map((plan) => plan.id)
+    });
+  };
+
+  const update = (changes: Partial<Draft>) => {
+    if (draft) setDraft({ ...draft, ...changes });
+  };
+
+  const fillFromGrowth = () => {
+    const firstYear = draft?.headcounts[0]?.year ?? new Date().getFullYear();
+    update({ headcounts: headcountsFromGrowth(growth.start, growth.rate, growth.years, firstYear) });
+  };
+
+  const updateHeadcount = (index: number, headcount: number) => {
+    if (!draft) return;
+    update({ headcounts: draft.headcounts.map((h, i) => (i === index ? { ...h, headcount } : h)) });
+  };
+
+  const addYear = () => {
+    if (!draft) return;
+    const last = draft.headcounts[draft.headcounts.length - 1];
+    update({
+      headcounts: [
+        ...draft.headcounts,
+        last ? { year: last.year + 1, headcount: last.headcount } : { year: new Date().getFullYear(), headcount: growth.start }
+      ]
+    });
+  };
+
+  const toggleFloorPlan = (id: string) => {
+    if (!draft) return;
+    update({
+      floor_plan_ids: draft.floor_plan_ids.includes(id)
+        ? draft.floor_plan_ids.filter((planId) => planId !== id)
+        : [...draft.floor_plan_ids, id]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const saved = await saveGrowthScenario(draft);
+      setScenarios(draft.id
+        ? scenarios.map((s) => (s.id === saved.id ? saved : s))
+        : [...scenarios, saved]);
+      setDraft(saved);
+    } catch (error) {
+      console.error('Error saving growth scenario:', error);
+      alert('儲存失敗，請稍後再試');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft?.id || !confirm(`確定要刪除「${draft.name}」嗎？`)) return;
+    try {
+      await deleteGrowthScenario(draft.id);
+      const remaining = scenarios.filter((s) => s.id !== draft.id);
+      setScenarios(remaining);
+      setDraft(remaining[0] ?? null);
+    } catch (error) {
+      console.error('Error deleting growth scenario:', error);
+      alert('刪除失敗，請稍後再試');
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  const results = draft ? evaluateScenario(draft, floorPlans, standards) : [];
+  const selectedPlans = floorPlans.filter((plan) => draft?.floor_plan_ids.includes(plan.id));
+  const cellStyle = { padding: '0.5rem', borderBottom: '1px solid #e0e0e0', textAlign: 'center' as const };
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '8px'
+    }}>
+      <h2 style={{ marginTop: 0 }}>成長情境</h2>
+      <p style={{ color: '#666', marginTop: 0 }}>
+        設定每年人數，系統會依人數推算各年需求，並檢查各平面圖在哪一年開始不敷使用。
+      </p>
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+        {scenarios.map((scenario) => (
+          <button
+            key={scenario.id}
+            onClick={() => setDraft(scenario)}
+            style={{
+              ...buttonStyle,
+              background: draft?.id === scenario.id ? '#667eea' : '#f1f3f4',
+              color: draft?.id === scenario.id ? 'white' : '#333'
+            }}
+          >
+            {scenario.name}
+          </button>
+        ))}
+        <button onClick={createScenario} style={{ ...buttonStyle, border: '1px dashed #999' }}>
+          + 新增情境
+        </button>
+      </div>
+
+      {!draft ? (
+        <p style={{ color: '#999' }}>尚未建立成長情境</p>
+      ) : (
+        <>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))',
+            gap: '1.5rem',
+            marginBottom: '1.5rem'
+          }}>
+            <div>
+              <label style={{ display: 'block', marginBottom: '1rem' }}>
+                <div style={{ marginBottom: '0.25rem' }}>情境名稱</div>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  style={inputStyle}
+                />
+              </label>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+                <label>
+                  <div style={{ marginBottom: '0.25rem' }}>尖峰到班率 (%)</div>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="5"
+                    value={Math.round(draft.profile.attendance_ratio * 100)}
+                    onChange={(e) => update({
+                      profile: { ...draft.profile, attendance_ratio: Math.min(100, parseFloat(e.target.value) || 0) / 100 }
+                    })}
+                    style={inputStyle}
+                  />
+                </label>
+                <label>
+                  <div style={{ marginBottom: '0.25rem' }}>共享座位比</div>
+                  <input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={draft.profile.desk_sharing_ratio}
+                    onChange={(e) => update({
+                      profile: { ...draft.profile, desk_sharing_ratio: Math.min(1, parseFloat(e.target.value) || 0) }
+                    })}
+                    style={inputStyle}
+                  />
+                </label>
+              </div>
+
+              <h4 style={{ margin: '0 0 0.5rem 0' }}>檢查的平面圖</h4>
+              {floorPlans.length === 0 && <p style={{ color: '#999' }}>請先上傳平面圖</p>}
+              {floorPlans.map((plan) => (
+                <label key={plan.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                  <input
+                    type="checkbox"
+                    checked={draft.floor_plan_ids.includes(plan.id)}
+                    onChange={() => toggleFloorPlan(plan.id)}
+                  />
+                  {plan.name}（{plan.floor_area_sqm ? `${plan.floor_area_sqm} m²` : '未設定面積'}）
+                </label>
+              ))}
+            </div>
+
+            <div>
+              <h4 style={{ margin: '0 0 0.5rem 0' }}>依成長率產生</h4>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr auto', gap: '0.5rem', alignItems: 'end', marginBottom: '1rem' }}>
+                <label>
+                  <div style={{ marginBottom: '0.25rem', fontSize: '0.9rem' }}>起始人數</div>
+                  <input
+                    type="number"
+                    min="0"
+                    value={growth.start}
+                    onChange={(e) => setGrowth({ ...growth, start: parseInt(e.target.value) || 0 })}
+                    style={inputStyle}
+                  />
+                </label>
+                <label>
+                  <div style={{ marginBottom: '0.25rem', fontSize: '0.9rem' }}>年成長率 (%)</div>
+                  <input
+                    type="number"
+                    step="5"
+                    value={growth.rate}
+                    onChange={(e) => setGrowth({ ...growth, rate: parseFloat(e.target.value) || 0 })}
+                    style={inputStyle}
+                  />
+                </label>
+                <label>
+                  <div style={{ marginBottom: '0.25rem', fontSize: '0.9rem' }}>年數</div>
+                  <input
+                    type="number"
+                    min="1"
+                    max="20"
+                    value={growth.years}
+                    onChange={(e) => setGrowth({ ...growth, years: Math.min(20, parseInt(e.target.value) || 1) })}
+                    style={inputStyle}
+                  />
+                </label>
+                <button onClick={fillFromGrowth} style={buttonStyle}>產生</button>
+              </div>
+
+              <h4 style={{ margin: '0 0 0.5rem 0' }}>每年人數</h4>
+              {draft.headcounts.map((h, index) => (
+                <div key={h.year} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                  <span style={{ width: '4rem' }}>{h.year}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={h.headcount}
+                    onChange={(e) => updateHeadcount(index, parseInt(e.target.value) || 0)}
+                    style={{ ...inputStyle, width: '120px' }}
+                  />
+                  <span>人</span>
+                  {index === draft.headcounts.length - 1 && (
+                    <button
+                      onClick={() => update({ headcounts: draft.headcounts.slice(0, -1) })}
+                      style={{ ...buttonStyle, color: '#c5221f' }}
+                    >
+                      移除
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button onClick={addYear} style={{ ...buttonStyle, border: '1px dashed #999' }}>+ 新增年度</button>
+            </div>
+          </div>
+
+          {results.length > 0 && (
+            <>
+              <GrowthChart results={results} floorPlans={selectedPlans} />
+
+              <div style={{ margin: '1rem 0' }}>
+                {selectedPlans.filter((plan) => plan.floor_area_sqm).map((plan) => {
+                  const year = runOutYear(results, plan.id);
+                  return (
+                    <div key={plan.id} style={{ color: year ? '#c5221f' : '#1e7e34', marginBottom: '0.25rem' }}>
+                      {year ? `⚠️ ${plan.name}：${year} 年起空間不足` : `✓ ${plan.name}：規劃期間內空間足夠`}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div style={{ overflowX: 'auto', marginBottom: '1.5rem' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={cellStyle}>年度</th>
+                      <th style={cellStyle}>人數</th>
+                      <th style={cellStyle}>工作站</th>
+                      <th style={cellStyle}>會議室</th>
+                      <th style={cellStyle}>電話亭</th>
+                      <th style={cellStyle}>所需面積</th>
+                      {selectedPlans.filter((plan) => plan.floor_area_sqm).map((plan) => (
+                        <th key={plan.id} style={cellStyle}>{plan.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map((result) => (
+                      <tr key={result.year}>
+                        <td style={cellStyle}>{result.year}</td>
+                        <td style={cellStyle}>{result.headcount}</td>
+                        <td style={cellStyle}>{result.requirements.workstations}</td>
+                        <td style={cellStyle}>
+                          {result.requirements.meeting_rooms_small + result.requirements.meeting_rooms_medium + result.requirements.meeting_rooms_large}
+                        </td>
+                        <td style={cellStyle}>{result.requirements.phone_booths}</td>
+                        <td style={cellStyle}>{result.requiredArea} m²</td>
+                        {result.plans.map((plan) => (
+                          <td key={plan.floorPlanId} style={{ ...cellStyle, color: plan.fits ? '#1e7e34' : '#c5221f' }}>
+                            {plan.fits ? '✓' : '⚠️'} {plan.score}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim()}
+              style={{
+                ...buttonStyle,
+                flex: 1,
+                padding: '1rem',
+                background: saving ? '#ccc' : '#667eea',
+                color: 'white',
+                fontWeight: 'bold',
+                cursor: saving ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {saving ? '儲存中...' : '儲存情境'}
+            </button>
+            {draft.id && (
+              <button onClick={handleDelete} style={{ ...buttonStyle, background: '#fce8e6', color: '#c5221f' }}>
+                刪除情境
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
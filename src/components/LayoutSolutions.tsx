@@ -1,27 +1,57 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-
-interface FloorPlan {
+import { useAuth } from '../contexts/AuthContext';
+import { FeasibilityBreakdown } from './FeasibilityBreakdown';
+import { LayoutVersionHistory } from './LayoutVersionHistory';
+import { SolutionComparison } from './SolutionComparison';
+import { SuggestionList } from './SuggestionList';
+import type { Point } from '../utils/geometry';
+import type { FloorPlanDimensions } from '../utils/floorPlanDimensions';
+import type { FloorPlanMetadata } from '../utils/floorMetadata';
+import { floorPlanTitle } from '../utils/floorMetadata';
+import type { PriceBook } from '../utils/costEstimator';
+import { estimateCost, formatCurrency, loadPriceBook } from '../utils/costEstimator';
+import { obstaclesOf } from '../utils/floorPlanDimensions';
+import type { AdjacencyRule, CustomRoomRequirement, LayoutPlan, SiteFeatures, Zone } from '../utils/layoutEngine';
+import { defaultOutline, describeViolation, generateLayout, summarizeLayout } from '../utils/layoutEngine';
+import { FEASIBILITY_THRESHOLD, scoreSolution } from '../utils/feasibility';
+import { saveWithLayoutImage } from '../utils/layoutStorage';
+import { subscribeToRows } from '../utils/realtime';
+import type { SharedRequirement, SharedSolution } from '../utils/shareLinks';
+import { DEFAULT_SHARE_LINK_DAYS, copyShareLink, createShareLink } from '../utils/shareLinks';
+import type { LayoutVersion, SolutionSnapshot } from '../utils/layoutVersions';
+import { createSolution, saveSolutionVersion } from '../utils/layoutVersions';
+import type { SpaceStandards } from '../utils/spaceStandards';
+import { layoutOptions, loadSpaceStandards } from '../utils/spaceStandards';
+import type { Suggestion } from '../utils/suggestions';
+import { formatSuggestions, generateSuggestions, parseSuggestions } from '../utils/suggestions';
+
+interface FloorPlan extends FloorPlanMetadata {
   id: string;
   name: string;
   original_image_url: string;
   floor_area_sqm: number | null;
+  dimensions_json?: FloorPlanDimensions | null;
 }
 
+const MAX_COMPARED = 4;
+
 interface Props {
+  projectId: string;
   floorPlan: FloorPlan;
+  // Viewers can browse and compare solutions but not generate or change them.
+  readOnly?: boolean;
+  // Set on a share link page: shows what the link returned instead of loading.
+  shared?: {
+    requirement: SharedRequirement | null;
+    solutions: SharedSolution[];
+    standards: SpaceStandards;
+  };
 }
 
-interface Solution {
+interface Solution extends SolutionSnapshot {
   id: string;
-  feasibility_score: number;
-  is_feasible: boolean;
-  workstations_placed: number;
-  meeting_rooms_placed: any;
-  amenities_placed: any;
-  utilization_rate: number;
-  constraints_met: any;
-  suggestions: string;
   created_at: string;
 }
 
@@ -37,17 +67,61 @@ interface SpaceRequirement {
   reception_area: boolean;
   storage_rooms: number;
   server_room: boolean;
+  custom_rooms: CustomRoomRequirement[];
+  adjacency_rules: AdjacencyRule[];
+  zones: Partial<Record<string, Zone>>;
   additional_notes: string;
 }
 
-export function LayoutSolutions({ floorPlan }: Props) {
+export function LayoutSolutions({ projectId, floorPlan, readOnly, shared }: Props) {
   const [solutions, setSolutions] = useState<Solution[]>([]);
   const [requirements, setRequirements] = useState<SpaceRequirement | null>(null);
+  const [standards, setStandards] = useState<SpaceStandards | null>(null);
+  const [prices, setPrices] = useState<PriceBook | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [historySolutionId, setHistorySolutionId] = useState<string | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Suggestions are shown as stored with each solution, so they only change
+  // when it is regenerated; the current rules just supply the fixes.
+  const suggestionsById = useMemo(() => new Map(solutions.map((solution) => {
+    const current = solution.layout_json?.outline && requirements && standards
+      ? generateSuggestions({
+        req: requirements,
+        plan: solution.layout_json,
+        summary: solution,
+        availableArea: floorPlan.floor_area_sqm,
+        standards
+      })
+      : [];
+    return [solution.id, parseSuggestions(solution.suggestions, current)];
+  })), [solutions, requirements, standards, floorPlan.floor_area_sqm]);
 
   useEffect(() => {
+    if (shared) {
+      setRequirements(shared.requirement && { ...shared.requirement, additional_notes: '' });
+      setSolutions(shared.solutions.map((solution) => ({ ...solution, cost_estimate: null })));
+      setStandards(shared.standards);
+      setLoading(false);
+      return;
+    }
+
     loadRequirementsAndSolutions();
+
+    // Solutions and requirement saves from others on the project show up live.
+    const filter = `floor_plan_id=eq.${floorPlan.id}`;
+    const unsubscribeSolutions = subscribeToRows('layout_solutions', filter, () => loadRequirementsAndSolutions());
+    const unsubscribeRequirements = subscribeToRows('space_requirements', filter, () => loadRequirementsAndSolutions());
+    return () => {
+      unsubscribeSolutions();
+      unsubscribeRequirements();
+    };
   }, [floorPlan.id]);
 
   const loadRequirementsAndSolutions = async () => {
@@ -62,6 +136,8 @@ export function LayoutSolutions({ floorPlan }: Props) {
 
       if (reqError) throw reqError;
       setRequirements(reqData);
+      setStandards(await loadSpaceStandards(projectId));
+      setPrices(await loadPriceBook(projectId));
 
       if (reqData) {
         const { data: solData, error: solError } = await supabase
@@ -80,120 +156,180 @@ export function LayoutSolutions({ floorPlan }: Props) {
     }
   };
 
+  const resolveOutline = (): { outline: Point[] | null; site?: SiteFeatures; source: 'traced' | 'floor_area' } => {
+    const dimensions = floorPlan.dimensions_json;
+    const orientation = { northAngle: floorPlan.north_angle, ceilingHeight: floorPlan.ceiling_height_m };
+    if (dimensions?.outline && dimensions.outline.length >= 3) {
+      return {
+        outline: dimensions.outline,
+        site: { obstacles: obstaclesOf(dimensions), openings: dimensions.openings ?? [], ...orientation },
+        source: 'traced'
+      };
+    }
+    return {
+      outline: floorPlan.floor_area_sqm ? defaultOutline(floorPlan.floor_area_sqm) : null,
+      site: { obstacles: [], openings: [], ...orientation },
+      source: 'floor_area'
+    };
+  };
+
+  // The image is uploaded by whoever saves the solution.
+  const buildSolution = (req: SpaceRequirement): (SolutionSnapshot & { layout_json: LayoutPlan }) | null => {
+    const { outline, site } = resolveOutline();
+
+    if (!outline) {
+      alert('請先設定平面圖的總面積，才能生成配置方案');
+      return null;
+    }
+
+    if (!standards || !prices) return null;
+
+    const plan = generateLayout(outline, req, site, layoutOptions(standards));
+    const summary = summarizeLayout(plan, req);
+
+    const feasibility = scoreSolution(plan, summary, req, floorPlan.floor_area_sqm, standards);
+    const isFeasible = feasibility.score >= FEASIBILITY_THRESHOLD && Object.values(summary.constraints_met).every(Boolean);
+
+    return {
+      feasibility_score: feasibility.score,
+      feasibility_breakdown: feasibility.factors,
+      is_feasible: isFeasible,
+      ...summary,
+      layout_json: plan,
+      solution_image_url: null,
+      cost_estimate: estimateCost(plan, floorPlan, prices),
+      suggestions: formatSuggestions(generateSuggestions({ req, plan, summary, availableArea: floorPlan.floor_area_sqm, standards }))
+    };
+  };
+
+  const insertSolution = async (req: SpaceRequirement): Promise<Solution | null> => {
+    if (!user) return null;
+
+    const built = buildSolution(req);
+    if (!built) return null;
+
+    return saveWithLayoutImage(projectId, built.layout_json, (imageUrl) => createSolution<Solution>({
+      floor_plan_id: floorPlan.id,
+      space_requirement_id: req.id,
+      generation_params: {
+        algorithm: 'space_allocation_v2',
+        outline_source: resolveOutline().source,
+        space_standards: standards?.preset,
+        timestamp: new Date().toISOString()
+      }
+    }, { ...built, solution_image_url: imageUrl }, '初始生成'));
+  };
+
   const generateSolution = async () => {
     if (!requirements) return;
 
     setGenerating(true);
     try {
-      const estimatedWorkstations = Math.floor(requirements.workstations * 0.85);
-      const estimatedSmallRooms = Math.min(requirements.meeting_rooms_small,
-        Math.floor((floorPlan.floor_area_sqm || 0) / 100));
-      const estimatedMediumRooms = Math.min(requirements.meeting_rooms_medium,
-        Math.floor((floorPlan.floor_area_sqm || 0) / 150));
+      const created = await insertSolution(requirements);
+      if (created) setSolutions([created, ...solutions]);
+    } catch (error) {
+      console.error('Error generating solution:', error);
+      alert('生成方案失敗，請稍後再試');
+    } finally {
+      setGenerating(false);
+    }
+  };
 
-      const feasibilityScore = calculateFeasibilityScore(requirements, floorPlan.floor_area_sqm);
-      const isFeasible = feasibilityScore >= 60;
+  // Requirements are versioned like the form saves them: the fix goes into a
+  // new row, and solutions of the old one drop out of the list.
+  const applyFix = async (suggestion: Suggestion) => {
+    if (!requirements || !suggestion.fix) return;
+
+    setGenerating(true);
+    try {
+      const row: Record<string, unknown> = { ...requirements, ...suggestion.fix.changes };
+      delete row.id;
+      delete row.created_at;
+      delete row.updated_at;
+      delete row.created_by;
 
       const { data, error } = await supabase
-        .from('layout_solutions')
-        .insert({
-          floor_plan_id: floorPlan.id,
-          space_requirement_id: requirements.id,
-          feasibility_score: feasibilityScore,
-          is_feasible: isFeasible,
-          workstations_placed: estimatedWorkstations,
-          meeting_rooms_placed: {
-            small: estimatedSmallRooms,
-            medium: estimatedMediumRooms,
-            large: Math.min(requirements.meeting_rooms_large, 1)
-          },
-          amenities_placed: {
-            phone_booths: requirements.phone_booths,
-            breakout_areas: requirements.breakout_areas,
-            kitchen: requirements.kitchen_pantry,
-            reception: requirements.reception_area,
-            storage: requirements.storage_rooms,
-            server_room: requirements.server_room
-          },
-          utilization_rate: Math.min(95, (estimatedWorkstations * 6) / (floorPlan.floor_area_sqm || 1) * 100),
-          constraints_met: {
-            workstations: estimatedWorkstations >= requirements.workstations * 0.8,
-            meeting_rooms: estimatedSmallRooms + estimatedMediumRooms >=
-              (requirements.meeting_rooms_small + requirements.meeting_rooms_medium) * 0.7,
-            amenities: true
-          },
-          suggestions: generateSuggestions(requirements, floorPlan.floor_area_sqm, isFeasible),
-          generation_params: {
-            algorithm: 'space_allocation_v1',
-            timestamp: new Date().toISOString()
-          }
-        })
+        .from('space_requirements')
+        .insert(row)
         .select()
         .single();
 
       if (error) throw error;
-      setSolutions([data, ...solutions]);
+      setRequirements(data);
+      const created = await insertSolution(data);
+      setSolutions(created ? [created] : []);
     } catch (error) {
-      console.error('Error generating solution:', error);
-      alert('生成方案失敗，請稍後再試');
+      console.error('Error applying suggestion:', error);
+      alert('套用建議失敗，請稍後再試');
     } finally {
       setGenerating(false);
     }
   };
 
-  const calculateFeasibilityScore = (req: SpaceRequirement, availableArea: number | null): number => {
-    if (!availableArea) return 50;
-
-    const requiredArea =
-      req.workstations * 6 +
-      req.meeting_rooms_small * 15 +
-      req.meeting_rooms_medium * 25 +
-      req.meeting_rooms_large * 40 +
-      req.phone_booths * 2 +
-      req.breakout_areas * 20 +
-      (req.kitchen_pantry ? 15 : 0) +
-      (req.reception_area ? 20 : 0) +
-      req.storage_rooms * 10 +
-      (req.server_room ? 15 : 0);
-
-    const withCirculation = requiredArea * 1.4;
-    const ratio = availableArea / withCirculation;
-
-    if (ratio >= 1.2) return 95;
-    if (ratio >= 1.0) return 85;
-    if (ratio >= 0.9) return 70;
-    if (ratio >= 0.8) return 55;
-    return 40;
+
+  const updateSolution = async (solutionId: string, snapshot: SolutionSnapshot, description: string) => {
+    const data = await saveSolutionVersion<Solution>(solutionId, snapshot, description);
+    setSolutions((current) => current.map((s) => (s.id === solutionId ? data : s)));
+    setHistoryRefreshKey((key) => key + 1);
+  };
+
+  const regenerateSolution = async (solution: Solution) => {
+    if (!requirements) return;
+
+    setRegeneratingId(solution.id);
+    try {
+      const built = buildSolution(requirements);
+      if (!built) return;
+      await saveWithLayoutImage(projectId, built.layout_json, (imageUrl) =>
+        updateSolution(solution.id, { ...built, solution_image_url: imageUrl }, '重新生成配置'));
+    } catch (error) {
+      console.error('Error regenerating solution:', error);
+      alert('重新生成失敗，請稍後再試');
+    } finally {
+      setRegeneratingId(null);
+    }
   };
 
-  const generateSuggestions = (req: SpaceRequirement, availableArea: number | null, isFeasible: boolean): string => {
-    if (!availableArea) return '建議先設定平面圖的總面積以獲得更準確的分析。';
-
-    const suggestions = [];
-
-    if (!isFeasible) {
-      suggestions.push('空間不足以容納所有需求，建議：');
-      suggestions.push('- 減少工作站數量或採用更緊湊的配置');
-      suggestions.push('- 考慮使用靈活的共享空間取代部分固定會議室');
-      suggestions.push('- 評估是否真的需要所有設施');
-    } else {
-      suggestions.push('空間配置可行！建議：');
-      suggestions.push('- 採用開放式工作區域提高空間使用效率');
-      suggestions.push('- 使用玻璃隔間增加採光和空間感');
-      suggestions.push('- 預留 10-15% 空間作為未來擴充使用');
+  const restoreVersion = async (version: LayoutVersion) => {
+    try {
+      await updateSolution(version.layout_solution_id, version.snapshot, `還原至版本 ${version.version_number}`);
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      alert('還原失敗，請稍後再試');
     }
+  };
 
-    if (req.workstations > 30) {
-      suggestions.push('- 考慮設置協作區域促進團隊互動');
+  const shareSolution = async (solution: Solution) => {
+    if (!user) return;
+
+    try {
+      const label = `${floorPlanTitle(floorPlan)} ${solutionLabel(solution.id)}`;
+      const link = await createShareLink(projectId, solution.id, label, DEFAULT_SHARE_LINK_DAYS, user.id);
+      if (await copyShareLink(link.token)) {
+        alert(`分享連結已複製，${DEFAULT_SHARE_LINK_DAYS} 天內有效。可在專案的「共享」中撤銷。`);
+      }
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert('建立分享連結失敗，請稍後再試');
     }
+  };
 
-    if (req.meeting_rooms_small + req.meeting_rooms_medium + req.meeting_rooms_large > 5) {
-      suggestions.push('- 會議室數量較多，建議採用預約系統提高使用率');
+  const toggleCompare = (solutionId: string) => {
+    if (compareIds.includes(solutionId)) {
+      setCompareIds(compareIds.filter((id) => id !== solutionId));
+    } else if (compareIds.length < MAX_COMPARED) {
+      setCompareIds([...compareIds, solutionId]);
     }
+  };
 
-    return suggestions.join('\n');
+  const exitCompareMode = () => {
+    setCompareMode(false);
+    setCompareIds([]);
   };
 
+  const solutionLabel = (solutionId: string) =>
+    `方案 ${solutions.length - solutions.findIndex((s) => s.id === solutionId)}`;
+
   if (loading) {
     return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
   }
@@ -207,7 +343,7 @@ export function LayoutSolutions({ floorPlan }: Props) {
         textAlign: 'center'
       }}>
         <h3>尚未設定空間需求</h3>
-        <p style={{ color: '#666' }}>請先在「空間需求」分頁設定您的需求</p>
+        {!shared && <p style={{ color: '#666' }}>請先在「空間需求」分頁設定您的需求</p>}
       </div>
     );
   }
@@ -222,23 +358,48 @@ export function LayoutSolutions({ floorPlan }: Props) {
       }}>
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
           <h2 style={{ margin: 0 }}>配置方案</h2>
-          <button
-            onClick={generateSolution}
-            disabled={generating}
-            style={{
-              padding: '0.75rem 1.5rem',
-              background: generating ? '#ccc' : '#667eea',
-              color: 'white',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: generating ? 'not-allowed' : 'pointer',
-              fontWeight: 'bold'
-            }}
-          >
-            {generating ? '生成中...' : '生成新方案'}
-          </button>
+          <div style={{ display: 'flex', gap: '0.75rem' }}>
+            <button
+              onClick={() => (compareMode ? exitCompareMode() : setCompareMode(true))}
+              disabled={solutions.length < 2}
+              style={{
+                padding: '0.75rem 1.5rem',
+                background: compareMode ? '#667eea' : '#f1f3f4',
+                color: compareMode ? 'white' : (solutions.length < 2 ? '#ccc' : '#333'),
+                border: 'none',
+                borderRadius: '4px',
+                cursor: solutions.length < 2 ? 'not-allowed' : 'pointer',
+                fontWeight: 'bold'
+              }}
+            >
+              {compareMode ? '結束比較' : '比較方案'}
+            </button>
+            {!readOnly && (
+              <button
+                onClick={generateSolution}
+                disabled={generating}
+                style={{
+                  padding: '0.75rem 1.5rem',
+                  background: generating ? '#ccc' : '#667eea',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: generating ? 'not-allowed' : 'pointer',
+                  fontWeight: 'bold'
+                }}
+              >
+                {generating ? '生成中...' : '生成新方案'}
+              </button>
+            )}
+          </div>
         </div>
 
+        {compareMode && (
+          <p style={{ margin: '0 0 1rem 0', color: '#666' }}>
+            請勾選 2 至 {MAX_COMPARED} 個方案進行比較（已選擇 {compareIds.length} 個）
+          </p>
+        )}
+
         <div style={{
           background: '#f0f4ff',
           padding: '1rem',
@@ -263,6 +424,17 @@ export function LayoutSolutions({ floorPlan }: Props) {
         </div>
       </div>
 
+      {compareMode && compareIds.length >= 2 && (
+        <SolutionComparison
+          solutions={compareIds
+            .map((id) => solutions.find((s) => s.id === id))
+            .filter((s): s is Solution => !!s)
+            .map((s) => ({ ...s, label: solutionLabel(s.id) }))}
+          requirements={requirements}
+          onClose={exitCompareMode}
+        />
+      )}
+
       {solutions.length === 0 ? (
         <div style={{
           background: 'white',
@@ -272,7 +444,7 @@ export function LayoutSolutions({ floorPlan }: Props) {
         }}>
           <p style={{ fontSize: '3rem', margin: '0 0 1rem 0' }}>🏗️</p>
           <h3>尚未生成配置方案</h3>
-          <p style={{ color: '#666' }}>點擊上方「生成新方案」按鈕開始分析</p>
+          {!readOnly && <p style={{ color: '#666' }}>點擊上方「生成新方案」按鈕開始分析</p>}
         </div>
       ) : (
         <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
@@ -287,17 +459,121 @@ export function LayoutSolutions({ floorPlan }: Props) {
               }}
             >
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
-                <h3 style={{ margin: 0 }}>方案 {solutions.length - index}</h3>
+                <h3 style={{ margin: 0 }}>
+                  {compareMode && (
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(solution.id)}
+                      disabled={!compareIds.includes(solution.id) && compareIds.length >= MAX_COMPARED}
+                      onChange={() => toggleCompare(solution.id)}
+                      style={{ marginRight: '0.5rem', width: '18px', height: '18px' }}
+                    />
+                  )}
+                  方案 {solutions.length - index}
+                </h3>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  {!readOnly && (
+                    <>
+                      <button
+                        onClick={() => navigate(`/projects/${projectId}/solutions/${solution.id}/edit`)}
+                        disabled={!solution.layout_json?.outline}
+                        style={{
+                          padding: '0.5rem 1rem',
+                          background: '#f1f3f4',
+                          border: 'none',
+                          borderRadius: '4px',
+                          cursor: solution.layout_json?.outline ? 'pointer' : 'not-allowed'
+                        }}
+                      >
+                        編輯配置
+                      </button>
+                      <button
+                        onClick={() => regenerateSolution(solution)}
+                        disabled={regeneratingId !== null}
+                        style={{
+                          padding: '0.5rem 1rem',
+                          background: '#f1f3f4',
+                          border: 'none',
+                          borderRadius: '4px',
+                          cursor: regeneratingId !== null ? 'not-allowed' : 'pointer'
+                        }}
+                      >
+                        {regeneratingId === solution.id ? '生成中...' : '重新生成'}
+                      </button>
+                      <button
+                        onClick={() => shareSolution(solution)}
+                        style={{
+                          padding: '0.5rem 1rem',
+                          background: '#f1f3f4',
+                          border: 'none',
+                          borderRadius: '4px',
+                          cursor: 'pointer'
+                        }}
+                      >
+                        分享連結
+                      </button>
+                    </>
+                  )}
+                  {!shared && (
+                    <button
+                      onClick={() => setHistorySolutionId(historySolutionId === solution.id ? null : solution.id)}
+                      style={{
+                        padding: '0.5rem 1rem',
+                        background: historySolutionId === solution.id ? '#667eea' : '#f1f3f4',
+                        color: historySolutionId === solution.id ? 'white' : 'inherit',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      版本歷史
+                    </button>
+                  )}
+                  <div style={{
+                    padding: '0.5rem 1rem',
+                    background: solution.is_feasible ? '#e6f4ea' : '#fef3c7',
+                    color: solution.is_feasible ? '#1e7e34' : '#92400e',
+                    borderRadius: '4px',
+                    fontWeight: 'bold'
+                  }}>
+                    可行性評分：{solution.feasibility_score}/100
+                  </div>
+                </div>
+              </div>
+
+              {historySolutionId === solution.id && (
                 <div style={{
-                  padding: '0.5rem 1rem',
-                  background: solution.is_feasible ? '#e6f4ea' : '#fef3c7',
-                  color: solution.is_feasible ? '#1e7e34' : '#92400e',
-                  borderRadius: '4px',
-                  fontWeight: 'bold'
+                  background: '#f9fafb',
+                  padding: '1rem',
+                  borderRadius: '8px',
+                  marginBottom: '1.5rem'
                 }}>
-                  可行性評分：{solution.feasibility_score}/100
+                  <h4 style={{ margin: '0 0 0.75rem 0' }}>版本歷史</h4>
+                  <LayoutVersionHistory
+                    solutionId={solution.id}
+                    refreshKey={historyRefreshKey}
+                    onRestore={readOnly ? undefined : restoreVersion}
+                  />
                 </div>
-              </div>
+              )}
+
+              {solution.solution_image_url && (
+                <a href={solution.solution_image_url} target="_blank" rel="noreferrer">
+                  <img
+                    src={solution.solution_image_url}
+                    alt={`方案 ${solutions.length - index} 配置圖`}
+                    style={{
+                      width: '100%',
+                      maxHeight: '400px',
+                      objectFit: 'contain',
+                      background: '#fafafa',
+                      border: '1px solid #e0e0e0',
+                      borderRadius: '4px',
+                      marginBottom: '1.5rem'
+                    }}
+                  />
+                </a>
+              )}
 
               <div style={{
                 display: 'grid',
@@ -308,10 +584,10 @@ export function LayoutSolutions({ floorPlan }: Props) {
                 <div>
                   <h4 style={{ margin: '0 0 1rem 0' }}>配置結果</h4>
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                    <div>✓ 工作站：{solution.workstations_placed} 個</div>
-                    <div>✓ 小型會議室：{solution.meeting_rooms_placed.small} 間</div>
-                    <div>✓ 中型會議室：{solution.meeting_rooms_placed.medium} 間</div>
-                    <div>✓ 大型會議室：{solution.meeting_rooms_placed.large} 間</div>
+                    <div>{solution.constraints_met.workstations ? '✓' : '⚠️'} 工作站：{solution.workstations_placed} 個</div>
+                    <div>{solution.constraints_met.meeting_rooms ? '✓' : '⚠️'} 小型會議室：{solution.meeting_rooms_placed.small} 間</div>
+                    <div>{solution.constraints_met.meeting_rooms ? '✓' : '⚠️'} 中型會議室：{solution.meeting_rooms_placed.medium} 間</div>
+                    <div>{solution.constraints_met.meeting_rooms ? '✓' : '⚠️'} 大型會議室：{solution.meeting_rooms_placed.large} 間</div>
                   </div>
                 </div>
 
@@ -325,6 +601,40 @@ export function LayoutSolutions({ floorPlan }: Props) {
                   </div>
                 </div>
 
+                {requirements.custom_rooms.length > 0 && (
+                  <div>
+                    <h4 style={{ margin: '0 0 1rem 0' }}>自訂空間</h4>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                      {requirements.custom_rooms.map((custom) => {
+                        const placed = solution.custom_rooms_placed?.[custom.id] ?? 0;
+                        return (
+                          <div key={custom.id}>
+                            {placed >= custom.count ? '✓' : '⚠️'} {custom.name}：{placed} / {custom.count} 間
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {(requirements.adjacency_rules.length > 0 || Object.keys(requirements.zones).length > 0 ||
+                  requirements.custom_rooms.some((custom) => custom.adjacent_to.length > 0)) && (
+                  <div>
+                    <h4 style={{ margin: '0 0 1rem 0' }}>相鄰與分區</h4>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                      {(solution.adjacency_violations ?? []).length === 0 ? (
+                        <div>✓ 所有條件皆已滿足</div>
+                      ) : (
+                        solution.adjacency_violations.map((violation) => (
+                          <div key={`${violation.rule}-${violation.a}-${violation.b}`}>
+                            ⚠️ {describeViolation(violation, requirements.custom_rooms)}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <h4 style={{ margin: '0 0 1rem 0' }}>空間指標</h4>
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
@@ -347,25 +657,74 @@ export function LayoutSolutions({ floorPlan }: Props) {
                         </div>
                       </div>
                     </div>
+                    {solution.daylight_score != null && (
+                      <div>
+                        <strong>採光評分：</strong>{solution.daylight_score}/100
+                        <div style={{ fontSize: '0.85rem', color: '#666' }}>
+                          工位在窗邊採光範圍內的比例{floorPlan.north_angle == null && '（未設定方位，不計窗戶朝向）'}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
+
+                {solution.cost_estimate && (
+                  <div>
+                    <h4 style={{ margin: '0 0 1rem 0' }}>成本估算</h4>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                      <div>
+                        <strong>初期投入：</strong>{formatCurrency(solution.cost_estimate.capex)}
+                        <div style={{ fontSize: '0.85rem', color: '#666' }}>
+                          裝修 {formatCurrency(solution.cost_estimate.fit_out)}、家具 {formatCurrency(solution.cost_estimate.furniture)}、
+                          預備金 {formatCurrency(solution.cost_estimate.contingency)}
+                        </div>
+                      </div>
+                      <div>
+                        <strong>年租金：</strong>
+                        {solution.cost_estimate.annual_rent !== null ? formatCurrency(solution.cost_estimate.annual_rent) : '未設定租金'}
+                      </div>
+                      <div>
+                        <strong>每席年成本：</strong>
+                        {solution.cost_estimate.annual_cost_per_seat !== null ? formatCurrency(solution.cost_estimate.annual_cost_per_seat) : '-'}
+                        <div style={{ fontSize: '0.85rem', color: '#666' }}>
+                          年租金加上初期投入分 {solution.cost_estimate.amortization_years} 年攤提
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {solution.feasibility_breakdown && (
+                <div style={{ marginBottom: '1.5rem' }}>
+                  <h4 style={{ margin: '0 0 1rem 0' }}>評分明細</h4>
+                  <FeasibilityBreakdown factors={solution.feasibility_breakdown} />
+                </div>
+              )}
+
               <div style={{
                 background: '#f9fafb',
                 padding: '1rem',
                 borderRadius: '8px',
                 borderLeft: '4px solid #667eea'
               }}>
-                <h4 style={{ margin: '0 0 0.5rem 0' }}>AI 建議</h4>
-                <pre style={{
-                  margin: 0,
-                  whiteSpace: 'pre-wrap',
-                  fontFamily: 'inherit',
-                  color: '#666'
-                }}>
-                  {solution.suggestions}
-                </pre>
+                <h4 style={{ margin: '0 0 0.75rem 0' }}>配置建議</h4>
+                {suggestionsById.get(solution.id) ? (
+                  <SuggestionList
+                    suggestions={suggestionsById.get(solution.id)!}
+                    onApplyFix={readOnly ? undefined : applyFix}
+                    disabled={generating}
+                  />
+                ) : (
+                  <pre style={{
+                    margin: 0,
+                    whiteSpace: 'pre-wrap',
+                    fontFamily: 'inherit',
+                    color: '#666'
+                  }}>
+                    {solution.suggestions}
+                  </pre>
+                )}
               </div>
 
               <div style={{ marginTop: '1rem', fontSize: '0.875rem', color: '#999', textAlign: 'right' }}>
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import type { LayoutVersion } from '../utils/layoutVersions';
+import { diffSnapshots, loadLayoutVersions } from '../utils/layoutVersions';
+
+interface Props {
+  solutionId: string;
+  refreshKey: number;
+  // Left out for viewers, who can browse versions but not restore them.
+  onRestore?: (version: LayoutVersion) => Promise<void>;
+}
+
+export function LayoutVersionHistory({ solutionId, refreshKey, onRestore }: Props) {
+  const [versions, setVersions] = useState<LayoutVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadVersions();
+  }, [solutionId, refreshKey]);
+
+  const loadVersions = async () => {
+    try {
+      setVersions(await loadLayoutVersions(solutionId));
+    } catch (error) {
+      console.error('Error loading layout versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (version: LayoutVersion) => {
+    if (!onRestore || !confirm(`確定要還原至版本 ${version.version_number}？`)) return;
+
+    setRestoringId(version.id);
+    try {
+      await onRestore(version);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '1rem', color: '#666' }}>載入版本紀錄中...</div>;
+  }
+
+  if (versions.length === 0) {
+    return <div style={{ padding: '1rem', color: '#666' }}>尚無版本紀錄</div>;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {versions.map((version, index) => {
+        const previous = versions[index + 1];
+        const changes = previous ? diffSnapshots(previous.snapshot, version.snapshot) : [];
+
+        return (
+          <div
+            key={version.id}
+            style={{
+              border: '1px solid #e0e0e0',
+              borderRadius: '4px',
+              padding: '0.75rem 1rem'
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <div>
+                <strong>版本 {version.version_number}</strong>
+                {index === 0 && (
+                  <span style={{
+                    marginLeft: '0.5rem',
+                    padding: '0.125rem 0.5rem',
+                    background: '#e6f4ea',
+                    color: '#1e7e34',
+                    borderRadius: '4px',
+                    fontSize: '0.75rem'
+                  }}>
+                    目前版本
+                  </span>
+                )}
+                <span style={{ marginLeft: '0.75rem', color: '#999', fontSize: '0.875rem' }}>
+                  {new Date(version.created_at).toLocaleString('zh-TW')}
+                </span>
+              </div>
+              {index > 0 && onRestore && (
+                <button
+                  onClick={() => handleRestore(version)}
+                  disabled={restoringId !== null}
+                  style={{
+                    padding: '0.25rem 0.75rem',
+                    background: '#f1f3f4',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: restoringId !== null ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  {restoringId === version.id ? '還原中...' : '還原'}
+                </button>
+              )}
+            </div>
+
+            {version.changes_description && (
+              <p style={{ margin: '0.5rem 0 0 0', color: '#666' }}>{version.changes_description}</p>
+            )}
+
+            {changes.length > 0 && (
+              <ul style={{ margin: '0.5rem 0 0 0', paddingLeft: '1.25rem', fontSize: '0.875rem' }}>
+                {changes.map((change) => (
+                  <li key={change.label} style={{ color: change.after > change.before ? '#1e7e34' : '#c5221f' }}>
+                    {change.label}：{change.before} → {change.after}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
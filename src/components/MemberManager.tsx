@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { Invitation, Member, MemberRole, ShareTarget } from '../utils/workspaces';
+import {
+  ASSIGNABLE_ROLES,
+  ROLE_LABELS,
+  cancelInvitation,
+  inviteByEmail,
+  loadInvitations,
+  loadMembers,
+  removeMember,
+  updateMemberRole
+} from '../utils/workspaces';
+
+interface Props {
+  target: ShareTarget;
+  // Owners can invite people and change roles; everyone else only sees the
+  // list and can leave.
+  canManage: boolean;
+  onLeft?: () => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function MemberManager({ target, canManage, onLeft }: Props) {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('editor');
+  const [loading, setLoading] = useState(true);
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    loadAccess();
+  }, [target.kind, target.id]);
+
+  const loadAccess = async () => {
+    try {
+      setMembers(await loadMembers(target));
+      setInvitations(canManage ? await loadInvitations(target) : []);
+    } catch (error) {
+      console.error('Error loading members:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!user || !EMAIL_PATTERN.test(email.trim())) {
+      alert('請輸入有效的電子郵件');
+      return;
+    }
+    if (members.some((member) => member.email.toLowerCase() === email.trim().toLowerCase())) {
+      alert('此成員已在名單中');
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const invitation = await inviteByEmail(target, email, role, user.id);
+      setInvitations([...invitations, invitation]);
+      setEmail('');
+      alert('邀請已建立！對方以此電子郵件登入後即可存取。');
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      alert('邀請失敗，請稍後再試');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: Member, nextRole: MemberRole) => {
+    try {
+      await updateMemberRole(target, member.id, nextRole);
+      setMembers(members.map((m) => (m.id === member.id ? { ...m, role: nextRole } : m)));
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      alert('更新角色失敗，請稍後再試');
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    const leaving = member.user_id === user?.id;
+    if (!confirm(leaving ? '確定要退出嗎？退出後將無法再存取。' : `確定要移除 ${member.email} 嗎？`)) return;
+
+    try {
+      await removeMember(target, member.id);
+      setMembers(members.filter((m) => m.id !== member.id));
+      if (leaving) onLeft?.();
+    } catch (error) {
+      console.error('Error removing member:', error);
+      alert('移除失敗，請稍後再試');
+    }
+  };
+
+  const handleCancelInvitation = async (invitation: Invitation) => {
+    try {
+      await cancelInvitation(invitation.id);
+      setInvitations(invitations.filter((i) => i.id !== invitation.id));
+    } catch (error) {
+      console.error('Error cancelling invitation:', error);
+      alert('取消邀請失敗，請稍後再試');
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '1rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  const roles = ASSIGNABLE_ROLES[target.kind];
+  const owners = members.filter((member) => member.role === 'owner').length;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      {members.length === 0 && (
+        <div style={{ color: '#666' }}>
+          {target.kind === 'project' ? '尚未個別共享給其他人。' : '尚無成員。'}
+        </div>
+      )}
+
+      {members.map((member) => {
+        // A workspace keeps at least one owner.
+        const lastOwner = member.role === 'owner' && owners <= 1;
+        return (
+          <div key={member.id} style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+            <div style={{ flex: 1 }}>
+              <div>{member.full_name || member.email}{member.user_id === user?.id && '（您）'}</div>
+              {member.full_name && <div style={{ fontSize: '0.85rem', color: '#666' }}>{member.email}</div>}
+            </div>
+            {canManage && !lastOwner ? (
+              <select
+                value={member.role}
+                onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                style={{ padding: '0.25rem', border: '1px solid #ddd', borderRadius: '4px' }}
+              >
+                {roles.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+            ) : (
+              <span style={{ color: '#666' }}>{ROLE_LABELS[member.role]}</span>
+            )}
+            {(canManage || member.user_id === user?.id) && !lastOwner && (
+              <button
+                onClick={() => handleRemove(member)}
+                style={{
+                  padding: '0.25rem 0.75rem',
+                  background: 'white',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              >
+                {member.user_id === user?.id ? '退出' : '移除'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {invitations.length > 0 && (
+        <div>
+          <h4 style={{ margin: '0.5rem 0' }}>待接受的邀請</h4>
+          {invitations.map((invitation) => (
+            <div key={invitation.id} style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '0.5rem' }}>
+              <div style={{ flex: 1, color: '#666' }}>{invitation.email}</div>
+              <span style={{ color: '#666' }}>{ROLE_LABELS[invitation.role]}</span>
+              <button
+                onClick={() => handleCancelInvitation(invitation)}
+                style={{
+                  padding: '0.25rem 0.75rem',
+                  background: 'white',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              >
+                取消
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="以電子郵件邀請"
+            style={{ flex: 1, padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as MemberRole)}
+            style={{ padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+          >
+            {roles.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+          <button
+            onClick={handleInvite}
+            disabled={inviting || !email.trim()}
+            style={{
+              padding: '0.5rem 1rem',
+              background: inviting || !email.trim() ? '#ccc' : '#667eea',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: inviting || !email.trim() ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {inviting ? '邀請中...' : '邀請'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { LOCATION_LABELS } from '../utils/layoutEngine';
+import type { ParsedRoom } from '../utils/notesParser';
+import { SIZE_AREAS, getNotesParser } from '../utils/notesParser';
+
+interface Props {
+  notes: string;
+  onApply: (rooms: ParsedRoom[]) => void;
+}
+
+// Parses the notes on request and lets the user tick which of the extracted
+// rooms should be added to the requirements.
+export function ParsedNotesReview({ notes, onApply }: Props) {
+  const [parsed, setParsed] = useState<ParsedRoom[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [parsing, setParsing] = useState(false);
+
+  const handleParse = async () => {
+    setParsing(true);
+    try {
+      const rooms = await getNotesParser().parse(notes);
+      setParsed(rooms);
+      setSelected(new Set(rooms.map((_, index) => index)));
+    } catch (error) {
+      console.error('Error parsing notes:', error);
+      alert('解析失敗，請稍後再試');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setSelected(next);
+  };
+
+  const handleApply = () => {
+    if (!parsed) return;
+    onApply(parsed.filter((_, index) => selected.has(index)));
+    setParsed(null);
+  };
+
+  const describe = (room: ParsedRoom) => {
+    const parts: string[] = [];
+    if (room.location) parts.push(LOCATION_LABELS[room.location]);
+    if (room.area) parts.push(`每間 ${room.area} m²`);
+    else if (room.size) parts.push(`尺寸 ${room.size}（約 ${SIZE_AREAS[room.size]} m²）`);
+    if (room.link.length > 0) parts.push(`鄰近 ${room.link.join('、')}`);
+    return parts.join('・');
+  };
+
+  return (
+    <div style={{ marginTop: '0.75rem' }}>
+      <button
+        onClick={handleParse}
+        disabled={parsing || !notes.trim()}
+        style={{
+          padding: '0.5rem 1rem',
+          background: parsing || !notes.trim() ? '#ccc' : '#f1f3f4',
+          border: '1px solid #ddd',
+          borderRadius: '4px',
+          cursor: parsing || !notes.trim() ? 'not-allowed' : 'pointer'
+        }}
+      >
+        {parsing ? '解析中...' : '從備註解析空間需求'}
+      </button>
+
+      {parsed && (
+        <div style={{
+          marginTop: '1rem',
+          padding: '1rem',
+          background: '#f8f9fa',
+          borderRadius: '8px',
+          border: '1px solid #e0e0e0'
+        }}>
+          {parsed.length === 0 ? (
+            <p style={{ margin: 0, color: '#666' }}>備註中沒有找到空間需求</p>
+          ) : (
+            <>
+              <p style={{ marginTop: 0, color: '#666', fontSize: '0.9rem' }}>
+                請確認要加入需求的項目：
+              </p>
+              {parsed.map((room, index) => (
+                <label
+                  key={index}
+                  style={{ display: 'flex', alignItems: 'flex-start', gap: '0.5rem', marginBottom: '0.75rem', cursor: 'pointer' }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggle(index)}
+                    style={{ width: '18px', height: '18px', marginTop: '2px' }}
+                  />
+                  <div>
+                    <div style={{ fontWeight: 'bold' }}>
+                      {room.name} × {room.count}
+                      {!room.type && <span style={{ marginLeft: '0.5rem', fontSize: '0.8rem', color: '#667eea' }}>自訂空間</span>}
+                    </div>
+                    {describe(room) && <div style={{ fontSize: '0.85rem', color: '#333' }}>{describe(room)}</div>}
+                    <div style={{ fontSize: '0.8rem', color: '#999' }}>「{room.source}」</div>
+                  </div>
+                </label>
+              ))}
+            </>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            {parsed.length > 0 && (
+              <button
+                onClick={handleApply}
+                disabled={selected.size === 0}
+                style={{
+                  padding: '0.5rem 1rem',
+                  background: selected.size === 0 ? '#ccc' : '#667eea',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: selected.size === 0 ? 'not-allowed' : 'pointer'
+                }}
+              >
+                加入需求
+              </button>
+            )}
+            <button
+              onClick={() => setParsed(null)}
+              style={{
+                padding: '0.5rem 1rem',
+                background: '#f1f3f4',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
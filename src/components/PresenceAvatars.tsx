@@ -0,0 +1,48 @@
+import type { PresenceUser } from '../utils/realtime';
+import type { Collaborator } from '../utils/workspaces';
+import { collaboratorName } from '../utils/workspaces';
+
+interface Props {
+  users: PresenceUser[];
+  collaborators: Collaborator[];
+}
+
+const AVATAR_COLORS = ['#667eea', '#1e7e34', '#c5221f', '#92400e', '#0e7490', '#7c3aed'];
+
+const colorOf = (userId: string) =>
+  AVATAR_COLORS[[...userId].reduce((sum, char) => sum + char.charCodeAt(0), 0) % AVATAR_COLORS.length];
+
+export function PresenceAvatars({ users, collaborators }: Props) {
+  if (users.length === 0) return null;
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center' }}>
+      {users.map((presence, index) => {
+        const collaborator = collaborators.find((c) => c.user_id === presence.user_id);
+        const name = collaborator ? collaboratorName(collaborator) : '成員';
+        return (
+          <div
+            key={presence.user_id}
+            title={presence.editing_requirements ? `${name}（正在編輯空間需求）` : `${name}（正在檢視）`}
+            style={{
+              width: '32px',
+              height: '32px',
+              borderRadius: '50%',
+              background: colorOf(presence.user_id),
+              color: 'white',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontWeight: 'bold',
+              fontSize: '0.85rem',
+              border: `2px solid ${presence.editing_requirements ? '#f59e0b' : 'white'}`,
+              marginLeft: index === 0 ? 0 : '-8px'
+            }}
+          >
+            {[...name][0].toUpperCase()}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
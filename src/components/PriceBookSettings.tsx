@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import type { FitOutCategory, PriceBook } from '../utils/costEstimator';
+import { DEFAULT_PRICE_BOOK, FIT_OUT_LABELS, loadPriceBook, savePriceBook } from '../utils/costEstimator';
+
+interface Props {
+  projectId: string;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '1rem'
+};
+
+export function PriceBookSettings({ projectId }: Props) {
+  const [prices, setPrices] = useState<PriceBook>(DEFAULT_PRICE_BOOK);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPriceBook(projectId)
+      .then(setPrices)
+      .catch((error) => console.error('Error loading price book:', error))
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  const update = (changes: Partial<PriceBook>) => setPrices({ ...prices, ...changes });
+
+  const updateFitOut = (category: FitOutCategory, value: string) => {
+    update({ fit_out_per_sqm: { ...prices.fit_out_per_sqm, [category]: parseFloat(value) || 0 } });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await savePriceBook(projectId, prices);
+      alert('成本單價已儲存！新的單價會在生成或編輯方案時套用。');
+    } catch (error) {
+      console.error('Error saving price book:', error);
+      alert('儲存失敗，請稍後再試');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '8px'
+    }}>
+      <h2 style={{ marginTop: 0 }}>成本單價</h2>
+      <p style={{ color: '#666', marginTop: 0 }}>
+        配置方案的成本估算會使用這裡的單價（新台幣），租金與租期則取自平面圖的樓層資訊。
+      </p>
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))',
+        gap: '1.5rem',
+        marginBottom: '2rem'
+      }}>
+        <div>
+          <h3>家具與其他</h3>
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>每個工位家具 (元)</label>
+            <input
+              type="number"
+              step="1000"
+              min="0"
+              value={prices.furniture_per_workstation}
+              onChange={(e) => update({ furniture_per_workstation: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <small style={{ color: '#666' }}>桌椅、收納與電源</small>
+          </div>
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>預備金 (%)</label>
+            <input
+              type="number"
+              step="1"
+              min="0"
+              value={Math.round(prices.contingency_rate * 100)}
+              onChange={(e) => update({ contingency_rate: (parseFloat(e.target.value) || 0) / 100 })}
+              style={inputStyle}
+            />
+            <small style={{ color: '#666' }}>以裝修與家具費用的比例計算</small>
+          </div>
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>攤提年數</label>
+            <input
+              type="number"
+              step="1"
+              min="1"
+              value={prices.amortization_years}
+              onChange={(e) => update({ amortization_years: Math.max(1, parseFloat(e.target.value) || 1) })}
+              style={inputStyle}
+            />
+            <small style={{ color: '#666' }}>平面圖未設定租期時，初期投入以此年數攤提</small>
+          </div>
+        </div>
+
+        <div>
+          <h3>裝修單價 (元/m²)</h3>
+          {(Object.keys(FIT_OUT_LABELS) as FitOutCategory[]).map((category) => (
+            <div key={category} style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '0.75rem' }}>
+              <label style={{ flex: 1 }}>{FIT_OUT_LABELS[category]}</label>
+              <input
+                type="number"
+                step="500"
+                min="0"
+                value={prices.fit_out_per_sqm[category]}
+                onChange={(e) => updateFitOut(category, e.target.value)}
+                style={{ ...inputStyle, width: '140px' }}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        style={{
+          width: '100%',
+          padding: '1rem',
+          background: saving ? '#ccc' : '#667eea',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: saving ? 'not-allowed' : 'pointer',
+          fontSize: '1.1rem',
+          fontWeight: 'bold'
+        }}
+      >
+        {saving ? '儲存中...' : '儲存成本單價'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { TeamEditor } from './TeamEditor';
+import type { DerivedRequirements, HeadcountProfile } from '../utils/headcountPlanner';
+import {
+  DEFAULT_HEADCOUNT_PROFILE,
+  PLANNING_RATIOS,
+  WORK_STYLE_LABELS,
+  WORK_STYLE_WEIGHTS,
+  deriveRequirements,
+  projectedHeadcount,
+  totalHeadcount
+} from '../utils/headcountPlanner';
+
+interface Props {
+  profile: HeadcountProfile | null;
+  onApply: (derived: DerivedRequirements, profile: HeadcountProfile) => void;
+  onCancel: () => void;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '1rem'
+};
+
+export function RequirementWizard({ profile: initial, onApply, onCancel }: Props) {
+  const [profile, setProfile] = useState<HeadcountProfile>(initial ?? DEFAULT_HEADCOUNT_PROFILE);
+
+  const headcount = totalHeadcount(profile);
+  const planned = projectedHeadcount(headcount, profile.growth_rate, profile.planning_years);
+  const attending = Math.ceil(planned * profile.attendance_ratio - 1e-9);
+  const derived = deriveRequirements(profile);
+
+  const update = (changes: Partial<HeadcountProfile>) => setProfile({ ...profile, ...changes });
+
+  const preview: [string, string][] = [
+    ['工作站', `${derived.workstations} 個`],
+    ['小型會議室', `${derived.meeting_rooms_small} 間`],
+    ['中型會議室', `${derived.meeting_rooms_medium} 間`],
+    ['大型會議室', `${derived.meeting_rooms_large} 間`],
+    ['電話亭', `${derived.phone_booths} 間`],
+    ['休息區', `${derived.breakout_areas} 個`],
+    ['儲藏室', `${derived.storage_rooms} 間`],
+    ['茶水間', derived.kitchen_pantry ? '需要' : '不需要'],
+    ['接待區', derived.reception_area ? '需要' : '不需要']
+  ];
+
+  return (
+    <div style={{
+      border: '2px solid #667eea',
+      borderRadius: '8px',
+      padding: '1.5rem',
+      marginBottom: '2rem'
+    }}>
+      <h3 style={{ marginTop: 0 }}>依人數推算需求</h3>
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+        gap: '1rem',
+        marginBottom: '1.5rem'
+      }}>
+        <label>
+          <div style={{ marginBottom: '0.25rem' }}>目前人數</div>
+          <input
+            type="number"
+            min="0"
+            value={headcount}
+            disabled={profile.teams.length > 0}
+            onChange={(e) => update({ headcount: parseInt(e.target.value) || 0 })}
+            style={inputStyle}
+          />
+          {profile.teams.length > 0 && <small style={{ color: '#666' }}>由團隊人數加總</small>}
+        </label>
+        <label>
+          <div style={{ marginBottom: '0.25rem' }}>年成長率 (%)</div>
+          <input
+            type="number"
+            step="5"
+            value={profile.growth_rate}
+            onChange={(e) => update({ growth_rate: parseFloat(e.target.value) || 0 })}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          <div style={{ marginBottom: '0.25rem' }}>規劃年數</div>
+          <input
+            type="number"
+            min="0"
+            value={profile.planning_years}
+            onChange={(e) => update({ planning_years: parseInt(e.target.value) || 0 })}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          <div style={{ marginBottom: '0.25rem' }}>尖峰到班率 (%)</div>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="5"
+            value={Math.round(profile.attendance_ratio * 100)}
+            onChange={(e) => update({ attendance_ratio: Math.min(100, parseFloat(e.target.value) || 0) / 100 })}
+            style={inputStyle}
+          />
+          <small style={{ color: '#666' }}>混合辦公時最忙的一天</small>
+        </label>
+        <label>
+          <div style={{ marginBottom: '0.25rem' }}>共享座位比</div>
+          <input
+            type="number"
+            min="0"
+            max="1"
+            step="0.05"
+            value={profile.desk_sharing_ratio}
+            onChange={(e) => update({ desk_sharing_ratio: Math.min(1, parseFloat(e.target.value) || 0) })}
+            style={inputStyle}
+          />
+          <small style={{ color: '#666' }}>每位到班者的座位數，1 表示一人一位</small>
+        </label>
+      </div>
+
+      <h4 style={{ margin: '0 0 0.5rem 0' }}>團隊組成（選填）</h4>
+      <div style={{ marginBottom: '1.5rem' }}>
+        <TeamEditor teams={profile.teams} onChange={(teams) => update({ teams })} />
+      </div>
+
+      <div style={{ background: '#f8f9fa', padding: '1rem', borderRadius: '8px', marginBottom: '1rem' }}>
+        <p style={{ marginTop: 0 }}>
+          規劃人數 <strong>{planned}</strong> 人，尖峰到班 <strong>{attending}</strong> 人
+        </p>
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+          gap: '0.5rem'
+        }}>
+          {preview.map(([label, value]) => (
+            <div key={label}>{label}：{value}</div>
+          ))}
+        </div>
+        <p style={{ margin: '0.75rem 0 0 0', fontSize: '0.85rem', color: '#666' }}>
+          * 依到班人數計算：每 {PLANNING_RATIOS.peoplePerSmallMeetingRoom} 人一間小型會議室、
+          每 {PLANNING_RATIOS.peoplePerMediumMeetingRoom} 人一間中型、每 {PLANNING_RATIOS.peoplePerLargeMeetingRoom} 人一間大型
+          （{PLANNING_RATIOS.minPeopleForLargeMeetingRoom} 人以上才設置），每 {PLANNING_RATIOS.peoplePerPhoneBooth} 人一間電話亭；
+          {WORK_STYLE_LABELS.collaborative}團隊會議室需求 ×{WORK_STYLE_WEIGHTS.collaborative.meeting}、
+          {WORK_STYLE_LABELS.focus} ×{WORK_STYLE_WEIGHTS.focus.meeting}，{WORK_STYLE_LABELS.calls}團隊電話亭需求 ×{WORK_STYLE_WEIGHTS.calls.calls}
+        </p>
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button
+          onClick={() => onApply(derived, profile)}
+          style={{
+            padding: '0.75rem 1.5rem',
+            background: '#667eea',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          套用到需求
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            padding: '0.75rem 1.5rem',
+            background: '#f1f3f4',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          取消
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { ShareLink } from '../utils/shareLinks';
+import {
+  DEFAULT_SHARE_LINK_DAYS,
+  SHARE_LINK_DURATIONS,
+  copyShareLink,
+  createShareLink,
+  isShareLinkActive,
+  loadShareLinks,
+  revokeShareLink
+} from '../utils/shareLinks';
+
+interface Props {
+  projectId: string;
+}
+
+export function ShareLinkManager({ projectId }: Props) {
+  const { user } = useAuth();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [days, setDays] = useState(DEFAULT_SHARE_LINK_DAYS);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    loadLinks();
+  }, [projectId]);
+
+  const loadLinks = async () => {
+    try {
+      setLinks(await loadShareLinks(projectId));
+    } catch (error) {
+      console.error('Error loading share links:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    setCreating(true);
+    try {
+      const link = await createShareLink(projectId, null, '整個專案', days, user.id);
+      setLinks([link, ...links]);
+      if (await copyShareLink(link.token)) {
+        alert(`分享連結已複製，${days} 天內有效。`);
+      }
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert('建立分享連結失敗，請稍後再試');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    if (await copyShareLink(link.token)) {
+      alert('分享連結已複製');
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('確定要撤銷此連結嗎？持有連結的人將無法再開啟。')) return;
+
+    try {
+      const revokedAt = await revokeShareLink(link.id);
+      setLinks(links.map((l) => (l.id === link.id ? { ...l, revoked_at: revokedAt } : l)));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      alert('撤銷失敗，請稍後再試');
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '1rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      {links.length === 0 && <div style={{ color: '#666' }}>尚未建立分享連結。</div>}
+
+      {links.map((link) => {
+        const active = isShareLinkActive(link);
+        return (
+          <div key={link.id} style={{ display: 'flex', alignItems: 'center', gap: '1rem', opacity: active ? 1 : 0.6 }}>
+            <div style={{ flex: 1 }}>
+              <div>{link.label || '整個專案'}</div>
+              <div style={{ fontSize: '0.85rem', color: '#666' }}>
+                {link.revoked_at
+                  ? `已於 ${new Date(link.revoked_at).toLocaleDateString('zh-TW')} 撤銷`
+                  : active
+                    ? `有效至 ${new Date(link.expires_at).toLocaleDateString('zh-TW')}`
+                    : `已於 ${new Date(link.expires_at).toLocaleDateString('zh-TW')} 過期`}
+              </div>
+            </div>
+            {active && (
+              <>
+                <button
+                  onClick={() => handleCopy(link)}
+                  style={{
+                    padding: '0.25rem 0.75rem',
+                    background: 'white',
+                    border: '1px solid #ddd',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  複製連結
+                </button>
+                <button
+                  onClick={() => handleRevoke(link)}
+                  style={{
+                    padding: '0.25rem 0.75rem',
+                    background: 'white',
+                    border: '1px solid #ddd',
+                    color: '#c5221f',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  撤銷
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+        <span style={{ color: '#666' }}>有效期限</span>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          style={{ padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+        >
+          {SHARE_LINK_DURATIONS.map((d) => <option key={d} value={d}>{d} 天</option>)}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={creating}
+          style={{
+            padding: '0.5rem 1rem',
+            background: creating ? '#ccc' : '#667eea',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: creating ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {creating ? '建立中...' : '建立專案分享連結'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import type { LayoutRequirements } from '../utils/layoutEngine';
+import type { SolutionSnapshot } from '../utils/layoutVersions';
+
+interface ComparedSolution extends SolutionSnapshot {
+  id: string;
+  label: string;
+}
+
+interface Props {
+  solutions: ComparedSolution[];
+  requirements: LayoutRequirements;
+  onClose: () => void;
+}
+
+interface ComparisonRow {
+  label: string;
+  requested?: string;
+  value: (solution: SolutionSnapshot) => number | boolean;
+  format?: (value: number) => string;
+}
+
+const check = (value: boolean) => (value ? '✓' : '✗');
+
+export function SolutionComparison({ solutions, requirements, onClose }: Props) {
+  const rows: ComparisonRow[] = [
+    { label: '可行性評分', value: (s) => s.feasibility_score, format: (v) => `${v}/100` },
+    { label: '空間利用率', value: (s) => s.utilization_rate, format: (v) => `${Math.round(v)}%` },
+    { label: '採光評分', value: (s) => s.daylight_score ?? 0, format: (v) => `${v}/100` },
+    { label: '工作站', requested: `${requirements.workstations}`, value: (s) => s.workstations_placed },
+    { label: '小型會議室', requested: `${requirements.meeting_rooms_small}`, value: (s) => s.meeting_rooms_placed.small },
+    { label: '中型會議室', requested: `${requirements.meeting_rooms_medium}`, value: (s) => s.meeting_rooms_placed.medium },
+    { label: '大型會議室', requested: `${requirements.meeting_rooms_large}`, value: (s) => s.meeting_rooms_placed.large },
+    { label: '電話亭', requested: `${requirements.phone_booths}`, value: (s) => s.amenities_placed.phone_booths },
+    { label: '休息區', requested: `${requirements.breakout_areas}`, value: (s) => s.amenities_placed.breakout_areas },
+    { label: '儲藏室', requested: `${requirements.storage_rooms}`, value: (s) => s.amenities_placed.storage },
+    { label: '茶水間', requested: check(requirements.kitchen_pantry), value: (s) => s.amenities_placed.kitchen },
+    { label: '接待區', requested: check(requirements.reception_area), value: (s) => s.amenities_placed.reception },
+    { label: '機房', requested: check(requirements.server_room), value: (s) => s.amenities_placed.server_room },
+    ...(requirements.custom_rooms ?? []).map((custom): ComparisonRow => ({
+      label: custom.name,
+      requested: `${custom.count}`,
+      value: (s) => s.custom_rooms_placed?.[custom.id] ?? 0
+    })),
+    { label: '工作站需求達成', value: (s) => s.constraints_met.workstations },
+    { label: '會議室需求達成', value: (s) => s.constraints_met.meeting_rooms },
+    { label: '設施需求達成', value: (s) => s.constraints_met.amenities },
+    ...(requirements.custom_rooms?.length
+      ? [{ label: '自訂空間需求達成', value: (s: SolutionSnapshot) => s.constraints_met.custom_rooms ?? false }]
+      : []),
+    { label: '相鄰條件達成', value: (s) => s.constraints_met.adjacency ?? true },
+    { label: '分區條件達成', value: (s) => s.constraints_met.zoning ?? true }
+  ];
+
+  const bestValue = (row: ComparisonRow): number | null => {
+    const values = solutions.map((s) => Number(row.value(s)));
+    const best = Math.max(...values);
+    return values.every((v) => v === best) ? null : best;
+  };
+
+  const cellStyle = {
+    padding: '0.75rem',
+    borderBottom: '1px solid #e0e0e0',
+    textAlign: 'center' as const
+  };
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '8px',
+      marginBottom: '2rem'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
+        <h2 style={{ margin: 0 }}>方案比較</h2>
+        <button
+          onClick={onClose}
+          style={{
+            padding: '0.5rem 1rem',
+            background: '#f1f3f4',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          關閉比較
+        </button>
+      </div>
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: `repeat(${solutions.length}, 1fr)`,
+        gap: '1rem',
+        marginBottom: '1.5rem'
+      }}>
+        {solutions.map((solution) => (
+          <div key={solution.id}>
+            <h4 style={{ margin: '0 0 0.5rem 0', textAlign: 'center' }}>{solution.label}</h4>
+            {solution.solution_image_url ? (
+              <img
+                src={solution.solution_image_url}
+                alt={`${solution.label} 配置圖`}
+                style={{
+                  width: '100%',
+                  height: '240px',
+                  objectFit: 'contain',
+                  background: '#fafafa',
+                  border: '1px solid #e0e0e0',
+                  borderRadius: '4px'
+                }}
+              />
+            ) : (
+              <div style={{
+                height: '240px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                background: '#fafafa',
+                border: '1px solid #e0e0e0',
+                borderRadius: '4px',
+                color: '#999'
+              }}>
+                無配置圖
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ background: '#f0f4ff' }}>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>項目</th>
+              <th style={cellStyle}>需求</th>
+              {solutions.map((solution) => (
+                <th key={solution.id} style={cellStyle}>{solution.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const best = bestValue(row);
+              return (
+                <tr key={row.label}>
+                  <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 'bold' }}>{row.label}</td>
+                  <td style={{ ...cellStyle, color: '#666' }}>{row.requested ?? '—'}</td>
+                  {solutions.map((solution) => {
+                    const value = row.value(solution);
+                    const isBest = best !== null && Number(value) === best;
+                    return (
+                      <td
+                        key={solution.id}
+                        style={{
+                          ...cellStyle,
+                          background: isBest ? '#e6f4ea' : 'transparent',
+                          color: isBest ? '#1e7e34' : 'inherit',
+                          fontWeight: isBest ? 'bold' : 'normal'
+                        }}
+                      >
+                        {typeof value === 'boolean' ? check(value) : row.format ? row.format(value) : value}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,19 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { AdjacencyMatrix } from './AdjacencyMatrix';
+import { CustomRoomRequirements } from './CustomRoomRequirements';
+import { ParsedNotesReview } from './ParsedNotesReview';
+import { RequirementWizard } from './RequirementWizard';
+import { WORKSTATIONS_KEY } from '../utils/adjacency';
+import type { AdjacencyRule, CustomRoomRequirement, RoomType, Zone } from '../utils/layoutEngine';
+import { ROOM_LABELS } from '../utils/layoutEngine';
+import type { HeadcountProfile } from '../utils/headcountPlanner';
+import type { ParsedRoom } from '../utils/notesParser';
+import { SIZE_AREAS } from '../utils/notesParser';
+import type { SpaceStandards } from '../utils/spaceStandards';
+import { DEFAULT_SPACE_STANDARDS, estimateProgramArea, loadSpaceStandards } from '../utils/spaceStandards';
+import { subscribeToRows } from '../utils/realtime';
 
 interface FloorPlan {
   id: string;
@@ -11,6 +25,8 @@ interface Props {
   projectId: string;
   floorPlan: FloorPlan;
   onComplete: () => void;
+  // Names of others who have this form open right now.
+  otherEditors?: string[];
 }
 
 interface Requirements {
@@ -24,10 +40,70 @@ interface Requirements {
   reception_area: boolean;
   storage_rooms: number;
   server_room: boolean;
+  custom_rooms: CustomRoomRequirement[];
+  adjacency_rules: AdjacencyRule[];
+  zones: Partial<Record<string, Zone>>;
+  headcount_profile: HeadcountProfile | null;
   additional_notes: string;
 }
 
-export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
+type CountField = 'meeting_rooms_small' | 'meeting_rooms_medium' | 'meeting_rooms_large' | 'phone_booths' | 'breakout_areas' | 'storage_rooms';
+type FlagField = 'kitchen_pantry' | 'reception_area' | 'server_room';
+
+const REQUIREMENT_FIELDS: Record<RoomType, CountField | FlagField> = {
+  meeting_small: 'meeting_rooms_small',
+  meeting_medium: 'meeting_rooms_medium',
+  meeting_large: 'meeting_rooms_large',
+  phone_booth: 'phone_booths',
+  breakout: 'breakout_areas',
+  kitchen: 'kitchen_pantry',
+  reception: 'reception_area',
+  storage: 'storage_rooms',
+  server_room: 'server_room'
+};
+
+// Built-in rooms raise the matching count (never lower it); anything else
+// becomes a custom room, merged by name with an existing one. Links are
+// resolved to built-in types or custom room ids after all rooms exist.
+function applyParsedRooms(requirements: Requirements, parsed: ParsedRoom[]): Requirements {
+  const next: Requirements = { ...requirements, custom_rooms: [...requirements.custom_rooms] };
+  const linksById = new Map<string, string[]>();
+
+  parsed.forEach((room) => {
+    if (room.type) {
+      const field = REQUIREMENT_FIELDS[room.type];
+      if (typeof next[field] === 'boolean') next[field as FlagField] = true;
+      else next[field as CountField] = Math.max(next[field as CountField], room.count);
+      return;
+    }
+
+    const area = room.area ?? (room.size ? SIZE_AREAS[room.size] : 12);
+    const index = next.custom_rooms.findIndex((custom) => custom.name === room.name);
+    const custom: CustomRoomRequirement = index >= 0
+      ? { ...next.custom_rooms[index], area, count: room.count, location: room.location ?? next.custom_rooms[index].location }
+      : { id: crypto.randomUUID(), name: room.name, area, count: room.count, capacity: 1, adjacent_to: [], location: room.location ?? undefined };
+
+    if (index >= 0) next.custom_rooms[index] = custom;
+    else next.custom_rooms.push(custom);
+    linksById.set(custom.id, room.link);
+  });
+
+  const builtInByLabel = new Map((Object.keys(ROOM_LABELS) as RoomType[]).map((type) => [ROOM_LABELS[type], type]));
+  next.custom_rooms = next.custom_rooms.map((custom) => {
+    const links = linksById.get(custom.id);
+    if (!links) return custom;
+
+    const targets = links
+      .map((name) => builtInByLabel.get(name) ?? next.custom_rooms.find((other) => other.name === name && other.id !== custom.id)?.id)
+      .filter((target): target is string => Boolean(target));
+    return { ...custom, adjacent_to: [...new Set([...custom.adjacent_to, ...targets])] };
+  });
+
+  return next;
+}
+
+export function SpaceRequirements({ projectId, floorPlan, onComplete, otherEditors = [] }: Props) {
+  const { user } = useAuth();
   const [requirements, setRequirements] = useState<Requirements>({
     workstations: 10,
     meeting_rooms_small: 1,
@@ -39,18 +115,43 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
     reception_area: true,
     storage_rooms: 1,
     server_room: false,
+    custom_rooms: [],
+    adjacency_rules: [],
+    zones: {},
+    headcount_profile: null,
     additional_notes: ''
   });
   const [saving, setSaving] = useState(false);
   const [estimatedArea, setEstimatedArea] = useState(0);
+  const [showWizard, setShowWizard] = useState(false);
+  const [standards, setStandards] = useState<SpaceStandards>(DEFAULT_SPACE_STANDARDS);
+  // Set when someone else saves while this form is open.
+  const [newerVersionAt, setNewerVersionAt] = useState<string | null>(null);
 
   useEffect(() => {
+    setNewerVersionAt(null);
     loadExistingRequirements();
+
+    return subscribeToRows<{ created_by: string | null; created_at: string }>(
+      'space_requirements',
+      `floor_plan_id=eq.${floorPlan.id}`,
+      (payload) => {
+        if (payload.eventType === 'INSERT' && payload.new.created_by !== user?.id) {
+          setNewerVersionAt(payload.new.created_at);
+        }
+      }
+    );
   }, [floorPlan.id]);
 
+  useEffect(() => {
+    loadSpaceStandards(projectId)
+      .then(setStandards)
+      .catch((error) => console.error('Error loading space standards:', error));
+  }, [projectId]);
+
   useEffect(() => {
     calculateEstimatedArea();
-  }, [requirements]);
+  }, [requirements, standards]);
 
   const loadExistingRequirements = async () => {
     try {
@@ -63,6 +164,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
         .maybeSingle();
 
       if (error) throw error;
+      setNewerVersionAt(null);
       if (data) {
         setRequirements({
           workstations: data.workstations,
@@ -75,8 +177,15 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
           reception_area: data.reception_area,
           storage_rooms: data.storage_rooms,
           server_room: data.server_room,
+          custom_rooms: data.custom_rooms ?? [],
+          adjacency_rules: data.adjacency_rules ?? [],
+          zones: data.zones ?? {},
+          headcount_profile: data.headcount_profile ?? null,
           additional_notes: data.additional_notes
         });
+      } else {
+        // Clients usually start from headcount, so lead with the wizard.
+        setShowWizard(true);
       }
     } catch (error) {
       console.error('Error loading requirements:', error);
@@ -84,35 +193,25 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
   };
 
   const calculateEstimatedArea = () => {
-    const workstationArea = requirements.workstations * 6;
-    const smallMeetingArea = requirements.meeting_rooms_small * 15;
-    const mediumMeetingArea = requirements.meeting_rooms_medium * 25;
-    const largeMeetingArea = requirements.meeting_rooms_large * 40;
-    const phoneBoothArea = requirements.phone_booths * 2;
-    const breakoutArea = requirements.breakout_areas * 20;
-    const kitchenArea = requirements.kitchen_pantry ? 15 : 0;
-    const receptionArea = requirements.reception_area ? 20 : 0;
-    const storageArea = requirements.storage_rooms * 10;
-    const serverArea = requirements.server_room ? 15 : 0;
-
-    const total = workstationArea + smallMeetingArea + mediumMeetingArea +
-                  largeMeetingArea + phoneBoothArea + breakoutArea +
-                  kitchenArea + receptionArea + storageArea + serverArea;
-
-    const withCirculation = total * 1.4;
-
-    setEstimatedArea(Math.round(withCirculation));
+    setEstimatedArea(Math.round(estimateProgramArea(requirements, standards).total));
   };
 
   const handleSave = async () => {
     setSaving(true);
     try {
+      const customRooms = requirements.custom_rooms.filter((room) => room.name.trim() && room.count > 0);
+      // Drop rules and zones of custom rooms that were removed.
+      const known = (key: string) => key in ROOM_LABELS || key === WORKSTATIONS_KEY || customRooms.some((room) => room.id === key);
+
       const { error } = await supabase
         .from('space_requirements')
         .insert({
           project_id: projectId,
           floor_plan_id: floorPlan.id,
-          ...requirements
+          ...requirements,
+          custom_rooms: customRooms,
+          adjacency_rules: requirements.adjacency_rules.filter((rule) => known(rule.a) && known(rule.b)),
+          zones: Object.fromEntries(Object.entries(requirements.zones).filter(([key]) => known(key)))
         })
         .select()
         .single();
@@ -137,7 +236,80 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
       padding: '2rem',
       borderRadius: '8px'
     }}>
-      <h2 style={{ marginTop: 0 }}>空間需求設定</h2>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+        <h2 style={{ margin: 0 }}>空間需求設定</h2>
+        {!showWizard && (
+          <button
+            onClick={() => setShowWizard(true)}
+            style={{
+              padding: '0.5rem 1rem',
+              background: '#f1f3f4',
+              border: '1px solid #ddd',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            依人數推算
+          </button>
+        )}
+      </div>
+
+      {otherEditors.length > 0 && (
+        <p style={{
+          background: '#fef3c7',
+          color: '#92400e',
+          padding: '1rem',
+          borderRadius: '8px',
+          marginTop: 0
+        }}>
+          ⚠️ {otherEditors.join('、')} 也正在編輯此平面圖的空間需求。需求以最後儲存的版本為準，請先協調以免覆蓋彼此的修改。
+        </p>
+      )}
+
+      {newerVersionAt && (
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: '1rem',
+          background: '#fce8e6',
+          color: '#c5221f',
+          padding: '1rem',
+          borderRadius: '8px',
+          marginBottom: '1rem'
+        }}>
+          <span>
+            其他成員於 {new Date(newerVersionAt).toLocaleTimeString('zh-TW')} 儲存了新版本的需求，現在儲存會以您的內容取代。
+          </span>
+          <button
+            onClick={() => {
+              if (confirm('載入最新版本會捨棄您尚未儲存的修改，確定嗎？')) loadExistingRequirements();
+            }}
+            style={{
+              padding: '0.5rem 1rem',
+              background: 'white',
+              border: '1px solid #c5221f',
+              color: '#c5221f',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            載入最新版本
+          </button>
+        </div>
+      )}
+
+      {showWizard && (
+        <RequirementWizard
+          profile={requirements.headcount_profile}
+          onApply={(derived, headcount_profile) => {
+            setRequirements({ ...requirements, ...derived, headcount_profile });
+            setShowWizard(false);
+          }}
+          onCancel={() => setShowWizard(false)}
+        />
+      )}
 
       <div style={{
         background: isAreaSufficient ? '#e6f4ea' : '#fce8e6',
@@ -156,7 +328,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
           </p>
         )}
         <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#666' }}>
-          * 預估包含走道、公共空間等循環面積（40% 加成）
+          * 預估包含走道、公共空間等循環面積（{Math.round((standards.circulation_factor - 1) * 100)}% 加成），依專案空間標準計算
         </p>
       </div>
 
@@ -185,7 +357,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
               }}
               min="0"
             />
-            <small style={{ color: '#666' }}>每個工位約 6 m²</small>
+            <small style={{ color: '#666' }}>每個工位約 {standards.workstation_area} m²</small>
           </div>
 
           <div style={{ marginBottom: '1rem' }}>
@@ -205,7 +377,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
               }}
               min="0"
             />
-            <small style={{ color: '#666' }}>每間約 2 m²</small>
+            <small style={{ color: '#666' }}>每間約 {standards.room_areas.phone_booth} m²</small>
           </div>
         </div>
 
@@ -228,7 +400,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
               }}
               min="0"
             />
-            <small style={{ color: '#666' }}>每間約 15 m²</small>
+            <small style={{ color: '#666' }}>每間約 {standards.room_areas.meeting_small} m²</small>
           </div>
 
           <div style={{ marginBottom: '1rem' }}>
@@ -248,7 +420,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
               }}
               min="0"
             />
-            <small style={{ color: '#666' }}>每間約 25 m²</small>
+            <small style={{ color: '#666' }}>每間約 {standards.room_areas.meeting_medium} m²</small>
           </div>
 
           <div style={{ marginBottom: '1rem' }}>
@@ -268,7 +440,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
               }}
               min="0"
             />
-            <small style={{ color: '#666' }}>每間約 40 m²</small>
+            <small style={{ color: '#666' }}>每間約 {standards.room_areas.meeting_large} m²</small>
           </div>
         </div>
 
@@ -291,7 +463,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
               }}
               min="0"
             />
-            <small style={{ color: '#666' }}>每個約 20 m²</small>
+            <small style={{ color: '#666' }}>每個約 {standards.room_areas.breakout} m²</small>
           </div>
 
           <div style={{ marginBottom: '1rem' }}>
@@ -311,7 +483,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
               }}
               min="0"
             />
-            <small style={{ color: '#666' }}>每間約 10 m²</small>
+            <small style={{ color: '#666' }}>每間約 {standards.room_areas.storage} m²</small>
           </div>
 
           <div style={{ marginBottom: '1rem' }}>
@@ -322,7 +494,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
                 onChange={(e) => setRequirements({...requirements, kitchen_pantry: e.target.checked})}
                 style={{ marginRight: '0.5rem', width: '20px', height: '20px' }}
               />
-              茶水間 (約 15 m²)
+              茶水間 (約 {standards.room_areas.kitchen} m²)
             </label>
           </div>
 
@@ -334,7 +506,7 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
                 onChange={(e) => setRequirements({...requirements, reception_area: e.target.checked})}
                 style={{ marginRight: '0.5rem', width: '20px', height: '20px' }}
               />
-              接待區 (約 20 m²)
+              接待區 (約 {standards.room_areas.reception} m²)
             </label>
           </div>
 
@@ -346,12 +518,25 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
                 onChange={(e) => setRequirements({...requirements, server_room: e.target.checked})}
                 style={{ marginRight: '0.5rem', width: '20px', height: '20px' }}
               />
-              機房 (約 15 m²)
+              機房 (約 {standards.room_areas.server_room} m²)
             </label>
           </div>
         </div>
       </div>
 
+      <CustomRoomRequirements
+        rooms={requirements.custom_rooms}
+        onChange={(custom_rooms) => setRequirements({...requirements, custom_rooms})}
+      />
+
+      <AdjacencyMatrix
+        requirements={requirements}
+        rules={requirements.adjacency_rules}
+        zones={requirements.zones}
+        onRulesChange={(adjacency_rules) => setRequirements({...requirements, adjacency_rules})}
+        onZonesChange={(zones) => setRequirements({...requirements, zones})}
+      />
+
       <div style={{ marginBottom: '2rem' }}>
         <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
           其他需求或備註
@@ -369,6 +554,10 @@ export function SpaceRequirements({ projectId, floorPlan, onComplete }: Props) {
             minHeight: '100px'
           }}
         />
+        <ParsedNotesReview
+          notes={requirements.additional_notes}
+          onApply={(parsed) => setRequirements(applyParsedRooms(requirements, parsed))}
+        />
       </div>
 
       <button
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import type { RoomType } from '../utils/layoutEngine';
+import { ROOM_LABELS } from '../utils/layoutEngine';
+import type { SpaceStandards, SpaceStandardsPreset } from '../utils/spaceStandards';
+import {
+  DEFAULT_SPACE_STANDARDS,
+  PRESET_LABELS,
+  SPACE_STANDARD_PRESETS,
+  loadSpaceStandards,
+  saveSpaceStandards
+} from '../utils/spaceStandards';
+
+interface Props {
+  projectId: string;
+}
+
+const PRESETS: SpaceStandardsPreset[] = ['dense', 'standard', 'premium'];
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '1rem'
+};
+
+export function SpaceStandardsSettings({ projectId }: Props) {
+  const [standards, setStandards] = useState<SpaceStandards>(DEFAULT_SPACE_STANDARDS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSpaceStandards(projectId)
+      .then(setStandards)
+      .catch((error) => console.error('Error loading space standards:', error))
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  // Any manual change turns the profile into a custom one.
+  const update = (changes: Partial<SpaceStandards>) => {
+    setStandards({ ...standards, ...changes, preset: 'custom' });
+  };
+
+  const updateRoomArea = (type: RoomType, value: string) => {
+    update({ room_areas: { ...standards.room_areas, [type]: parseFloat(value) || 0 } });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveSpaceStandards(projectId, standards);
+      alert('空間標準已儲存！');
+    } catch (error) {
+      console.error('Error saving space standards:', error);
+      alert('儲存失敗，請稍後再試');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '8px'
+    }}>
+      <h2 style={{ marginTop: 0 }}>空間標準</h2>
+      <p style={{ color: '#666', marginTop: 0 }}>
+        面積預估、可行性評分與配置生成都會使用這裡的標準。目前套用：{PRESET_LABELS[standards.preset]}
+      </p>
+
+      <div style={{ display: 'flex', gap: '1rem', marginBottom: '2rem', flexWrap: 'wrap' }}>
+        {PRESETS.map((preset) => (
+          <button
+            key={preset}
+            onClick={() => setStandards(SPACE_STANDARD_PRESETS[preset])}
+            style={{
+              padding: '0.75rem 1.5rem',
+              background: standards.preset === preset ? '#667eea' : '#f1f3f4',
+              color: standards.preset === preset ? 'white' : '#333',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            {PRESET_LABELS[preset]}（每工位 {SPACE_STANDARD_PRESETS[preset].workstation_area} m²）
+          </button>
+        ))}
+      </div>
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))',
+        gap: '1.5rem',
+        marginBottom: '2rem'
+      }}>
+        <div>
+          <h3>工作區域</h3>
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>每個工位面積 (m²)</label>
+            <input
+              type="number"
+              step="0.5"
+              min="0"
+              value={standards.workstation_area}
+              onChange={(e) => update({ workstation_area: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <small style={{ color: '#666' }}>含座位與分攤的走道</small>
+          </div>
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>桌面寬度 (m)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="1"
+              value={standards.desk_width}
+              onChange={(e) => update({ desk_width: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <small style={{ color: '#666' }}>配置生成時每張桌子的寬度</small>
+          </div>
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>循環面積係數</label>
+            <input
+              type="number"
+              step="0.05"
+              min="1"
+              value={standards.circulation_factor}
+              onChange={(e) => update({ circulation_factor: parseFloat(e.target.value) || 1 })}
+              style={inputStyle}
+            />
+            <small style={{ color: '#666' }}>走道與公共空間加成，例：1.4 代表加成 40%</small>
+          </div>
+        </div>
+
+        <div>
+          <h3>各類空間面積 (m²)</h3>
+          {(Object.keys(ROOM_LABELS) as RoomType[]).map((type) => (
+            <div key={type} style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '0.75rem' }}>
+              <label style={{ flex: 1 }}>{ROOM_LABELS[type]}</label>
+              <input
+                type="number"
+                step="0.5"
+                min="0"
+                value={standards.room_areas[type]}
+                onChange={(e) => updateRoomArea(type, e.target.value)}
+                style={{ ...inputStyle, width: '120px' }}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        style={{
+          width: '100%',
+          padding: '1rem',
+          background: saving ? '#ccc' : '#667eea',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: saving ? 'not-allowed' : 'pointer',
+          fontSize: '1.1rem',
+          fontWeight: 'bold'
+        }}
+      >
+        {saving ? '儲存中...' : '儲存空間標準'}
+      </button>
+    </div>
+  );
+}
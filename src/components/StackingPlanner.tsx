@@ -0,0 +1,389 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { TeamEditor } from './TeamEditor';
+import type { HeadcountProfile } from '../utils/headcountPlanner';
+import { DEFAULT_HEADCOUNT_PROFILE, totalHeadcount } from '../utils/headcountPlanner';
+import { FEASIBILITY_THRESHOLD } from '../utils/feasibility';
+import type { StackFloor, StackingPlan } from '../utils/stackingPlan';
+import {
+  applyStackingToFloors,
+  autoAssignTeams,
+  evaluateStacking,
+  loadStackingPlan,
+  saveStackingPlan,
+  stackOrder
+} from '../utils/stackingPlan';
+import { floorPlanTitle } from '../utils/floorMetadata';
+import type { SpaceStandards } from '../utils/spaceStandards';
+import { DEFAULT_SPACE_STANDARDS, loadSpaceStandards } from '../utils/spaceStandards';
+
+interface Props {
+  projectId: string;
+  floorPlans: StackFloor[];
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '1rem'
+};
+
+const buttonStyle = {
+  padding: '0.5rem 1rem',
+  background: '#f1f3f4',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+};
+
+const scoreColor = (score: number) => (score >= FEASIBILITY_THRESHOLD ? '#1e7e34' : '#c5221f');
+
+export function StackingPlanner({ projectId, floorPlans }: Props) {
+  const [plan, setPlan] = useState<StackingPlan | null>(null);
+  const [standards, setStandards] = useState<SpaceStandards>(DEFAULT_SPACE_STANDARDS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPlan();
+  }, [projectId]);
+
+  // Without a saved plan, start from the answers given in the requirement
+  // wizard, with every floor in the stack.
+  const loadPlan = async () => {
+    try {
+      const [saved, loadedStandards] = await Promise.all([loadStackingPlan(projectId), loadSpaceStandards(projectId)]);
+      setStandards(loadedStandards);
+
+      if (saved) {
+        setPlan(saved);
+        return;
+      }
+
+      const { data } = await supabase
+        .from('space_requirements')
+        .select('headcount_profile')
+        .eq('project_id', projectId)
+        .not('headcount_profile', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      const profile: HeadcountProfile = data?.headcount_profile ?? DEFAULT_HEADCOUNT_PROFILE;
+      const floorIds = stackOrder(floorPlans);
+
+      setPlan({
+        project_id: projectId,
+        profile,
+        floor_plan_ids: floorIds,
+        team_floors: {},
+        reception_floor: floorIds[floorIds.length - 1] ?? null,
+        server_room_floor: null
+      });
+    } catch (error) {
+      console.error('Error loading stacking plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<StackingPlan>) => {
+    if (plan) setPlan({ ...plan, ...changes });
+  };
+
+  const updateProfile = (changes: Partial<HeadcountProfile>) => {
+    if (plan) update({ profile: { ...plan.profile, ...changes } });
+  };
+
+  const moveFloor = (index: number, offset: number) => {
+    if (!plan) return;
+    const ids = [...plan.floor_plan_ids];
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    update({ floor_plan_ids: ids });
+  };
+
+  const toggleFloor = (id: string) => {
+    if (!plan) return;
+    if (plan.floor_plan_ids.includes(id)) {
+      update({
+        floor_plan_ids: plan.floor_plan_ids.filter((floorId) => floorId !== id),
+        reception_floor: plan.reception_floor === id ? null : plan.reception_floor,
+        server_room_floor: plan.server_room_floor === id ? null : plan.server_room_floor
+      });
+    } else {
+      update({ floor_plan_ids: [...plan.floor_plan_ids, id] });
+    }
+  };
+
+  const assignTeam = (teamId: string, floorId: string) => {
+    if (!plan) return;
+    const teamFloors = { ...plan.team_floors };
+    if (floorId) {
+      teamFloors[teamId] = floorId;
+    } else {
+      delete teamFloors[teamId];
+    }
+    update({ team_floors: teamFloors });
+  };
+
+  const handleSave = async () => {
+    if (!plan) return;
+    setSaving(true);
+    try {
+      setPlan(await saveStackingPlan(plan));
+    } catch (error) {
+      console.error('Error saving stacking plan:', error);
+      alert('儲存失敗，請稍後再試');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan || !confirm('將為每個樓層新增一筆空間需求，確定要套用嗎？')) return;
+    setSaving(true);
+    try {
+      setPlan(await saveStackingPlan(plan));
+      await applyStackingToFloors(plan);
+      alert('已套用到各樓層的空間需求');
+    } catch (error) {
+      console.error('Error applying stacking plan:', error);
+      alert('套用失敗，請稍後再試');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  if (!plan) return null;
+
+  if (floorPlans.length === 0) {
+    return (
+      <div style={{ background: 'white', padding: '2rem', borderRadius: '8px', textAlign: 'center', color: '#666' }}>
+        請先上傳各樓層的平面圖
+      </div>
+    );
+  }
+
+  const result = evaluateStacking(plan, floorPlans, standards);
+  const stacked = plan.floor_plan_ids
+    .map((id) => floorPlans.find((floor) => floor.id === id))
+    .filter((floor): floor is StackFloor => Boolean(floor));
+
+  return (
+    <div style={{ background: 'white', padding: '2rem', borderRadius: '8px' }}>
+      <h2 style={{ marginTop: 0 }}>堆疊規劃</h2>
+      <p style={{ color: '#666' }}>
+        將整個專案的團隊分配到多個樓層。接待區與機房只設置一處，其餘空間依各樓層的團隊人數推算。
+      </p>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '2rem', marginBottom: '2rem' }}>
+        <div>
+          <h4 style={{ margin: '0 0 0.5rem 0' }}>團隊組成</h4>
+          <TeamEditor teams={plan.profile.teams} onChange={(teams) => updateProfile({ teams })} />
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginTop: '1rem' }}>
+            <label>
+              <div style={{ marginBottom: '0.25rem' }}>尖峰到班率 (%)</div>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="5"
+                value={Math.round(plan.profile.attendance_ratio * 100)}
+                onChange={(e) => updateProfile({ attendance_ratio: Math.min(100, parseFloat(e.target.value) || 0) / 100 })}
+                style={inputStyle}
+              />
+            </label>
+            <label>
+              <div style={{ marginBottom: '0.25rem' }}>共享座位比</div>
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                value={plan.profile.desk_sharing_ratio}
+                onChange={(e) => updateProfile({ desk_sharing_ratio: Math.min(1, parseFloat(e.target.value) || 0) })}
+                style={inputStyle}
+              />
+            </label>
+          </div>
+          <p style={{ fontSize: '0.85rem', color: '#666' }}>
+            共 {totalHeadcount(plan.profile)} 人，成長率與規劃年數沿用需求精靈的設定
+          </p>
+        </div>
+
+        <div>
+          <h4 style={{ margin: '0 0 0.5rem 0' }}>樓層</h4>
+          {floorPlans.map((floor) => (
+            <label key={floor.id} style={{ display: 'block', marginBottom: '0.25rem' }}>
+              <input
+                type="checkbox"
+                checked={plan.floor_plan_ids.includes(floor.id)}
+                onChange={() => toggleFloor(floor.id)}
+              />
+              {' '}{floorPlanTitle(floor)}{floor.floor_area_sqm ? `（${floor.floor_area_sqm} m²）` : '（未設定面積）'}
+            </label>
+          ))}
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginTop: '1rem' }}>
+            <label>
+              <div style={{ marginBottom: '0.25rem' }}>接待區樓層</div>
+              <select
+                value={plan.reception_floor ?? ''}
+                onChange={(e) => update({ reception_floor: e.target.value || null })}
+                style={inputStyle}
+              >
+                <option value="">不設置</option>
+                {stacked.map((floor) => (
+                  <option key={floor.id} value={floor.id}>{floorPlanTitle(floor)}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <div style={{ marginBottom: '0.25rem' }}>機房樓層</div>
+              <select
+                value={plan.server_room_floor ?? ''}
+                onChange={(e) => update({ server_room_floor: e.target.value || null })}
+                style={inputStyle}
+              >
+                <option value="">不設置</option>
+                {stacked.map((floor) => (
+                  <option key={floor.id} value={floor.id}>{floorPlanTitle(floor)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <button
+            onClick={() => update({ team_floors: autoAssignTeams(plan, floorPlans, standards) })}
+            disabled={plan.profile.teams.length === 0 || stacked.length === 0}
+            style={{ ...buttonStyle, marginTop: '1rem' }}
+          >
+            自動分配團隊
+          </button>
+        </div>
+      </div>
+
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '1rem'
+      }}>
+        <h3 style={{ margin: 0 }}>堆疊圖</h3>
+        <div>
+          綜合可行性：
+          <strong style={{ fontSize: '1.5rem', color: scoreColor(result.combinedScore) }}>{result.combinedScore}</strong>
+          <small style={{ color: '#666' }}>（取最吃緊樓層的分數）</small>
+        </div>
+      </div>
+
+      {result.floors.map((floorResult, index) => {
+        const floor = stacked[index];
+        return (
+          <div
+            key={floor.id}
+            style={{
+              display: 'grid',
+              gridTemplateColumns: '180px 1fr 200px',
+              gap: '1rem',
+              alignItems: 'center',
+              padding: '1rem',
+              border: '1px solid #ddd',
+              borderLeft: `6px solid ${scoreColor(floorResult.score)}`,
+              borderRadius: '4px',
+              marginBottom: '0.5rem'
+            }}
+          >
+            <div>
+              <strong>{floorPlanTitle(floor)}</strong>
+              <div style={{ display: 'flex', gap: '0.25rem', marginTop: '0.5rem' }}>
+                <button onClick={() => moveFloor(index, -1)} disabled={index === 0} style={buttonStyle}>↑</button>
+                <button onClick={() => moveFloor(index, 1)} disabled={index === stacked.length - 1} style={buttonStyle}>↓</button>
+              </div>
+            </div>
+            <div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                {floorResult.teams.map((team) => (
+                  <span key={team.id} style={{ background: '#e8eaf6', padding: '0.25rem 0.5rem', borderRadius: '4px' }}>
+                    {team.name || '未命名團隊'}（{team.headcount} 人）
+                  </span>
+                ))}
+                {floorResult.requirements.reception_area && (
+                  <span style={{ background: '#fff3e0', padding: '0.25rem 0.5rem', borderRadius: '4px' }}>接待區</span>
+                )}
+                {floorResult.requirements.server_room && (
+                  <span style={{ background: '#fff3e0', padding: '0.25rem 0.5rem', borderRadius: '4px' }}>機房</span>
+                )}
+                {floorResult.teams.length === 0 && <span style={{ color: '#999' }}>尚未分配團隊</span>}
+              </div>
+              <small style={{ color: '#666' }}>
+                工作站 {floorResult.requirements.workstations}、會議室{' '}
+                {floorResult.requirements.meeting_rooms_small + floorResult.requirements.meeting_rooms_medium + floorResult.requirements.meeting_rooms_large}、
+                電話亭 {floorResult.requirements.phone_booths}
+              </small>
+            </div>
+            <div style={{ textAlign: 'right' }}>
+              <div>{floorResult.requiredArea} / {floor.floor_area_sqm ?? '-'} m²</div>
+              <strong style={{ color: scoreColor(floorResult.score) }}>可行性 {floorResult.score}</strong>
+            </div>
+          </div>
+        );
+      })}
+
+      {plan.profile.teams.length > 0 && stacked.length > 0 && (
+        <div style={{ margin: '1.5rem 0' }}>
+          <h4 style={{ margin: '0 0 0.5rem 0' }}>團隊樓層</h4>
+          {plan.profile.teams.map((team) => (
+            <div key={team.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+              <span style={{ width: '12rem' }}>{team.name || '未命名團隊'}（{team.headcount} 人）</span>
+              <select
+                value={stacked.some((floor) => floor.id === plan.team_floors[team.id]) ? plan.team_floors[team.id] : ''}
+                onChange={(e) => assignTeam(team.id, e.target.value)}
+                style={{ ...inputStyle, width: '200px' }}
+              >
+                <option value="">未分配</option>
+                {stacked.map((floor) => (
+                  <option key={floor.id} value={floor.id}>{floorPlanTitle(floor)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          {result.unassigned.length > 0 && (
+            <p style={{ color: '#c5221f' }}>⚠️ 尚有 {result.unassigned.length} 個團隊未分配樓層</p>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          style={{
+            ...buttonStyle,
+            flex: 1,
+            padding: '1rem',
+            background: saving ? '#ccc' : '#667eea',
+            color: 'white',
+            fontWeight: 'bold',
+            cursor: saving ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {saving ? '儲存中...' : '儲存堆疊規劃'}
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={saving || stacked.length === 0}
+          style={{ ...buttonStyle, padding: '1rem' }}
+        >
+          套用到各樓層需求
+        </button>
+      </div>
+    </div>
+  );
+}
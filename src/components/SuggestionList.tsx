@@ -0,0 +1,57 @@
+import type { Suggestion, SuggestionSeverity } from '../utils/suggestions';
+import { SEVERITY_LABELS } from '../utils/suggestions';
+
+interface Props {
+  suggestions: Suggestion[];
+  onApplyFix?: (suggestion: Suggestion) => void;
+  disabled?: boolean;
+}
+
+const SEVERITY_COLORS: Record<SuggestionSeverity, { background: string; color: string }> = {
+  critical: { background: '#fce8e6', color: '#c5221f' },
+  warning: { background: '#fef3c7', color: '#92400e' },
+  info: { background: '#e8f0fe', color: '#1a56db' }
+};
+
+export function SuggestionList({ suggestions, onApplyFix, disabled }: Props) {
+  if (suggestions.length === 0) {
+    return <div style={{ color: '#666' }}>✓ 配置沒有發現需要調整的地方</div>;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {suggestions.map((suggestion) => (
+        <div key={suggestion.id} style={{ display: 'flex', alignItems: 'flex-start', gap: '0.75rem' }}>
+          <span style={{
+            ...SEVERITY_COLORS[suggestion.severity],
+            padding: '0.125rem 0.5rem',
+            borderRadius: '4px',
+            fontSize: '0.8rem',
+            fontWeight: 'bold',
+            whiteSpace: 'nowrap'
+          }}>
+            {SEVERITY_LABELS[suggestion.severity]}
+          </span>
+          <div style={{ flex: 1, color: '#444' }}>{suggestion.message}</div>
+          {suggestion.fix && onApplyFix && (
+            <button
+              onClick={() => onApplyFix(suggestion)}
+              disabled={disabled}
+              style={{
+                padding: '0.25rem 0.75rem',
+                background: 'white',
+                border: '1px solid #667eea',
+                color: '#667eea',
+                borderRadius: '4px',
+                cursor: disabled ? 'not-allowed' : 'pointer',
+                whiteSpace: 'nowrap'
+              }}
+            >
+              {suggestion.fix.label}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
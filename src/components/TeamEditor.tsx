@@ -0,0 +1,85 @@
+import type { TeamHeadcount, WorkStyle } from '../utils/headcountPlanner';
+import { WORK_STYLE_LABELS } from '../utils/headcountPlanner';
+
+interface Props {
+  teams: TeamHeadcount[];
+  onChange: (teams: TeamHeadcount[]) => void;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '1rem'
+};
+
+export function TeamEditor({ teams, onChange }: Props) {
+  const updateTeam = (id: string, changes: Partial<TeamHeadcount>) => {
+    onChange(teams.map((team) => (team.id === id ? { ...team, ...changes } : team)));
+  };
+
+  const addTeam = () => {
+    onChange([...teams, { id: crypto.randomUUID(), name: '', headcount: 5, work_style: 'collaborative' }]);
+  };
+
+  return (
+    <div>
+      {teams.map((team) => (
+        <div
+          key={team.id}
+          style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr auto', gap: '0.5rem', marginBottom: '0.5rem' }}
+        >
+          <input
+            type="text"
+            value={team.name}
+            placeholder="團隊名稱"
+            onChange={(e) => updateTeam(team.id, { name: e.target.value })}
+            style={inputStyle}
+          />
+          <input
+            type="number"
+            min="0"
+            value={team.headcount}
+            onChange={(e) => updateTeam(team.id, { headcount: parseInt(e.target.value) || 0 })}
+            style={inputStyle}
+          />
+          <select
+            value={team.work_style}
+            onChange={(e) => updateTeam(team.id, { work_style: e.target.value as WorkStyle })}
+            style={inputStyle}
+          >
+            {(Object.keys(WORK_STYLE_LABELS) as WorkStyle[]).map((style) => (
+              <option key={style} value={style}>{WORK_STYLE_LABELS[style]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange(teams.filter((t) => t.id !== team.id))}
+            style={{
+              padding: '0.5rem 1rem',
+              background: '#fce8e6',
+              color: '#c5221f',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            刪除
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={addTeam}
+        style={{
+          padding: '0.5rem 1rem',
+          background: '#f1f3f4',
+          border: '1px dashed #999',
+          borderRadius: '4px',
+          cursor: 'pointer'
+        }}
+      >
+        + 新增團隊
+      </button>
+    </div>
+  );
+}
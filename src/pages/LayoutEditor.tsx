@@ -0,0 +1,539 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { FloorPlanDimensions } from '../utils/floorPlanDimensions';
+import type { FloorPlanMetadata } from '../utils/floorMetadata';
+import type { PriceBook } from '../utils/costEstimator';
+import { estimateCost, formatCurrency, loadPriceBook } from '../utils/costEstimator';
+import type { Point, Rect } from '../utils/geometry';
+import { polygonBounds, rectArea } from '../utils/geometry';
+import type { DeskCluster, LayoutPlan, LayoutRequirements, PlacedRoom } from '../utils/layoutEngine';
+import {
+  GRID_SIZE,
+  clusterDesks,
+  deskClusterSeats,
+  describeViolation,
+  findLayoutConflicts,
+  roomLabel,
+  summarizeLayout
+} from '../utils/layoutEngine';
+import { FEASIBILITY_THRESHOLD, scoreSolution } from '../utils/feasibility';
+import { OBSTACLE_COLOR, OPENING_COLORS, ROOM_COLORS } from '../utils/layoutRenderer';
+import { saveWithLayoutImage } from '../utils/layoutStorage';
+import type { SolutionSnapshot } from '../utils/layoutVersions';
+import { saveSolutionVersion } from '../utils/layoutVersions';
+import type { SpaceStandards } from '../utils/spaceStandards';
+import { loadSpaceStandards } from '../utils/spaceStandards';
+import { formatSuggestions, generateSuggestions } from '../utils/suggestions';
+
+interface Solution extends SolutionSnapshot {
+  id: string;
+  floor_plan_id: string;
+  space_requirement_id: string;
+}
+
+interface FloorPlan extends FloorPlanMetadata {
+  id: string;
+  name: string;
+  original_image_url: string;
+  floor_area_sqm: number | null;
+  dimensions_json: FloorPlanDimensions | null;
+}
+
+interface DragState {
+  id: string;
+  mode: 'move' | 'resize';
+  start: Point;
+  rect: Rect;
+}
+
+const MIN_ITEM_SIZE = GRID_SIZE * 2;
+
+const snap = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function LayoutEditor() {
+  const { projectId, solutionId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [solution, setSolution] = useState<Solution | null>(null);
+  const [floorPlan, setFloorPlan] = useState<FloorPlan | null>(null);
+  const [requirements, setRequirements] = useState<LayoutRequirements | null>(null);
+  const [plan, setPlan] = useState<LayoutPlan | null>(null);
+  const [prices, setPrices] = useState<PriceBook | null>(null);
+  const [standards, setStandards] = useState<SpaceStandards | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [description, setDescription] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    if (solutionId) {
+      loadSolution();
+    }
+  }, [solutionId]);
+
+  const loadSolution = async () => {
+    try {
+      const { data: solData, error: solError } = await supabase
+        .from('layout_solutions')
+        .select('*')
+        .eq('id', solutionId)
+        .single();
+
+      if (solError) throw solError;
+
+      const [{ data: fpData, error: fpError }, { data: reqData, error: reqError }] = await Promise.all([
+        supabase.from('floor_plans').select('*').eq('id', solData.floor_plan_id).single(),
+        supabase.from('space_requirements').select('*').eq('id', solData.space_requirement_id).single()
+      ]);
+
+      if (fpError) throw fpError;
+      if (reqError) throw reqError;
+
+      setSolution(solData);
+      setFloorPlan(fpData);
+      setRequirements(reqData);
+      const [loadedPrices, loadedStandards] = await Promise.all([loadPriceBook(projectId!), loadSpaceStandards(projectId!)]);
+      setPrices(loadedPrices);
+      setStandards(loadedStandards);
+      setPlan(solData.layout_json?.outline ? solData.layout_json : null);
+    } catch (error) {
+      console.error('Error loading solution:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateItem = (id: string, update: (item: Rect) => Partial<Rect>) => {
+    setPlan((current) => current && {
+      ...current,
+      rooms: current.rooms.map((room) => (room.id === id ? { ...room, ...update(room) } : room)),
+      deskClusters: current.deskClusters.map((cluster) => (cluster.id === id ? { ...cluster, ...update(cluster) } : cluster))
+    });
+  };
+
+  const rotateSelected = () => {
+    if (!selectedId) return;
+    setPlan((current) => current && {
+      ...current,
+      rooms: current.rooms.map((room) => (room.id === selectedId ? rotateRect(room) : room)),
+      deskClusters: current.deskClusters.map((cluster) => (cluster.id === selectedId
+        ? { ...rotateRect(cluster), axis: cluster.axis === 'x' ? 'y' : 'x' }
+        : cluster))
+    });
+  };
+
+  const deleteSelected = () => {
+    if (!selectedId) return;
+    setPlan((current) => current && {
+      ...current,
+      rooms: current.rooms.filter((room) => room.id !== selectedId),
+      deskClusters: current.deskClusters.filter((cluster) => cluster.id !== selectedId)
+    });
+    setSelectedId(null);
+  };
+
+  const toPlanPoint = (e: React.PointerEvent): Point => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const transformed = point.matrixTransform(matrix.inverse());
+    return { x: transformed.x, y: transformed.y };
+  };
+
+  const startDrag = (e: React.PointerEvent, item: Rect & { id: string }, mode: DragState['mode']) => {
+    e.stopPropagation();
+    setSelectedId(item.id);
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      id: item.id,
+      mode,
+      start: toPlanPoint(e),
+      rect: { x: item.x, y: item.y, width: item.width, height: item.height }
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const point = toPlanPoint(e);
+    const dx = point.x - drag.start.x;
+    const dy = point.y - drag.start.y;
+
+    if (drag.mode === 'move') {
+      updateItem(drag.id, () => ({ x: snap(drag.rect.x + dx), y: snap(drag.rect.y + dy) }));
+    } else {
+      updateItem(drag.id, () => ({
+        width: Math.max(MIN_ITEM_SIZE, snap(drag.rect.width + dx)),
+        height: Math.max(MIN_ITEM_SIZE, snap(drag.rect.height + dy))
+      }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragRef.current) {
+      svgRef.current?.releasePointerCapture(e.pointerId);
+      dragRef.current = null;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!solution || !plan || !requirements || !user || !projectId) return;
+
+    const summary = summarizeLayout(plan, requirements);
+    const conflicts = findLayoutConflicts(plan);
+    if (conflicts.length > 0 && !confirm(`目前有 ${conflicts.length} 個空間重疊、擋住走道或門口、或超出邊界，仍要儲存嗎？`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const feasibility = standards
+        ? scoreSolution(plan, summary, requirements, floorPlan?.floor_area_sqm ?? null, standards)
+        : { score: solution.feasibility_score, factors: solution.feasibility_breakdown };
+      await saveWithLayoutImage(projectId, plan, (imageUrl) => saveSolutionVersion(solution.id, {
+        ...solution,
+        ...summary,
+        feasibility_score: feasibility.score,
+        feasibility_breakdown: feasibility.factors,
+        is_feasible: feasibility.score >= FEASIBILITY_THRESHOLD && Object.values(summary.constraints_met).every(Boolean),
+        suggestions: standards
+          ? formatSuggestions(generateSuggestions({ req: requirements, plan, summary, availableArea: floorPlan?.floor_area_sqm ?? null, standards }))
+          : solution.suggestions,
+        layout_json: plan,
+        solution_image_url: imageUrl,
+        cost_estimate: floorPlan && prices ? estimateCost(plan, floorPlan, prices) : solution.cost_estimate
+      }, description.trim() || '手動調整配置'));
+
+      navigate(`/projects/${projectId}`);
+    } catch (error) {
+      console.error('Error saving layout:', error);
+      alert('儲存失敗，請稍後再試');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  if (!solution || !requirements) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>找不到配置方案</div>;
+  }
+
+  if (!plan) {
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center' }}>
+        <p>此方案沒有可編輯的配置資料，請先重新生成方案。</p>
+        <button
+          onClick={() => navigate(`/projects/${projectId}`)}
+          style={{
+            padding: '0.5rem 1rem',
+            background: '#f1f3f4',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          ← 返回
+        </button>
+      </div>
+    );
+  }
+
+  const summary = summarizeLayout(plan, requirements);
+  const conflicts = findLayoutConflicts(plan);
+  const bounds = polygonBounds(plan.outline);
+  // Calibrated plans share the image's coordinate frame, so the image can be
+  // drawn at true scale; otherwise stretch it over the outline.
+  const calibration = floorPlan?.dimensions_json;
+  const imageFrame = calibration?.scale && calibration.image
+    ? {
+      x: 0,
+      y: 0,
+      width: calibration.image.width * calibration.scale.meters_per_pixel,
+      height: calibration.image.height * calibration.scale.meters_per_pixel
+    }
+    : bounds;
+  const selectedRoom = plan.rooms.find((room) => room.id === selectedId);
+  const selectedCluster = plan.deskClusters.find((cluster) => cluster.id === selectedId);
+  const selected: (PlacedRoom | DeskCluster) | undefined = selectedRoom ?? selectedCluster;
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#f5f7fa' }}>
+      <nav style={{
+        background: 'white',
+        padding: '1rem 2rem',
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+          <button
+            onClick={() => navigate(`/projects/${projectId}`)}
+            style={{
+              padding: '0.5rem 1rem',
+              background: '#f1f3f4',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            ← 返回
+          </button>
+          <h1 style={{ margin: 0, color: '#333' }}>編輯配置{floorPlan ? ` - ${floorPlan.name}` : ''}</h1>
+        </div>
+      </nav>
+
+      <div style={{
+        maxWidth: '1400px',
+        margin: '0 auto',
+        padding: '2rem',
+        display: 'grid',
+        gridTemplateColumns: '1fr 320px',
+        gap: '1.5rem'
+      }}>
+        <div style={{ background: 'white', padding: '1rem', borderRadius: '8px' }}>
+          <svg
+            ref={svgRef}
+            viewBox={`${bounds.x - 1} ${bounds.y - 1} ${bounds.width + 2} ${bounds.height + 2}`}
+            style={{ width: '100%', touchAction: 'none', userSelect: 'none' }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerDown={() => setSelectedId(null)}
+          >
+            {floorPlan && (
+              <image
+                href={floorPlan.original_image_url}
+                {...rectProps(imageFrame)}
+                preserveAspectRatio="none"
+                opacity={0.35}
+              />
+            )}
+            <polygon
+              points={plan.outline.map((p) => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke="#111827"
+              strokeWidth={0.15}
+            />
+            {plan.corridors.map((corridor, i) => (
+              <rect key={i} {...rectProps(corridor)} fill="#e5e7eb" opacity={0.6} />
+            ))}
+
+            {plan.rooms.map((room) => (
+              <g key={room.id} onPointerDown={(e) => startDrag(e, room, 'move')} style={{ cursor: 'move' }}>
+                <rect
+                  {...rectProps(room)}
+                  fill={ROOM_COLORS[room.type]}
+                  fillOpacity={0.85}
+                  stroke={conflicts.includes(room.id) ? '#c5221f' : '#374151'}
+                  strokeWidth={room.id === selectedId ? 0.15 : 0.06}
+                />
+                <text
+                  x={room.x + room.width / 2}
+                  y={room.y + room.height / 2}
+                  fontSize={0.45}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  pointerEvents="none"
+                >
+                  {roomLabel(room)}
+                </text>
+              </g>
+            ))}
+
+            {plan.deskClusters.map((cluster) => (
+              <g key={cluster.id} onPointerDown={(e) => startDrag(e, cluster, 'move')} style={{ cursor: 'move' }}>
+                <rect
+                  {...rectProps(cluster)}
+                  fill="#eef2ff"
+                  stroke={conflicts.includes(cluster.id) ? '#c5221f' : '#667eea'}
+                  strokeWidth={cluster.id === selectedId ? 0.15 : 0.06}
+                />
+                {clusterDesks(cluster).map((desk, i) => (
+                  <rect key={i} {...rectProps(desk)} fill="white" stroke="#667eea" strokeWidth={0.03} pointerEvents="none" />
+                ))}
+              </g>
+            ))}
+
+            {(plan.obstacles ?? []).map((obstacle, i) => (
+              <polygon
+                key={i}
+                points={obstacle.map((p) => `${p.x},${p.y}`).join(' ')}
+                fill={OBSTACLE_COLOR}
+                pointerEvents="none"
+              />
+            ))}
+            {(plan.openings ?? []).map((o, i) => (
+              <line
+                key={i}
+                x1={o.start.x}
+                y1={o.start.y}
+                x2={o.end.x}
+                y2={o.end.y}
+                stroke={OPENING_COLORS[o.type]}
+                strokeWidth={0.3}
+                pointerEvents="none"
+              />
+            ))}
+
+            {selected && (
+              <rect
+                x={selected.x + selected.width - 0.25}
+                y={selected.y + selected.height - 0.25}
+                width={0.5}
+                height={0.5}
+                fill="#667eea"
+                style={{ cursor: 'nwse-resize' }}
+                onPointerDown={(e) => startDrag(e, selected, 'resize')}
+              />
+            )}
+          </svg>
+          <p style={{ margin: '0.5rem 0 0 0', color: '#999', fontSize: '0.875rem' }}>
+            拖曳空間以移動，拖曳右下角控制點以調整大小（以 {GRID_SIZE} m 為單位）
+          </p>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+          <div style={{ background: 'white', padding: '1.5rem', borderRadius: '8px' }}>
+            <h3 style={{ marginTop: 0 }}>即時指標</h3>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+              {standards && (
+                <div>可行性評分：{scoreSolution(plan, summary, requirements, floorPlan?.floor_area_sqm ?? null, standards).score}/100</div>
+              )}
+              <div>工作站：{summary.workstations_placed} / {requirements.workstations} 個</div>
+              <div>空間利用率：{Math.round(summary.utilization_rate)}%</div>
+              {summary.daylight_score !== null && <div>採光評分：{summary.daylight_score}/100</div>}
+              {floorPlan && prices && <div>初期投入：{formatCurrency(estimateCost(plan, floorPlan, prices).capex)}</div>}
+              <div>{summary.constraints_met.workstations ? '✓' : '✗'} 工作站需求</div>
+              <div>{summary.constraints_met.meeting_rooms ? '✓' : '✗'} 會議室需求</div>
+              <div>{summary.constraints_met.amenities ? '✓' : '✗'} 設施需求</div>
+              {(requirements.custom_rooms ?? []).length > 0 && (
+                <div>{summary.constraints_met.custom_rooms ? '✓' : '✗'} 自訂空間需求</div>
+              )}
+              <div>{summary.constraints_met.adjacency ? '✓' : '✗'} 相鄰條件</div>
+              <div>{summary.constraints_met.zoning ? '✓' : '✗'} 分區條件</div>
+              {summary.adjacency_violations.map((violation) => (
+                <div key={`${violation.rule}-${violation.a}-${violation.b}`} style={{ color: '#b06000', fontSize: '0.9rem' }}>
+                  ⚠️ {describeViolation(violation, requirements.custom_rooms)}
+                </div>
+              ))}
+              {conflicts.length > 0 && (
+                <div style={{ color: '#c5221f' }}>⚠️ {conflicts.length} 個空間重疊、擋住走道或門口、或超出邊界</div>
+              )}
+            </div>
+          </div>
+
+          <div style={{ background: 'white', padding: '1.5rem', borderRadius: '8px' }}>
+            <h3 style={{ marginTop: 0 }}>選取的空間</h3>
+            {selected ? (
+              <div>
+                <p style={{ margin: '0 0 0.5rem 0' }}>
+                  <strong>{selectedCluster ? `工位區（${deskClusterSeats(selectedCluster)} 個工位）` : selectedRoom && roomLabel(selectedRoom)}</strong>
+                </p>
+                <p style={{ margin: '0 0 1rem 0', color: '#666' }}>
+                  {round1(selected.width)} m × {round1(selected.height)} m（{round1(rectArea(selected))} m²）
+                </p>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <button
+                    onClick={rotateSelected}
+                    style={{
+                      flex: 1,
+                      padding: '0.5rem',
+                      background: '#f1f3f4',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    旋轉 90°
+                  </button>
+                  <button
+                    onClick={deleteSelected}
+                    style={{
+                      flex: 1,
+                      padding: '0.5rem',
+                      background: '#fce8e6',
+                      color: '#c5221f',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    刪除
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p style={{ margin: 0, color: '#666' }}>點擊平面上的空間以選取</p>
+            )}
+          </div>
+
+          <div style={{ background: 'white', padding: '1.5rem', borderRadius: '8px' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+              修改說明
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="例：將大型會議室移至窗邊"
+              style={{
+                width: '100%',
+                padding: '0.75rem',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                fontSize: '1rem',
+                minHeight: '80px',
+                marginBottom: '1rem'
+              }}
+            />
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              style={{
+                width: '100%',
+                padding: '1rem',
+                background: saving ? '#ccc' : '#667eea',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: saving ? 'not-allowed' : 'pointer',
+                fontSize: '1rem',
+                fontWeight: 'bold'
+              }}
+            >
+              {saving ? '儲存中...' : '儲存為新版本'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function rectProps(rect: Rect) {
+  return { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+}
+
+function rotateRect<T extends Rect>(item: T): T {
+  const cx = item.x + item.width / 2;
+  const cy = item.y + item.height / 2;
+  return {
+    ...item,
+    x: snap(cx - item.height / 2),
+    y: snap(cy - item.width / 2),
+    width: item.height,
+    height: item.width
+  };
+}
@@ -1,33 +1,58 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
 import { FloorPlanUpload } from '../components/FloorPlanUpload';
 import { SpaceRequirements } from '../components/SpaceRequirements';
 import { LayoutSolutions } from '../components/LayoutSolutions';
+import { SpaceStandardsSettings } from '../components/SpaceStandardsSettings';
+import { PriceBookSettings } from '../components/PriceBookSettings';
+import { GrowthScenarios } from '../components/GrowthScenarios';
+import { StackingPlanner } from '../components/StackingPlanner';
+import { MemberManager } from '../components/MemberManager';
+import { CommentsPanel } from '../components/CommentsPanel';
+import { PresenceAvatars } from '../components/PresenceAvatars';
+import { ShareLinkManager } from '../components/ShareLinkManager';
+import type { FloorPlanDimensions } from '../utils/floorPlanDimensions';
+import type { FloorPlanMetadata } from '../utils/floorMetadata';
+import type { PresenceRoom, PresenceUser } from '../utils/realtime';
+import { joinProjectPresence, subscribeToRows } from '../utils/realtime';
+import type { Collaborator, MemberRole } from '../utils/workspaces';
+import { ROLE_LABELS, canEdit, collaboratorName, loadCollaborators, loadProjectRole } from '../utils/workspaces';
 
 interface Project {
   id: string;
+  workspace_id: string | null;
   name: string;
   description: string;
   status: string;
 }
 
-interface FloorPlan {
+interface FloorPlan extends FloorPlanMetadata {
   id: string;
   name: string;
   original_image_url: string;
   floor_area_sqm: number | null;
   usable_area_sqm: number | null;
+  dimensions_json: FloorPlanDimensions | null;
 }
 
 export function ProjectDetail() {
   const { projectId } = useParams();
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [project, setProject] = useState<Project | null>(null);
   const [floorPlans, setFloorPlans] = useState<FloorPlan[]>([]);
   const [selectedFloorPlan, setSelectedFloorPlan] = useState<FloorPlan | null>(null);
+  const [role, setRole] = useState<MemberRole | null>(null);
+  const [showSharing, setShowSharing] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [present, setPresent] = useState<PresenceUser[]>([]);
+  const presenceRef = useRef<PresenceRoom | null>(null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'upload' | 'requirements' | 'solutions'>('upload');
+  const [activeTab, setActiveTab] = useState<'upload' | 'requirements' | 'solutions' | 'standards' | 'scenarios' | 'stacking'>('upload');
 
   useEffect(() => {
     if (projectId) {
@@ -36,16 +61,42 @@ export function ProjectDetail() {
     }
   }, [projectId]);
 
+  useEffect(() => {
+    if (!projectId || !user) return;
+
+    const room = joinProjectPresence(projectId, user.id, setPresent);
+    presenceRef.current = room;
+    const unsubscribe = subscribeToRows<FloorPlan>('floor_plans', `project_id=eq.${projectId}`, handleFloorPlanChange);
+
+    return () => {
+      room.leave();
+      presenceRef.current = null;
+      unsubscribe();
+    };
+  }, [projectId, user?.id]);
+
+  useEffect(() => {
+    presenceRef.current?.setEditingRequirements(
+      activeTab === 'requirements' && selectedFloorPlan ? selectedFloorPlan.id : null
+    );
+  }, [activeTab, selectedFloorPlan?.id]);
+
   const loadProject = async () => {
     try {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('id', projectId)
-        .single();
+      const [{ data, error }, projectRole, projectCollaborators] = await Promise.all([
+        supabase
+          .from('projects')
+          .select('*')
+          .eq('id', projectId)
+          .single(),
+        loadProjectRole(projectId!),
+        loadCollaborators(projectId!)
+      ]);
 
       if (error) throw error;
       setProject(data);
+      setRole(projectRole);
+      setCollaborators(projectCollaborators);
     } catch (error) {
       console.error('Error loading project:', error);
     } finally {
@@ -71,12 +122,37 @@ export function ProjectDetail() {
     }
   };
 
+  // Floor plans others upload, calibrate or delete; our own changes arrive
+  // here too, so updates are matched by id.
+  const handleFloorPlanChange = (payload: RealtimePostgresChangesPayload<FloorPlan>) => {
+    if (payload.eventType === 'DELETE') {
+      setFloorPlans((current) => current.filter((fp) => fp.id !== payload.old.id));
+      setSelectedFloorPlan((selected) => (selected?.id === payload.old.id ? null : selected));
+      return;
+    }
+
+    const floorPlan = payload.new;
+    setFloorPlans((current) =>
+      current.some((fp) => fp.id === floorPlan.id)
+        ? current.map((fp) => (fp.id === floorPlan.id ? floorPlan : fp))
+        : [floorPlan, ...current]
+    );
+    setSelectedFloorPlan((selected) => (selected?.id === floorPlan.id ? floorPlan : selected ?? floorPlan));
+  };
+
   const handleFloorPlanUploaded = (floorPlan: FloorPlan) => {
-    setFloorPlans([floorPlan, ...floorPlans]);
+    setFloorPlans((current) => [floorPlan, ...current.filter((fp) => fp.id !== floorPlan.id)]);
     setSelectedFloorPlan(floorPlan);
     setActiveTab('requirements');
   };
 
+  const handleFloorPlanUpdated = (floorPlan: FloorPlan) => {
+    setFloorPlans(floorPlans.map((fp) => (fp.id === floorPlan.id ? floorPlan : fp)));
+    if (selectedFloorPlan?.id === floorPlan.id) {
+      setSelectedFloorPlan(floorPlan);
+    }
+  };
+
   if (loading) {
     return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
   }
@@ -85,6 +161,8 @@ export function ProjectDetail() {
     return <div style={{ padding: '2rem', textAlign: 'center' }}>找不到專案</div>;
   }
 
+  const readOnly = !canEdit(role);
+
   return (
     <div style={{ minHeight: '100vh', background: '#f5f7fa' }}>
       <nav style={{
@@ -110,9 +188,110 @@ export function ProjectDetail() {
           </button>
           <h1 style={{ margin: 0, color: '#333' }}>{project.name}</h1>
         </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+          <PresenceAvatars users={present} collaborators={collaborators} />
+          {role && <span style={{ color: '#666' }}>{ROLE_LABELS[role]}</span>}
+          <button
+            onClick={() => setShowSharing(!showSharing)}
+            style={{
+              padding: '0.5rem 1rem',
+              background: showSharing ? '#667eea' : '#f1f3f4',
+              color: showSharing ? 'white' : 'inherit',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            共享
+          </button>
+          <button
+            onClick={() => setShowComments(!showComments)}
+            style={{
+              padding: '0.5rem 1rem',
+              background: showComments ? '#667eea' : '#f1f3f4',
+              color: showComments ? 'white' : 'inherit',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            留言
+          </button>
+        </div>
       </nav>
 
+      {showComments && (
+        <aside style={{
+          position: 'fixed',
+          top: 0,
+          right: 0,
+          bottom: 0,
+          width: '420px',
+          background: 'white',
+          boxShadow: '-2px 0 8px rgba(0,0,0,0.15)',
+          overflowY: 'auto',
+          zIndex: 100
+        }}>
+          {selectedFloorPlan ? (
+            <CommentsPanel
+              projectId={project.id}
+              floorPlan={selectedFloorPlan}
+              canResolve={!readOnly}
+              canModerate={role === 'owner'}
+              onClose={() => setShowComments(false)}
+            />
+          ) : (
+            <div style={{ padding: '2rem', textAlign: 'center', color: '#666' }}>
+              請先上傳平面圖，才能在圖面上留言
+            </div>
+          )}
+        </aside>
+      )}
+
       <div style={{ maxWidth: '1400px', margin: '0 auto', padding: '2rem' }}>
+        {showSharing && (
+          <div style={{
+            background: 'white',
+            padding: '1.5rem',
+            borderRadius: '8px',
+            marginBottom: '1.5rem'
+          }}>
+            <h3 style={{ marginTop: 0 }}>共享專案</h3>
+            <p style={{ color: '#666', marginTop: 0 }}>
+              {project.workspace_id
+                ? '工作區成員依其工作區角色存取此專案；以下為另外個別共享的對象。'
+                : '以下為個別共享此專案的對象。'}
+            </p>
+            <MemberManager
+              target={{ kind: 'project', id: project.id }}
+              canManage={role === 'owner'}
+              onLeft={() => navigate('/projects')}
+            />
+            {!readOnly && (
+              <>
+                <h3>分享連結</h3>
+                <p style={{ color: '#666', marginTop: 0 }}>
+                  持有連結的人不需登入即可檢視配置方案，但無法修改。單一方案的連結可在配置方案中建立。
+                </p>
+                <ShareLinkManager projectId={project.id} />
+              </>
+            )}
+          </div>
+        )}
+
+        {readOnly && (
+          <p style={{
+            background: '#fef3c7',
+            color: '#92400e',
+            padding: '1rem',
+            borderRadius: '8px',
+            marginTop: 0,
+            marginBottom: '1.5rem'
+          }}>
+            您只有檢視權限，無法修改此專案。
+          </p>
+        )}
+
         {project.description && (
           <p style={{
             background: 'white',
@@ -143,39 +322,88 @@ export function ProjectDetail() {
               fontSize: '1rem'
             }}
           >
-            上傳平面圖
+            {readOnly ? '平面圖' : '上傳平面圖'}
           </button>
+          {!readOnly && (
+            <button
+              onClick={() => setActiveTab('requirements')}
+              disabled={!selectedFloorPlan}
+              style={{
+                padding: '1rem 2rem',
+                background: 'none',
+                border: 'none',
+                borderBottom: activeTab === 'requirements' ? '3px solid #667eea' : '3px solid transparent',
+                color: !selectedFloorPlan ? '#ccc' : (activeTab === 'requirements' ? '#667eea' : '#666'),
+                cursor: selectedFloorPlan ? 'pointer' : 'not-allowed',
+                fontWeight: activeTab === 'requirements' ? 'bold' : 'normal',
+                fontSize: '1rem'
+              }}
+            >
+              空間需求
+            </button>
+          )}
           <button
-            onClick={() => setActiveTab('requirements')}
+            onClick={() => setActiveTab('solutions')}
             disabled={!selectedFloorPlan}
             style={{
               padding: '1rem 2rem',
               background: 'none',
               border: 'none',
-              borderBottom: activeTab === 'requirements' ? '3px solid #667eea' : '3px solid transparent',
-              color: !selectedFloorPlan ? '#ccc' : (activeTab === 'requirements' ? '#667eea' : '#666'),
+              borderBottom: activeTab === 'solutions' ? '3px solid #667eea' : '3px solid transparent',
+              color: !selectedFloorPlan ? '#ccc' : (activeTab === 'solutions' ? '#667eea' : '#666'),
               cursor: selectedFloorPlan ? 'pointer' : 'not-allowed',
-              fontWeight: activeTab === 'requirements' ? 'bold' : 'normal',
+              fontWeight: activeTab === 'solutions' ? 'bold' : 'normal',
               fontSize: '1rem'
             }}
           >
-            空間需求
+            配置方案
           </button>
+          {!readOnly && (
+            <button
+              onClick={() => setActiveTab('standards')}
+              style={{
+                padding: '1rem 2rem',
+                background: 'none',
+                border: 'none',
+                borderBottom: activeTab === 'standards' ? '3px solid #667eea' : '3px solid transparent',
+                color: activeTab === 'standards' ? '#667eea' : '#666',
+                cursor: 'pointer',
+                fontWeight: activeTab === 'standards' ? 'bold' : 'normal',
+                fontSize: '1rem'
+              }}
+            >
+              空間標準
+            </button>
+          )}
           <button
-            onClick={() => setActiveTab('solutions')}
-            disabled={!selectedFloorPlan}
+            onClick={() => setActiveTab('scenarios')}
             style={{
               padding: '1rem 2rem',
               background: 'none',
               border: 'none',
-              borderBottom: activeTab === 'solutions' ? '3px solid #667eea' : '3px solid transparent',
-              color: !selectedFloorPlan ? '#ccc' : (activeTab === 'solutions' ? '#667eea' : '#666'),
-              cursor: selectedFloorPlan ? 'pointer' : 'not-allowed',
-              fontWeight: activeTab === 'solutions' ? 'bold' : 'normal',
+              borderBottom: activeTab === 'scenarios' ? '3px solid #667eea' : '3px solid transparent',
+              color: activeTab === 'scenarios' ? '#667eea' : '#666',
+              cursor: 'pointer',
+              fontWeight: activeTab === 'scenarios' ? 'bold' : 'normal',
               fontSize: '1rem'
             }}
           >
-            配置方案
+            成長情境
+          </button>
+          <button
+            onClick={() => setActiveTab('stacking')}
+            style={{
+              padding: '1rem 2rem',
+              background: 'none',
+              border: 'none',
+              borderBottom: activeTab === 'stacking' ? '3px solid #667eea' : '3px solid transparent',
+              color: activeTab === 'stacking' ? '#667eea' : '#666',
+              cursor: 'pointer',
+              fontWeight: activeTab === 'stacking' ? 'bold' : 'normal',
+              fontSize: '1rem'
+            }}
+          >
+            堆疊規劃
           </button>
         </div>
 
@@ -183,9 +411,11 @@ export function ProjectDetail() {
           <FloorPlanUpload
             projectId={projectId!}
             onFloorPlanUploaded={handleFloorPlanUploaded}
+            onFloorPlanUpdated={handleFloorPlanUpdated}
             floorPlans={floorPlans}
             onSelectFloorPlan={setSelectedFloorPlan}
             selectedFloorPlan={selectedFloorPlan}
+            readOnly={readOnly}
           />
         )}
 
@@ -194,14 +424,37 @@ export function ProjectDetail() {
             projectId={projectId!}
             floorPlan={selectedFloorPlan}
             onComplete={() => setActiveTab('solutions')}
+            otherEditors={present
+              .filter((presence) => presence.editing_requirements === selectedFloorPlan.id)
+              .map((presence) => {
+                const collaborator = collaborators.find((c) => c.user_id === presence.user_id);
+                return collaborator ? collaboratorName(collaborator) : '其他成員';
+              })}
           />
         )}
 
         {activeTab === 'solutions' && selectedFloorPlan && (
           <LayoutSolutions
+            projectId={projectId!}
             floorPlan={selectedFloorPlan}
+            readOnly={readOnly}
           />
         )}
+
+        {activeTab === 'standards' && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '2rem' }}>
+            <SpaceStandardsSettings projectId={projectId!} />
+            <PriceBookSettings projectId={projectId!} />
+          </div>
+        )}
+
+        {activeTab === 'scenarios' && (
+          <GrowthScenarios projectId={projectId!} floorPlans={floorPlans} />
+        )}
+
+        {activeTab === 'stacking' && (
+          <StackingPlanner projectId={projectId!} floorPlans={floorPlans} />
+        )}
       </div>
     </div>
   );
@@ -2,22 +2,67 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { MemberManager } from '../components/MemberManager';
+import type { ProjectStatus } from '../utils/projects';
+import { STATUS_LABELS, deleteProject, duplicateProject, projectRoleOf, updateProject } from '../utils/projects';
+import type { MemberRole, Workspace } from '../utils/workspaces';
+import { ROLE_LABELS, acceptInvitations, canEdit, createWorkspace, loadProjectShares, loadWorkspaces } from '../utils/workspaces';
 
 interface Project {
   id: string;
+  user_id: string;
+  workspace_id: string | null;
   name: string;
   description: string;
-  status: string;
+  status: ProjectStatus;
   created_at: string;
   updated_at: string;
 }
 
+// Which projects the list shows: everything, personal projects, projects
+// shared with the user one by one, or one workspace by id.
+type Scope = 'all' | 'personal' | 'shared' | string;
+
+const overlayStyle = {
+  position: 'fixed' as const,
+  top: 0,
+  left: 0,
+  right: 0,
+  bottom: 0,
+  background: 'rgba(0,0,0,0.5)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: 1000
+};
+
+const modalStyle = {
+  background: 'white',
+  padding: '2rem',
+  borderRadius: '8px',
+  width: '100%',
+  maxWidth: '500px'
+};
+
 export function Projects() {
   const [projects, setProjects] = useState<Project[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [scope, setScope] = useState<Scope>('all');
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newProjectName, setNewProjectName] = useState('');
   const [newProjectDesc, setNewProjectDesc] = useState('');
+  const [newProjectWorkspace, setNewProjectWorkspace] = useState('');
+  const [showWorkspaceModal, setShowWorkspaceModal] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [showMembers, setShowMembers] = useState(false);
+  const [shares, setShares] = useState<Record<string, MemberRole>>({});
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editDesc, setEditDesc] = useState('');
+  const [editStatus, setEditStatus] = useState<ProjectStatus>('draft');
+  const [busy, setBusy] = useState(false);
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
 
@@ -28,14 +73,26 @@ export function Projects() {
   }, [user]);
 
   const loadProjects = async () => {
+    if (!user) return;
+
     try {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('*')
-        .order('updated_at', { ascending: false });
+      // Pending invitations become memberships first so their projects show
+      // up in the same load.
+      await acceptInvitations();
+
+      const [{ data, error }, loadedWorkspaces, loadedShares] = await Promise.all([
+        supabase
+          .from('projects')
+          .select('*')
+          .order('updated_at', { ascending: false }),
+        loadWorkspaces(user.id),
+        loadProjectShares(user.id)
+      ]);
 
       if (error) throw error;
       setProjects(data || []);
+      setWorkspaces(loadedWorkspaces);
+      setShares(loadedShares);
     } catch (error) {
       console.error('Error loading projects:', error);
     } finally {
@@ -51,6 +108,7 @@ export function Projects() {
         .from('projects')
         .insert({
           user_id: user.id,
+          workspace_id: newProjectWorkspace || null,
           name: newProjectName,
           description: newProjectDesc,
           status: 'draft',
@@ -70,6 +128,157 @@ export function Projects() {
     }
   };
 
+  const openCreateModal = () => {
+    const workspace = workspaces.find((w) => w.id === scope);
+    setNewProjectWorkspace(workspace && canEdit(workspace.role) ? workspace.id : '');
+    setShowCreateModal(true);
+  };
+
+  const handleCreateWorkspace = async () => {
+    if (!user || !newWorkspaceName.trim()) return;
+
+    try {
+      const workspace = await createWorkspace(newWorkspaceName.trim(), user.id);
+      setWorkspaces([...workspaces, workspace]);
+      setScope(workspace.id);
+      setShowWorkspaceModal(false);
+      setNewWorkspaceName('');
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      alert('建立工作區失敗，請稍後再試');
+    }
+  };
+
+  const openSettings = (project: Project) => {
+    setEditingProject(project);
+    setEditName(project.name);
+    setEditDesc(project.description);
+    setEditStatus(project.status);
+  };
+
+  const replaceProject = (updated: Project) => {
+    setProjects(projects.map((p) => (p.id === updated.id ? updated : p)));
+  };
+
+  const saveSettings = async () => {
+    if (!editingProject || !editName.trim()) return;
+
+    setBusy(true);
+    try {
+      replaceProject(await updateProject<Project>(editingProject.id, {
+        name: editName.trim(),
+        description: editDesc,
+        status: editStatus
+      }));
+      setEditingProject(null);
+    } catch (error) {
+      console.error('Error updating project:', error);
+      alert('儲存失敗，請稍後再試');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Unarchived projects go back to in progress.
+  const setArchived = async (project: Project, archived: boolean) => {
+    setBusy(true);
+    try {
+      replaceProject(await updateProject<Project>(project.id, { status: archived ? 'archived' : 'active' }));
+      setEditingProject(null);
+    } catch (error) {
+      console.error('Error archiving project:', error);
+      alert('更新狀態失敗，請稍後再試');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDuplicate = async (project: Project) => {
+    const name = prompt('新專案名稱', `${project.name}（副本）`);
+    if (!name?.trim()) return;
+
+    setBusy(true);
+    try {
+      await duplicateProject(project.id, name.trim());
+      setEditingProject(null);
+      alert('專案已複製！');
+    } catch (error) {
+      console.error('Error duplicating project:', error);
+      alert('複製專案失敗，請稍後再試');
+    } finally {
+      setBusy(false);
+      loadProjects();
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    const typed = prompt(`刪除後無法復原，專案內的平面圖、需求、方案與所有檔案都會一併刪除。\n請輸入專案名稱「${project.name}」以確認刪除：`);
+    if (typed === null) return;
+    if (typed !== project.name) {
+      alert('專案名稱不符，未刪除專案');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await deleteProject(project.id);
+      setProjects(projects.filter((p) => p.id !== project.id));
+      setEditingProject(null);
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      alert('刪除專案失敗，請稍後再試');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLeftWorkspace = () => {
+    setShowMembers(false);
+    setScope('all');
+    loadProjects();
+  };
+
+  const isShared = (project: Project) =>
+    project.user_id !== user?.id && !workspaces.some((w) => w.id === project.workspace_id);
+
+  const roleOf = (project: Project) => (user ? projectRoleOf(project, user.id, workspaces, shares[project.id]) : null);
+
+  const editingRole = editingProject ? roleOf(editingProject) : null;
+
+  const visibleProjects = projects.filter((project) => {
+    if (!showArchived && project.status === 'archived') return false;
+    switch (scope) {
+      case 'all':
+        return true;
+      case 'personal':
+        return !project.workspace_id && project.user_id === user?.id;
+      case 'shared':
+        return isShared(project);
+      default:
+        return project.workspace_id === scope;
+    }
+  });
+
+  const currentWorkspace = workspaces.find((w) => w.id === scope) ?? null;
+  const workspaceName = (project: Project) => workspaces.find((w) => w.id === project.workspace_id)?.name;
+
+  const scopeButton = (value: Scope, label: string) => (
+    <button
+      key={value}
+      onClick={() => setScope(value)}
+      style={{
+        padding: '0.5rem 1rem',
+        background: scope === value ? '#667eea' : 'white',
+        color: scope === value ? 'white' : '#333',
+        border: '1px solid #ddd',
+        borderRadius: '999px',
+        cursor: 'pointer'
+      }}
+    >
+      {label}
+    </button>
+  );
+
   const handleSignOut = async () => {
     await signOut();
     navigate('/login');
@@ -106,9 +315,9 @@ export function Projects() {
 
       <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '2rem' }}>
-          <h2 style={{ margin: 0 }}>我的專案</h2>
+          <h2 style={{ margin: 0 }}>專案</h2>
           <button
-            onClick={() => setShowCreateModal(true)}
+            onClick={openCreateModal}
             style={{
               padding: '0.75rem 1.5rem',
               background: '#667eea',
@@ -123,7 +332,56 @@ export function Projects() {
           </button>
         </div>
 
-        {projects.length === 0 ? (
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', marginBottom: '1.5rem' }}>
+          {scopeButton('all', '全部')}
+          {scopeButton('personal', '個人')}
+          {workspaces.map((workspace) => scopeButton(workspace.id, workspace.name))}
+          {projects.some(isShared) && scopeButton('shared', '與我共用')}
+          <button
+            onClick={() => setShowWorkspaceModal(true)}
+            style={{
+              padding: '0.5rem 1rem',
+              background: 'white',
+              border: '1px dashed #999',
+              borderRadius: '999px',
+              cursor: 'pointer'
+            }}
+          >
+            ＋ 新增工作區
+          </button>
+          {currentWorkspace && (
+            <button
+              onClick={() => setShowMembers(true)}
+              style={{
+                marginLeft: 'auto',
+                padding: '0.5rem 1rem',
+                background: '#f1f3f4',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              成員（{ROLE_LABELS[currentWorkspace.role]}）
+            </button>
+          )}
+          <label style={{
+            marginLeft: currentWorkspace ? 0 : 'auto',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.25rem',
+            fontSize: '0.9rem',
+            color: '#666'
+          }}>
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+            />
+            顯示已封存
+          </label>
+        </div>
+
+        {visibleProjects.length === 0 ? (
           <div style={{
             background: 'white',
             padding: '3rem',
@@ -140,7 +398,7 @@ export function Projects() {
             gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
             gap: '1.5rem'
           }}>
-            {projects.map((project) => (
+            {visibleProjects.map((project) => (
               <div
                 key={project.id}
                 onClick={() => navigate(`/projects/${project.id}`)}
@@ -150,6 +408,7 @@ export function Projects() {
                   borderRadius: '8px',
                   boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
                   cursor: 'pointer',
+                  opacity: project.status === 'archived' ? 0.7 : 1,
                   transition: 'transform 0.2s, box-shadow 0.2s'
                 }}
                 onMouseEnter={(e) => {
@@ -161,19 +420,65 @@ export function Projects() {
                   e.currentTarget.style.boxShadow = '0 2px 4px rgba(0,0,0,0.1)';
                 }}
               >
-                <h3 style={{ margin: '0 0 0.5rem 0' }}>{project.name}</h3>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '0.5rem' }}>
+                  <h3 style={{ margin: '0 0 0.5rem 0' }}>{project.name}</h3>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      openSettings(project);
+                    }}
+                    title="專案設定"
+                    style={{
+                      padding: '0.125rem 0.5rem',
+                      background: 'none',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                      fontSize: '1.25rem',
+                      color: '#666'
+                    }}
+                  >
+                    ⋯
+                  </button>
+                </div>
+                {(workspaceName(project) || isShared(project)) && (
+                  <div style={{ fontSize: '0.85rem', color: '#667eea', marginBottom: '0.5rem' }}>
+                    {workspaceName(project) ?? '與我共用'}
+                  </div>
+                )}
                 <p style={{ color: '#666', margin: '0 0 1rem 0' }}>
                   {project.description || '無描述'}
                 </p>
-                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.875rem', color: '#999' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.875rem', color: '#999' }}>
                   <span>{new Date(project.created_at).toLocaleDateString('zh-TW')}</span>
-                  <span style={{
-                    padding: '0.25rem 0.5rem',
-                    background: project.status === 'active' ? '#e6f4ea' : '#f1f3f4',
-                    color: project.status === 'active' ? '#1e7e34' : '#666',
-                    borderRadius: '4px'
-                  }}>
-                    {project.status === 'draft' ? '草稿' : project.status === 'active' ? '進行中' : '已封存'}
+                  <span style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    {project.status === 'archived' && canEdit(roleOf(project)) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setArchived(project, false);
+                        }}
+                        disabled={busy}
+                        style={{
+                          padding: '0.25rem 0.5rem',
+                          background: 'white',
+                          border: '1px solid #ddd',
+                          borderRadius: '4px',
+                          cursor: 'pointer',
+                          fontSize: '0.8rem'
+                        }}
+                      >
+                        取消封存
+                      </button>
+                    )}
+                    <span style={{
+                      padding: '0.25rem 0.5rem',
+                      background: project.status === 'active' ? '#e6f4ea' : '#f1f3f4',
+                      color: project.status === 'active' ? '#1e7e34' : '#666',
+                      borderRadius: '4px'
+                    }}>
+                      {STATUS_LABELS[project.status]}
+                    </span>
                   </span>
                 </div>
               </div>
@@ -183,25 +488,8 @@ export function Projects() {
       </div>
 
       {showCreateModal && (
-        <div style={{
-          position: 'fixed',
-          top: 0,
-          left: 0,
-          right: 0,
-          bottom: 0,
-          background: 'rgba(0,0,0,0.5)',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          zIndex: 1000
-        }}>
-          <div style={{
-            background: 'white',
-            padding: '2rem',
-            borderRadius: '8px',
-            width: '100%',
-            maxWidth: '500px'
-          }}>
+        <div style={overlayStyle}>
+          <div style={modalStyle}>
             <h2 style={{ marginTop: 0 }}>新增專案</h2>
             <div style={{ marginBottom: '1rem' }}>
               <label style={{ display: 'block', marginBottom: '0.5rem' }}>專案名稱</label>
@@ -219,6 +507,25 @@ export function Projects() {
                 placeholder="例：新辦公室規劃"
               />
             </div>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem' }}>工作區</label>
+              <select
+                value={newProjectWorkspace}
+                onChange={(e) => setNewProjectWorkspace(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  fontSize: '1rem'
+                }}
+              >
+                <option value="">個人專案</option>
+                {workspaces.filter((w) => canEdit(w.role)).map((workspace) => (
+                  <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                ))}
+              </select>
+            </div>
             <div style={{ marginBottom: '1.5rem' }}>
               <label style={{ display: 'block', marginBottom: '0.5rem' }}>專案描述</label>
               <textarea
@@ -270,6 +577,230 @@ export function Projects() {
           </div>
         </div>
       )}
+
+      {editingProject && (
+        <div style={overlayStyle}>
+          <div style={modalStyle}>
+            <h2 style={{ marginTop: 0 }}>專案設定</h2>
+            {!canEdit(editingRole) && (
+              <p style={{ color: '#666', marginTop: 0 }}>您只有檢視權限，無法修改此專案。</p>
+            )}
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem' }}>專案名稱</label>
+              <input
+                type="text"
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+                disabled={!canEdit(editingRole)}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  fontSize: '1rem'
+                }}
+              />
+            </div>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem' }}>狀態</label>
+              <select
+                value={editStatus}
+                onChange={(e) => setEditStatus(e.target.value as ProjectStatus)}
+                disabled={!canEdit(editingRole)}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  fontSize: '1rem'
+                }}
+              >
+                {(Object.keys(STATUS_LABELS) as ProjectStatus[]).map((status) => (
+                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ marginBottom: '1.5rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem' }}>專案描述</label>
+              <textarea
+                value={editDesc}
+                onChange={(e) => setEditDesc(e.target.value)}
+                disabled={!canEdit(editingRole)}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  fontSize: '1rem',
+                  minHeight: '100px'
+                }}
+              />
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '1.5rem' }}>
+              {canEdit(editingRole) && (
+                <button
+                  onClick={() => setArchived(editingProject, editingProject.status !== 'archived')}
+                  disabled={busy}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    background: 'white',
+                    border: '1px solid #ddd',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {editingProject.status === 'archived' ? '取消封存' : '封存專案'}
+                </button>
+              )}
+              {canEdit(editingRole) && (
+                <button
+                  onClick={() => handleDuplicate(editingProject)}
+                  disabled={busy}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    background: 'white',
+                    border: '1px solid #ddd',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  複製專案
+                </button>
+              )}
+              {editingRole === 'owner' && (
+                <button
+                  onClick={() => handleDelete(editingProject)}
+                  disabled={busy}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    background: 'white',
+                    color: '#c5221f',
+                    border: '1px solid #c5221f',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  刪除專案
+                </button>
+              )}
+            </div>
+            <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
+              <button
+                onClick={() => setEditingProject(null)}
+                style={{
+                  padding: '0.75rem 1.5rem',
+                  background: '#f1f3f4',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              >
+                {canEdit(editingRole) ? '取消' : '關閉'}
+              </button>
+              {canEdit(editingRole) && (
+                <button
+                  onClick={saveSettings}
+                  disabled={busy || !editName.trim()}
+                  style={{
+                    padding: '0.75rem 1.5rem',
+                    background: !busy && editName.trim() ? '#667eea' : '#ccc',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: !busy && editName.trim() ? 'pointer' : 'not-allowed'
+                  }}
+                >
+                  {busy ? '處理中...' : '儲存'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showWorkspaceModal && (
+        <div style={overlayStyle}>
+          <div style={modalStyle}>
+            <h2 style={{ marginTop: 0 }}>新增工作區</h2>
+            <p style={{ color: '#666', marginTop: 0 }}>工作區內的專案由所有成員依角色共同存取，建立後可邀請成員。</p>
+            <input
+              type="text"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              placeholder="例：顧問團隊"
+              style={{
+                width: '100%',
+                padding: '0.75rem',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                fontSize: '1rem',
+                marginBottom: '1.5rem'
+              }}
+            />
+            <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
+              <button
+                onClick={() => {
+                  setShowWorkspaceModal(false);
+                  setNewWorkspaceName('');
+                }}
+                style={{
+                  padding: '0.75rem 1.5rem',
+                  background: '#f1f3f4',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              >
+                取消
+              </button>
+              <button
+                onClick={handleCreateWorkspace}
+                disabled={!newWorkspaceName.trim()}
+                style={{
+                  padding: '0.75rem 1.5rem',
+                  background: newWorkspaceName.trim() ? '#667eea' : '#ccc',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: newWorkspaceName.trim() ? 'pointer' : 'not-allowed'
+                }}
+              >
+                建立
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showMembers && currentWorkspace && (
+        <div style={overlayStyle}>
+          <div style={modalStyle}>
+            <h2 style={{ marginTop: 0 }}>{currentWorkspace.name} 的成員</h2>
+            <p style={{ color: '#666', marginTop: 0 }}>
+              擁有者可管理成員與刪除專案，編輯者可修改工作區內的專案，檢視者只能查看。
+            </p>
+            <MemberManager
+              target={{ kind: 'workspace', id: currentWorkspace.id }}
+              canManage={currentWorkspace.role === 'owner'}
+              onLeft={handleLeftWorkspace}
+            />
+            <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+              <button
+                onClick={() => setShowMembers(false)}
+                style={{
+                  padding: '0.75rem 1.5rem',
+                  background: '#f1f3f4',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              >
+                關閉
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { LayoutSolutions } from '../components/LayoutSolutions';
+import { floorPlanTitle } from '../utils/floorMetadata';
+import type { SharedLayouts } from '../utils/shareLinks';
+import { loadSharedLayouts } from '../utils/shareLinks';
+
+export function SharedLayout() {
+  const { token } = useParams();
+  const [shared, setShared] = useState<SharedLayouts | null>(null);
+  const [selectedFloorPlanId, setSelectedFloorPlanId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (token) {
+      loadShared();
+    }
+  }, [token]);
+
+  const loadShared = async () => {
+    try {
+      const data = await loadSharedLayouts(token!);
+      setShared(data);
+      setSelectedFloorPlanId(data?.floor_plans[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading shared layouts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>載入中...</div>;
+  }
+
+  if (!shared) {
+    return (
+      <div style={{ padding: '4rem 2rem', textAlign: 'center' }}>
+        <h2>連結無效或已過期</h2>
+        <p style={{ color: '#666' }}>請向分享此連結的人索取新的連結。</p>
+      </div>
+    );
+  }
+
+  const floorPlan = shared.floor_plans.find((fp) => fp.id === selectedFloorPlanId);
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#f5f7fa' }}>
+      <nav style={{
+        background: 'white',
+        padding: '1rem 2rem',
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <h1 style={{ margin: 0, color: '#333' }}>{shared.project.name}</h1>
+        <span style={{ color: '#666' }}>
+          唯讀分享・有效至 {new Date(shared.expires_at).toLocaleDateString('zh-TW')}
+        </span>
+      </nav>
+
+      <div style={{ maxWidth: '1400px', margin: '0 auto', padding: '2rem' }}>
+        {shared.project.description && (
+          <p style={{
+            background: 'white',
+            padding: '1rem',
+            borderRadius: '8px',
+            marginTop: 0,
+            marginBottom: '1.5rem'
+          }}>
+            {shared.project.description}
+          </p>
+        )}
+
+        {shared.floor_plans.length > 1 && (
+          <div style={{
+            display: 'flex',
+            gap: '1rem',
+            marginBottom: '2rem',
+            borderBottom: '2px solid #e0e0e0'
+          }}>
+            {shared.floor_plans.map((fp) => (
+              <button
+                key={fp.id}
+                onClick={() => setSelectedFloorPlanId(fp.id)}
+                style={{
+                  padding: '1rem 2rem',
+                  background: 'none',
+                  border: 'none',
+                  borderBottom: fp.id === selectedFloorPlanId ? '3px solid #667eea' : '3px solid transparent',
+                  color: fp.id === selectedFloorPlanId ? '#667eea' : '#666',
+                  cursor: 'pointer',
+                  fontWeight: fp.id === selectedFloorPlanId ? 'bold' : 'normal',
+                  fontSize: '1rem'
+                }}
+              >
+                {floorPlanTitle(fp)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!floorPlan ? (
+          <div style={{
+            background: 'white',
+            padding: '3rem',
+            borderRadius: '8px',
+            textAlign: 'center'
+          }}>
+            <h3>此專案尚無平面圖</h3>
+          </div>
+        ) : (
+          <>
+            <div style={{
+              background: 'white',
+              padding: '2rem',
+              borderRadius: '8px',
+              marginBottom: '2rem'
+            }}>
+              <h2 style={{ marginTop: 0 }}>平面圖：{floorPlanTitle(floorPlan)}</h2>
+              <img
+                src={floorPlan.original_image_url}
+                alt={floorPlan.name}
+                style={{
+                  width: '100%',
+                  maxHeight: '400px',
+                  objectFit: 'contain',
+                  background: '#fafafa',
+                  border: '1px solid #e0e0e0',
+                  borderRadius: '4px'
+                }}
+              />
+              {floorPlan.floor_area_sqm && (
+                <p style={{ margin: '1rem 0 0 0', color: '#666' }}>總面積：{floorPlan.floor_area_sqm} m²</p>
+              )}
+            </div>
+
+            <LayoutSolutions
+              key={floorPlan.id}
+              projectId={shared.project.id}
+              floorPlan={{ ...floorPlan, rent_per_sqm: null, lease_start: null, lease_end: null, core_factor: null }}
+              readOnly
+              shared={{ requirement: floorPlan.requirement, solutions: floorPlan.solutions, standards: shared.standards }}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
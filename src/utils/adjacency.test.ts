@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ADJACENT_GAP, APART_DISTANCE, effectiveRules, findAdjacencyViolations, placementCost, relationCost } from './adjacency';
+import type { LayoutPlan, LayoutRequirements, PlacedRoom } from './layoutEngine';
+import { defaultOutline, generateLayout, summarizeLayout } from './layoutEngine';
+
+const requirements = (changes: Partial<LayoutRequirements> = {}): LayoutRequirements => ({
+  workstations: 0,
+  meeting_rooms_small: 0,
+  meeting_rooms_medium: 0,
+  meeting_rooms_large: 0,
+  phone_booths: 0,
+  breakout_areas: 0,
+  kitchen_pantry: false,
+  reception_area: false,
+  storage_rooms: 0,
+  server_room: false,
+  ...changes
+});
+
+const room = (id: string, type: PlacedRoom['type'], x: number, y = 0): PlacedRoom => ({ id, type, x, y, width: 4, height: 4 });
+
+const plan = (rooms: PlacedRoom[]): LayoutPlan => ({
+  outline: defaultOutline(1000),
+  corridors: [],
+  rooms,
+  deskClusters: []
+});
+
+describe('effectiveRules', () => {
+  it('adds the adjacency picks of custom rooms as near rules unless a rule covers the pair', () => {
+    const rules = effectiveRules(requirements({
+      adjacency_rules: [{ a: 'kitchen', b: 'lab', relation: 'apart' }],
+      custom_rooms: [{ id: 'lab', name: '實驗室', area: 20, count: 1, capacity: 4, adjacent_to: ['kitchen', 'storage', 'lab'] }]
+    }));
+
+    expect(rules).toEqual([
+      { a: 'kitchen', b: 'lab', relation: 'apart' },
+      { a: 'lab', b: 'storage', relation: 'near' }
+    ]);
+  });
+});
+
+describe('relationCost', () => {
+  it('is zero when the gap satisfies the relation', () => {
+    expect(relationCost('adjacent', ADJACENT_GAP)).toBe(0);
+    expect(relationCost('apart', APART_DISTANCE)).toBe(0);
+    expect(relationCost('adjacent', ADJACENT_GAP + 2)).toBeCloseTo(2);
+    expect(relationCost('apart', APART_DISTANCE - 3)).toBeCloseTo(3);
+  });
+});
+
+describe('placementCost', () => {
+  it('prefers spots next to the partner of an adjacent rule', () => {
+    const placed = [room('room-0', 'kitchen', 0)];
+    const rules = [{ a: 'kitchen', b: 'breakout', relation: 'adjacent' as const }];
+    const near = placementCost('breakout', { x: 5, y: 0, width: 4, height: 4 }, rules, {}, placed);
+    const far = placementCost('breakout', { x: 20, y: 0, width: 4, height: 4 }, rules, {}, placed);
+
+    expect(near).toBe(0);
+    expect(far).toBeGreaterThan(near);
+  });
+});
+
+describe('findAdjacencyViolations', () => {
+  it('reports rules and zones that are not met', () => {
+    const req = requirements({
+      adjacency_rules: [
+        { a: 'kitchen', b: 'breakout', relation: 'adjacent' },
+        { a: 'kitchen', b: 'server_room', relation: 'apart' }
+      ],
+      zones: { meeting_small: 'quiet', breakout: 'loud' }
+    });
+    const violations = findAdjacencyViolations(plan([
+      room('room-0', 'kitchen', 0),
+      room('room-1', 'server_room', 5),
+      room('room-2', 'breakout', 20),
+      room('room-3', 'meeting_small', 25)
+    ]), req);
+
+    expect(violations).toEqual([
+      { rule: 'adjacent', a: 'kitchen', b: 'breakout' },
+      { rule: 'apart', a: 'kitchen', b: 'server_room' },
+      { rule: 'zone', a: 'meeting_small', b: 'breakout' }
+    ]);
+  });
+
+  it('leaves rules for rooms that were not placed to the count constraints', () => {
+    const req = requirements({ adjacency_rules: [{ a: 'kitchen', b: 'reception', relation: 'adjacent' }] });
+
+    expect(findAdjacencyViolations(plan([room('room-0', 'kitchen', 0)]), req)).toEqual([]);
+  });
+
+  it('is satisfied by the generator for a rule it can meet', () => {
+    const req = requirements({
+      workstations: 20,
+      kitchen_pantry: true,
+      breakout_areas: 1,
+      adjacency_rules: [{ a: 'kitchen', b: 'breakout', relation: 'adjacent' }]
+    });
+    const summary = summarizeLayout(generateLayout(defaultOutline(600), req), req);
+
+    expect(summary.adjacency_violations).toEqual([]);
+    expect(summary.constraints_met.adjacency).toBe(true);
+  });
+});
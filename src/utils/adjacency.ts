@@ -0,0 +1,128 @@
+import type { Rect } from './geometry';
+import { rectGap } from './geometry';
+import type {
+  AdjacencyRule,
+  AdjacencyViolation,
+  LayoutPlan,
+  LayoutRequirements,
+  PlacedRoom,
+  Zone
+} from './layoutEngine';
+
+// Zones can also be set for the open workspace as a whole.
+export const WORKSTATIONS_KEY = 'workstations';
+
+// Gaps between room edges, in meters. Rooms facing each other across a
+// corridor still count as adjacent.
+export const ADJACENT_GAP = 1.5;
+export const NEAR_DISTANCE = 6;
+export const APART_DISTANCE = 8;
+// Quiet and loud spaces may not be closer than this.
+export const ZONE_BUFFER = 2;
+
+// Rules and zones refer to rooms by built-in type or custom room id.
+export function roomKey(room: Pick<PlacedRoom, 'type' | 'customRoomId'>): string {
+  return room.type === 'custom' ? room.customRoomId ?? 'custom' : room.type;
+}
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+// Explicit rules plus the "希望鄰近" picks of custom rooms as prefer-near
+// rules; an explicit rule for the same pair wins.
+export function effectiveRules(req: LayoutRequirements): AdjacencyRule[] {
+  const rules = (req.adjacency_rules ?? []).filter((rule) => rule.a !== rule.b);
+  const seen = new Set(rules.map((rule) => pairKey(rule.a, rule.b)));
+
+  (req.custom_rooms ?? []).forEach((custom) => {
+    custom.adjacent_to.forEach((target) => {
+      const key = pairKey(custom.id, target);
+      if (target === custom.id || seen.has(key)) return;
+      seen.add(key);
+      rules.push({ a: custom.id, b: target, relation: 'near' });
+    });
+  });
+
+  return rules;
+}
+
+// How far a gap is from satisfying a rule; 0 when it is satisfied.
+export function relationCost(relation: AdjacencyRule['relation'], gap: number): number {
+  switch (relation) {
+    case 'adjacent':
+      return Math.max(0, gap - ADJACENT_GAP);
+    case 'near':
+      return Math.max(0, gap - NEAR_DISTANCE);
+    case 'apart':
+      return Math.max(0, APART_DISTANCE - gap);
+  }
+}
+
+export const opposingZone = (zone: Zone): Zone => (zone === 'quiet' ? 'loud' : 'quiet');
+
+// Cost of putting a room with `key` at `rect`, given the rooms placed so far.
+// Attraction rules only look at the nearest partner; apart rules and zones
+// look at every room they concern.
+export function placementCost(key: string, rect: Rect, rules: AdjacencyRule[], zones: Partial<Record<string, Zone>>, placed: PlacedRoom[]): number {
+  let cost = 0;
+
+  rules.forEach((rule) => {
+    const other = rule.a === key ? rule.b : rule.b === key ? rule.a : null;
+    if (other === null) return;
+    const gaps = placed.filter((room) => roomKey(room) === other).map((room) => rectGap(rect, room));
+    if (gaps.length === 0) return;
+
+    cost += rule.relation === 'apart'
+      ? gaps.reduce((sum, gap) => sum + relationCost('apart', gap), 0)
+      : relationCost(rule.relation, Math.min(...gaps));
+  });
+
+  const zone = zones[key];
+  if (zone) {
+    placed
+      .filter((room) => zones[roomKey(room)] === opposingZone(zone))
+      .forEach((room) => {
+        cost += Math.max(0, ZONE_BUFFER - rectGap(rect, room));
+      });
+  }
+
+  return cost;
+}
+
+// Attraction rules are met when every room on the smaller side has a partner
+// within reach; apart rules and zones when no pair is too close. Rules whose
+// rooms were not placed are left to the count constraints.
+export function findAdjacencyViolations(plan: LayoutPlan, req: LayoutRequirements): AdjacencyViolation[] {
+  const items = new Map<string, Rect[]>();
+  plan.rooms.forEach((room) => {
+    const key = roomKey(room);
+    items.set(key, [...(items.get(key) ?? []), room]);
+  });
+  items.set(WORKSTATIONS_KEY, plan.deskClusters);
+
+  const violations: AdjacencyViolation[] = [];
+
+  effectiveRules(req).forEach((rule) => {
+    const as = items.get(rule.a) ?? [];
+    const bs = items.get(rule.b) ?? [];
+    if (as.length === 0 || bs.length === 0) return;
+
+    const [subjects, partners] = as.length <= bs.length ? [as, bs] : [bs, as];
+    const met = rule.relation === 'apart'
+      ? as.every((a) => bs.every((b) => relationCost('apart', rectGap(a, b)) < 1e-6))
+      : subjects.every((s) => partners.some((p) => relationCost(rule.relation, rectGap(s, p)) < 1e-6));
+
+    if (!met) violations.push({ rule: rule.relation, a: rule.a, b: rule.b });
+  });
+
+  const zones = req.zones ?? {};
+  const quiet = [...items.keys()].filter((key) => zones[key] === 'quiet');
+  const loud = [...items.keys()].filter((key) => zones[key] === 'loud');
+  quiet.forEach((a) => {
+    loud.forEach((b) => {
+      const tooClose = items.get(a)!.some((q) => items.get(b)!.some((l) => rectGap(q, l) < ZONE_BUFFER - 1e-6));
+      if (tooClose) violations.push({ rule: 'zone', a, b });
+    });
+  });
+
+  return violations;
+}
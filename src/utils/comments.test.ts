@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Comment } from './comments';
+import { findMentions, groupThreads, pinFromDrag } from './comments';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const comment = (id: string, created_at: string, parent_id: string | null = null): Comment => ({
+  id,
+  floor_plan_id: 'plan',
+  layout_solution_id: null,
+  parent_id,
+  author_id: 'u1',
+  body: id,
+  pin: null,
+  mentions: [],
+  resolved_at: null,
+  created_at
+});
+
+describe('pinFromDrag', () => {
+  it('places a point for a click or a tiny drag', () => {
+    expect(pinFromDrag({ x: 0.5, y: 0.5 }, { x: 0.51, y: 0.505 })).toEqual({ x: 0.5, y: 0.5 });
+  });
+
+  it('turns a drag in any direction into a region', () => {
+    const region = pinFromDrag({ x: 0.6, y: 0.4 }, { x: 0.2, y: 0.5 });
+
+    expect(region.x).toBe(0.2);
+    expect(region.y).toBe(0.4);
+    expect(region.width).toBeCloseTo(0.4);
+    expect(region.height).toBeCloseTo(0.1);
+  });
+});
+
+describe('findMentions', () => {
+  it('finds collaborators mentioned by display name', () => {
+    const collaborators = [
+      { user_id: 'u1', email: 'amy@example.com', full_name: '王小美' },
+      { user_id: 'u2', email: 'ben@example.com', full_name: null },
+      { user_id: 'u3', email: 'cat@example.com', full_name: null }
+    ];
+
+    expect(findMentions('@王小美 請看一下，@ben 也是', collaborators)).toEqual(['u1', 'u2']);
+    expect(findMentions('寄信給 cat@example.com', collaborators)).toEqual([]);
+  });
+});
+
+describe('groupThreads', () => {
+  it('orders threads and their replies by creation time', () => {
+    const threads = groupThreads([
+      comment('reply-2', '2025-01-01T10:05:00Z', 'late'),
+      comment('late', '2025-01-01T10:00:00Z'),
+      comment('reply-1', '2025-01-01T09:30:00Z', 'early'),
+      comment('early', '2025-01-01T09:00:00Z'),
+      comment('reply-3', '2025-01-01T10:01:00Z', 'late')
+    ]);
+
+    expect(threads.map((thread) => thread.id)).toEqual(['early', 'late']);
+    expect(threads[1].replies.map((reply) => reply.id)).toEqual(['reply-3', 'reply-2']);
+  });
+});
@@ -0,0 +1,114 @@
+import { supabase } from '../lib/supabase';
+import type { Collaborator } from './workspaces';
+import { collaboratorName } from './workspaces';
+
+// Fractions of the drawing's width and height, so pins stay put at any
+// display size. A region also has a width and height.
+export interface CommentPin {
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+}
+
+export interface Comment {
+  id: string;
+  floor_plan_id: string;
+  // Null for comments on the floor plan itself.
+  layout_solution_id: string | null;
+  // Null for the first comment of a thread.
+  parent_id: string | null;
+  author_id: string | null;
+  body: string;
+  pin: CommentPin | null;
+  mentions: string[];
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface CommentThread extends Comment {
+  replies: Comment[];
+}
+
+export interface NewComment {
+  projectId: string;
+  floorPlanId: string;
+  layoutSolutionId: string | null;
+  parentId: string | null;
+  authorId: string;
+  body: string;
+  pin: CommentPin | null;
+  mentions: string[];
+}
+
+const COMMENT_COLUMNS = 'id, floor_plan_id, layout_solution_id, parent_id, author_id, body, pin, mentions, resolved_at, created_at';
+
+// Smaller drags than this place a point rather than a region.
+const MIN_REGION_SIZE = 0.02;
+
+export function pinFromDrag(start: CommentPin, end: CommentPin): CommentPin {
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  if (width < MIN_REGION_SIZE && height < MIN_REGION_SIZE) return { x: start.x, y: start.y };
+  return { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), width, height };
+}
+
+export function findMentions(body: string, collaborators: Collaborator[]): string[] {
+  return collaborators
+    .filter((collaborator) => body.includes(`@${collaboratorName(collaborator)}`))
+    .map((collaborator) => collaborator.user_id);
+}
+
+// Threads oldest first, each with its replies in the order they were posted.
+export function groupThreads(comments: Comment[]): CommentThread[] {
+  const byCreation = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return byCreation
+    .filter((comment) => !comment.parent_id)
+    .map((root) => ({ ...root, replies: byCreation.filter((comment) => comment.parent_id === root.id) }));
+}
+
+export async function loadComments(floorPlanId: string): Promise<Comment[]> {
+  const { data, error } = await supabase
+    .from('comments')
+    .select(COMMENT_COLUMNS)
+    .eq('floor_plan_id', floorPlanId);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function addComment(comment: NewComment): Promise<Comment> {
+  const { data, error } = await supabase
+    .from('comments')
+    .insert({
+      project_id: comment.projectId,
+      floor_plan_id: comment.floorPlanId,
+      layout_solution_id: comment.layoutSolutionId,
+      parent_id: comment.parentId,
+      author_id: comment.authorId,
+      body: comment.body.trim(),
+      pin: comment.pin,
+      mentions: comment.mentions
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function setThreadResolved(threadId: string, resolved: boolean): Promise<string | null> {
+  const { data, error } = await supabase.rpc('resolve_comment_thread', { p_comment_id: threadId, p_resolved: resolved });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PRICE_BOOK, estimateCost } from './costEstimator';
+import type { FloorPlanMetadata } from './floorMetadata';
+import type { LayoutPlan } from './layoutEngine';
+import { DESK_DEPTH, DESK_WIDTH } from './layoutEngine';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+// 100 m² floor with a 20 m² small meeting room and a four-seat desk cluster.
+const plan: LayoutPlan = {
+  outline: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }],
+  corridors: [],
+  rooms: [{ id: 'room-0', type: 'meeting_small', x: 0, y: 0, width: 4, height: 5 }],
+  deskClusters: [{ id: 'desks-0', axis: 'y', x: 5, y: 0, width: DESK_DEPTH * 2, height: DESK_WIDTH * 2 }]
+};
+
+const metadata: FloorPlanMetadata & { floor_area_sqm: number | null } = {
+  building: null,
+  floor_level: null,
+  ceiling_height_m: null,
+  north_angle: null,
+  rent_per_sqm: null,
+  lease_start: null,
+  lease_end: null,
+  core_factor: null,
+  floor_area_sqm: 100
+};
+
+describe('estimateCost', () => {
+  it('prices rooms and open office separately and adds furniture and contingency', () => {
+    const estimate = estimateCost(plan, metadata, DEFAULT_PRICE_BOOK);
+
+    expect(estimate).toEqual({
+      fit_out: 80 * 12000 + 20 * 20000,
+      furniture: 4 * 25000,
+      contingency: 146000,
+      capex: 1606000,
+      annual_rent: null,
+      amortization_years: 5,
+      annual_cost: 321200,
+      annual_cost_per_seat: 80300
+    });
+  });
+
+  it('adds rent on the leased area and amortizes over the lease', () => {
+    const estimate = estimateCost(plan, {
+      ...metadata,
+      rent_per_sqm: 1000,
+      core_factor: 0.2,
+      lease_start: '2025-01-01',
+      lease_end: '2027-12-31'
+    }, DEFAULT_PRICE_BOOK);
+
+    expect(estimate.annual_rent).toBe(125 * 1000 * 12);
+    expect(estimate.amortization_years).toBe(3);
+    expect(estimate.annual_cost).toBe(Math.round(1500000 + 1606000 / 3));
+  });
+
+  it('has no cost per seat without desks', () => {
+    expect(estimateCost({ ...plan, deskClusters: [] }, metadata, DEFAULT_PRICE_BOOK).annual_cost_per_seat).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { supabase } from '../lib/supabase';
+import { polygonArea, rectArea } from './geometry';
+import type { FloorPlanMetadata } from './floorMetadata';
+import { leaseMonths, monthlyRent } from './floorMetadata';
+import type { LayoutPlan, RoomType } from './layoutEngine';
+import { ROOM_LABELS, deskClusterSeats } from './layoutEngine';
+
+// Fit-out is priced per room type; everything outside rooms (desks,
+// corridors, aisles) is priced as open office.
+export type FitOutCategory = RoomType | 'custom' | 'open_office';
+
+// Shape of a price_books row, minus the bookkeeping columns. Amounts are in
+// NT$.
+export interface PriceBook {
+  fit_out_per_sqm: Record<FitOutCategory, number>;
+  furniture_per_workstation: number;
+  // Share of fit-out and furniture kept aside for surprises, 0-1.
+  contingency_rate: number;
+  // Capex is written off over the lease term, or over this many years when
+  // the floor plan has no lease dates.
+  amortization_years: number;
+}
+
+export interface CostEstimate {
+  fit_out: number;
+  furniture: number;
+  contingency: number;
+  capex: number;
+  // Null when the floor plan has no rent.
+  annual_rent: number | null;
+  amortization_years: number;
+  // Rent plus capex spread over the amortization period.
+  annual_cost: number;
+  annual_cost_per_seat: number | null;
+}
+
+export const DEFAULT_PRICE_BOOK: PriceBook = {
+  fit_out_per_sqm: {
+    open_office: 12000,
+    meeting_small: 20000,
+    meeting_medium: 20000,
+    meeting_large: 22000,
+    phone_booth: 60000,
+    breakout: 15000,
+    kitchen: 30000,
+    reception: 25000,
+    storage: 8000,
+    server_room: 40000,
+    custom: 15000
+  },
+  furniture_per_workstation: 25000,
+  contingency_rate: 0.1,
+  amortization_years: 5
+};
+
+export const FIT_OUT_LABELS: Record<FitOutCategory, string> = {
+  open_office: '開放辦公區',
+  ...ROOM_LABELS,
+  custom: '自訂空間'
+};
+
+export function formatCurrency(amount: number): string {
+  return `NT$ ${Math.round(amount).toLocaleString('zh-TW')}`;
+}
+
+export function estimateCost(
+  plan: LayoutPlan,
+  floorPlan: FloorPlanMetadata & { floor_area_sqm: number | null },
+  prices: PriceBook
+): CostEstimate {
+  const rates = prices.fit_out_per_sqm;
+  const roomArea = plan.rooms.reduce((sum, room) => sum + rectArea(room), 0);
+  const openArea = Math.max(0, polygonArea(plan.outline) - roomArea);
+  const seats = plan.deskClusters.reduce((sum, cluster) => sum + deskClusterSeats(cluster), 0);
+
+  const fitOut = openArea * rates.open_office +
+    plan.rooms.reduce((sum, room) => sum + rectArea(room) * rates[room.type], 0);
+  const furniture = seats * prices.furniture_per_workstation;
+  const contingency = (fitOut + furniture) * prices.contingency_rate;
+  const capex = fitOut + furniture + contingency;
+
+  const rent = monthlyRent(floorPlan, floorPlan.floor_area_sqm ?? polygonArea(plan.outline));
+  const annualRent = rent === null ? null : rent * 12;
+  const lease = leaseMonths(floorPlan);
+  const years = lease ? lease / 12 : prices.amortization_years;
+  const annualCost = (annualRent ?? 0) + capex / Math.max(years, 1 / 12);
+
+  return {
+    fit_out: Math.round(fitOut),
+    furniture: Math.round(furniture),
+    contingency: Math.round(contingency),
+    capex: Math.round(capex),
+    annual_rent: annualRent === null ? null : Math.round(annualRent),
+    amortization_years: Math.round(years * 10) / 10,
+    annual_cost: Math.round(annualCost),
+    annual_cost_per_seat: seats > 0 ? Math.round(annualCost / seats) : null
+  };
+}
+
+export async function loadPriceBook(projectId: string): Promise<PriceBook> {
+  const { data, error } = await supabase
+    .from('price_books')
+    .select('fit_out_per_sqm, furniture_per_workstation, contingency_rate, amortization_years')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_PRICE_BOOK;
+
+  return {
+    fit_out_per_sqm: { ...DEFAULT_PRICE_BOOK.fit_out_per_sqm, ...data.fit_out_per_sqm },
+    furniture_per_workstation: Number(data.furniture_per_workstation),
+    contingency_rate: Number(data.contingency_rate),
+    amortization_years: Number(data.amortization_years)
+  };
+}
+
+export async function savePriceBook(projectId: string, prices: PriceBook): Promise<void> {
+  const { error } = await supabase
+    .from('price_books')
+    .upsert({ project_id: projectId, ...prices }, { onConflict: 'project_id' });
+
+  if (error) throw error;
+}
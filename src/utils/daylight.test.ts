@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DAYLIGHT_WEIGHTS, daylightReach, daylightScore, windowFacing } from './daylight';
+import type { Opening } from './floorPlanDimensions';
+import { rectanglePolygon } from './geometry';
+
+// 20 x 10 m floor with north up on the drawing.
+const outline = rectanglePolygon(20, 10);
+const topWindow: Opening = { type: 'window', start: { x: 5, y: 0 }, end: { x: 15, y: 0 } };
+const rightWindow: Opening = { type: 'window', start: { x: 20, y: 2 }, end: { x: 20, y: 8 } };
+
+describe('windowFacing', () => {
+  it('faces away from the floor, turned by the north arrow', () => {
+    expect(windowFacing(topWindow, outline, 0)).toBe('north');
+    expect(windowFacing(rightWindow, outline, 0)).toBe('east');
+    expect(windowFacing(topWindow, outline, 90)).toBe('west');
+    expect(windowFacing(rightWindow, outline, 45)).toBe('northeast');
+  });
+});
+
+describe('daylightReach', () => {
+  it('reaches 2.5 times the ceiling height', () => {
+    expect(daylightReach(3)).toBe(7.5);
+    expect(daylightReach(null)).toBe(7);
+  });
+});
+
+describe('daylightScore', () => {
+  const near = { x: 10, y: 2 };
+  const far = { x: 10, y: 9 };
+
+  it('counts the desks within reach of a window', () => {
+    expect(daylightScore([near, far], [topWindow], outline)).toBe(50);
+    expect(daylightScore([near, far], [topWindow], outline, { ceilingHeight: 4 })).toBe(100);
+  });
+
+  it('weighs each desk by its best window once the orientation is known', () => {
+    expect(daylightScore([{ x: 18, y: 5 }], [rightWindow], outline, { northAngle: 0 })).toBe(DAYLIGHT_WEIGHTS.east * 100);
+    expect(daylightScore([{ x: 18, y: 2 }], [topWindow, rightWindow], outline, { northAngle: 0 })).toBe(100);
+  });
+
+  it('has no score without windows or desks', () => {
+    expect(daylightScore([near], [{ ...topWindow, type: 'entrance' }], outline)).toBeNull();
+    expect(daylightScore([], [topWindow], outline)).toBeNull();
+  });
+});
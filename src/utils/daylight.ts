@@ -0,0 +1,69 @@
+import type { Point } from './geometry';
+import { closestPointOnSegment, distance } from './geometry';
+import type { Opening } from './floorPlanDimensions';
+import { inwardNormal } from './floorPlanDimensions';
+import type { CompassDirection } from './floorMetadata';
+import { compassDirection } from './floorMetadata';
+
+// How useful light from a window facing each way is for desk work, for
+// buildings in the northern hemisphere: north light is steady, low east sun
+// brings glare in the morning and west sun glare and heat in the afternoon.
+export const DAYLIGHT_WEIGHTS: Record<CompassDirection, number> = {
+  north: 1,
+  northeast: 0.9,
+  east: 0.75,
+  southeast: 0.8,
+  south: 0.85,
+  southwest: 0.6,
+  west: 0.5,
+  northwest: 0.7
+};
+
+// Daylight reaches about 2.5 times the window head height into a floor; the
+// window head is taken at ceiling height.
+export const DEFAULT_CEILING_HEIGHT = 2.8;
+export const DAYLIGHT_DEPTH_RATIO = 2.5;
+
+export interface Orientation {
+  northAngle?: number | null;
+  ceilingHeight?: number | null;
+}
+
+export function daylightReach(ceilingHeight?: number | null): number {
+  return (ceilingHeight || DEFAULT_CEILING_HEIGHT) * DAYLIGHT_DEPTH_RATIO;
+}
+
+// Compass direction the window looks out to.
+export function windowFacing(opening: Opening, outline: Point[], northAngle: number): CompassDirection {
+  const inward = inwardNormal(opening, outline);
+  // Bearing of the outward normal on the drawing, clockwise from up.
+  const planBearing = (Math.atan2(-inward.x, inward.y) * 180) / Math.PI;
+  return compassDirection(planBearing - northAngle);
+}
+
+// Without a north arrow every window counts the same.
+export function windowWeight(opening: Opening, outline: Point[], northAngle?: number | null): number {
+  return northAngle == null ? 1 : DAYLIGHT_WEIGHTS[windowFacing(opening, outline, northAngle)];
+}
+
+// 0-100: each desk within daylight reach of a window counts with the weight
+// of its best window, desks further in count nothing. Null when there are no
+// windows or no desks to score.
+export function daylightScore(
+  desks: Point[],
+  openings: Opening[],
+  outline: Point[],
+  orientation: Orientation = {}
+): number | null {
+  const windows = openings
+    .filter((opening) => opening.type === 'window')
+    .map((opening) => ({ opening, weight: windowWeight(opening, outline, orientation.northAngle) }));
+  if (windows.length === 0 || desks.length === 0) return null;
+
+  const reach = daylightReach(orientation.ceilingHeight);
+  const lit = desks.reduce((sum, desk) => sum + Math.max(0, ...windows
+    .filter(({ opening }) => distance(desk, closestPointOnSegment(desk, opening.start, opening.end)) <= reach)
+    .map(({ weight }) => weight)), 0);
+
+  return Math.round((lit / desks.length) * 100);
+}
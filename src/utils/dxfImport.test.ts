@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { importDxf } from './dxfImport';
+import type { Point } from './geometry';
+import { polygonArea } from './geometry';
+
+const dxf = (pairs: (string | number)[]) => pairs.join('\n');
+
+const header = (units: number) => ['0', 'SECTION', '2', 'HEADER', '9', '$INSUNITS', '70', units, '0', 'ENDSEC'];
+
+const entities = (...items: (string | number)[][]) => ['0', 'SECTION', '2', 'ENTITIES', ...items.flat(), '0', 'ENDSEC', '0', 'EOF'];
+
+const lwpolyline = (layer: string, points: Point[], closed = true) => [
+  '0', 'LWPOLYLINE', '8', layer, '90', points.length, '70', closed ? 1 : 0,
+  ...points.flatMap((p) => ['10', p.x, '20', p.y])
+];
+
+const rectangle = (x: number, y: number, width: number, height: number): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height }
+];
+
+describe('importDxf', () => {
+  it('reads drawings without units as millimeters', () => {
+    const { dimensions } = importDxf(dxf(entities(lwpolyline('A-WALL', rectangle(0, 0, 20000, 10000)))));
+
+    expect(polygonArea(dimensions.outline!)).toBeCloseTo(200);
+    expect(dimensions.scale!.meters_per_pixel).toBeGreaterThan(0);
+  });
+
+  it('applies $INSUNITS and reads POLYLINE vertices', () => {
+    const polyline = [
+      '0', 'POLYLINE', '8', 'WALL', '70', 1, '10', 0, '20', 0,
+      ...rectangle(0, 0, 30, 12).flatMap((p) => ['0', 'VERTEX', '8', 'WALL', '10', p.x, '20', p.y]),
+      '0', 'SEQEND'
+    ];
+    const { dimensions } = importDxf(dxf([...header(6), ...entities(polyline)]));
+
+    expect(polygonArea(dimensions.outline!)).toBeCloseTo(360);
+  });
+
+  it('prefers wall layers for the outline and picks up columns and cores', () => {
+    const { dimensions } = importDxf(dxf([...header(6), ...entities(
+      lwpolyline('FURNITURE', rectangle(-5, -5, 40, 30)),
+      lwpolyline('WALL', rectangle(0, 0, 20, 10)),
+      lwpolyline('COLUMN', rectangle(5, 5, 0.6, 0.6)),
+      lwpolyline('CORE', rectangle(12, 2, 4, 4))
+    )]));
+
+    expect(polygonArea(dimensions.outline!)).toBeCloseTo(200);
+    expect(dimensions.columns).toHaveLength(1);
+    expect(polygonArea(dimensions.columns![0])).toBeCloseTo(0.36);
+    expect(dimensions.cores).toHaveLength(1);
+  });
+
+  it('joins wall lines drawn end to end into the outline', () => {
+    const line = (from: Point, to: Point) => ['0', 'LINE', '8', 'WALL', '10', from.x, '20', from.y, '11', to.x, '21', to.y];
+    const { svg, dimensions } = importDxf(dxf([...header(6), ...entities(
+      line({ x: 0, y: 0 }, { x: 20, y: 0 }),
+      line({ x: 20, y: 10 }, { x: 20.005, y: 0 }),
+      lwpolyline('WALL', [{ x: 20, y: 10 }, { x: 0, y: 10 }, { x: 0, y: 5 }], false),
+      line({ x: 0, y: 5 }, { x: 0, y: 0 }),
+      lwpolyline('WALL', rectangle(2, 2, 3, 3))
+    )]));
+
+    expect(polygonArea(dimensions.outline!)).toBeCloseTo(200);
+    expect(svg).toContain('<polyline');
+  });
+
+  it('has no outline when the wall lines do not close', () => {
+    const line = ['0', 'LINE', '8', 'WALL', '10', 0, '20', 0, '11', 10, '21', 0];
+    const { svg, dimensions } = importDxf(dxf([...header(6), ...entities(line)]));
+
+    expect(dimensions.outline).toBeUndefined();
+    expect(svg).toContain('<polyline');
+  });
+
+  it('rejects drawings without lines', () => {
+    expect(() => importDxf(dxf(entities()))).toThrow();
+  });
+});
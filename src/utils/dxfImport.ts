@@ -0,0 +1,239 @@
+import type { Point } from './geometry';
+import { polygonArea, polygonBounds } from './geometry';
+import type { FloorPlanDimensions } from './floorPlanDimensions';
+import { toMeters } from './floorPlanDimensions';
+
+interface DxfPolyline {
+  layer: string;
+  points: Point[];
+  closed: boolean;
+}
+
+export interface DxfImport {
+  svg: string;
+  dimensions: FloorPlanDimensions;
+}
+
+// Resolution of the preview image generated from the drawing.
+const PIXELS_PER_METER = 50;
+const MARGIN_M = 1;
+
+// $INSUNITS codes to meters. Drawings without units are assumed to be in
+// millimeters, which is what architectural CAD files almost always use.
+const UNIT_SCALE: Record<number, number> = {
+  1: 0.0254,
+  2: 0.3048,
+  4: 0.001,
+  5: 0.01,
+  6: 1
+};
+
+const WALL_LAYER = /wall|牆/i;
+const COLUMN_LAYER = /col|柱/i;
+const CORE_LAYER = /core|核心/i;
+
+function readPairs(text: string): [number, string][] {
+  const lines = text.split(/\r?\n/);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([parseInt(lines[i].trim(), 10), lines[i + 1].trim()]);
+  }
+  return pairs;
+}
+
+// Minimal ASCII DXF reader: LINE, LWPOLYLINE and POLYLINE/VERTEX entities in
+// model space plus the $INSUNITS header variable. Blocks are not expanded.
+function parseDxf(text: string): { unitScale: number; polylines: DxfPolyline[] } {
+  const pairs = readPairs(text);
+  const polylines: DxfPolyline[] = [];
+  let unitScale = UNIT_SCALE[4];
+  let section = '';
+  let current: DxfPolyline | null = null;
+  let entity = '';
+  let inVertex = false;
+  let pending: Partial<Point> = {};
+  let lineEnd: Partial<Point> = {};
+
+  const flushVertex = () => {
+    if (current && pending.x !== undefined && pending.y !== undefined) {
+      current.points.push({ x: pending.x, y: pending.y });
+    }
+    pending = {};
+  };
+
+  const finishEntity = () => {
+    flushVertex();
+    if (entity === 'LINE' && current && lineEnd.x !== undefined && lineEnd.y !== undefined) {
+      current.points.push({ x: lineEnd.x, y: lineEnd.y });
+    }
+    if (current && (entity === 'LINE' || entity === 'LWPOLYLINE') && current.points.length >= 2) {
+      polylines.push(current);
+      current = null;
+    }
+    lineEnd = {};
+  };
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+
+    if (code === 0) {
+      finishEntity();
+      if (value === 'SECTION') {
+        section = pairs[i + 1]?.[1] ?? '';
+        continue;
+      }
+      if (value === 'ENDSEC') {
+        section = '';
+        continue;
+      }
+      if (section !== 'ENTITIES') continue;
+
+      if (value === 'SEQEND') {
+        if (current && current.points.length >= 2) polylines.push(current);
+        current = null;
+        entity = '';
+        inVertex = false;
+      } else if (value === 'VERTEX' && entity === 'POLYLINE') {
+        inVertex = true;
+      } else {
+        entity = value;
+        inVertex = false;
+        current = ['LINE', 'LWPOLYLINE', 'POLYLINE'].includes(value)
+          ? { layer: '', points: [], closed: false }
+          : null;
+      }
+      continue;
+    }
+
+    if (section === 'HEADER' && code === 9 && value === '$INSUNITS') {
+      unitScale = UNIT_SCALE[parseInt(pairs[i + 1]?.[1] ?? '', 10)] ?? unitScale;
+      continue;
+    }
+    if (!current) continue;
+
+    // The POLYLINE header carries a dummy 10/20 point; vertices carry their own
+    // layer and flags, which must not overwrite the polyline's.
+    const header = entity === 'POLYLINE' && !inVertex;
+    const vertexOwned = entity === 'POLYLINE' && inVertex;
+    if (code === 8 && !vertexOwned) current.layer = value;
+    if (code === 70 && entity !== 'LINE' && !vertexOwned) current.closed = (parseInt(value, 10) & 1) === 1;
+    if (header) continue;
+    if (code === 10) {
+      flushVertex();
+      pending.x = parseFloat(value);
+    }
+    if (code === 20) pending.y = parseFloat(value);
+    if (code === 11) lineEnd.x = parseFloat(value);
+    if (code === 21) lineEnd.y = parseFloat(value);
+  }
+  finishEntity();
+
+  return { unitScale, polylines };
+}
+
+const largest = (polylines: DxfPolyline[]) =>
+  polylines.reduce<DxfPolyline | null>(
+    (best, p) => (!best || polygonArea(p.points) > polygonArea(best.points) ? p : best),
+    null
+  );
+
+// Endpoints closer than this (in meters) are taken to be the same corner.
+const JOIN_TOLERANCE_M = 0.01;
+
+// Walls are often drawn as separate LINEs or open polylines. Chains them end
+// to end, reversing pieces as needed, and returns the chains that close.
+function joinLoops(pieces: DxfPolyline[], tolerance: number): DxfPolyline[] {
+  const near = (a: Point, b: Point) => Math.abs(a.x - b.x) <= tolerance && Math.abs(a.y - b.y) <= tolerance;
+  const closes = (chain: Point[]) => chain.length >= 4 && near(chain[chain.length - 1], chain[0]);
+  const unused = [...pieces];
+  const loops: DxfPolyline[] = [];
+
+  while (unused.length > 0) {
+    const first = unused.shift()!;
+    const chain = [...first.points];
+
+    for (let next = 0; next < unused.length && !closes(chain);) {
+      const end = chain[chain.length - 1];
+      const piece = unused[next].points;
+      if (near(piece[0], end)) {
+        chain.push(...piece.slice(1));
+      } else if (near(piece[piece.length - 1], end)) {
+        chain.push(...[...piece].reverse().slice(1));
+      } else {
+        next++;
+        continue;
+      }
+      unused.splice(next, 1);
+      next = 0;
+    }
+
+    if (closes(chain)) {
+      loops.push({ layer: first.layer, points: chain.slice(0, -1), closed: true });
+    }
+  }
+
+  return loops;
+}
+
+// Converts a DXF drawing into a preview SVG plus dimensions_json with the
+// scale already known. The largest closed shape on a wall layer, whether a
+// closed polyline or wall lines joined end to end, becomes the outline (any
+// closed polyline if no wall layer has one); closed polylines on column and
+// core layers become columns and cores.
+export function importDxf(text: string): DxfImport {
+  const { unitScale, polylines } = parseDxf(text);
+  if (polylines.length === 0) throw new Error('No lines or polylines found in DXF');
+
+  const bounds = polygonBounds(polylines.flatMap((p) => p.points));
+  const toPixels = (points: Point[]): Point[] => points.map((p) => ({
+    x: Math.round(((p.x - bounds.x) * unitScale + MARGIN_M) * PIXELS_PER_METER),
+    y: Math.round(((bounds.y + bounds.height - p.y) * unitScale + MARGIN_M) * PIXELS_PER_METER)
+  }));
+
+  const closed = polylines.filter((p) => p.closed && p.points.length >= 3);
+  const walls = polylines.filter((p) => WALL_LAYER.test(p.layer));
+  const joined = joinLoops(walls.filter((p) => !p.closed), JOIN_TOLERANCE_M / unitScale);
+  const outline = largest([...closed.filter((p) => WALL_LAYER.test(p.layer)), ...joined]) ?? largest(closed);
+  const inner = closed.filter((p) => p !== outline);
+
+  const image = {
+    width: Math.round((bounds.width * unitScale + MARGIN_M * 2) * PIXELS_PER_METER),
+    height: Math.round((bounds.height * unitScale + MARGIN_M * 2) * PIXELS_PER_METER)
+  };
+  const scale = 1 / PIXELS_PER_METER;
+  const outlinePx = outline ? toPixels(outline.points) : [];
+  const columnsPx = inner.filter((p) => COLUMN_LAYER.test(p.layer)).map((p) => toPixels(p.points));
+  const coresPx = inner.filter((p) => CORE_LAYER.test(p.layer)).map((p) => toPixels(p.points));
+
+  const dimensions: FloorPlanDimensions = {
+    image,
+    scale: {
+      meters_per_pixel: scale,
+      reference: {
+        start: { x: 0, y: image.height },
+        end: { x: image.width, y: image.height },
+        length_m: image.width * scale
+      }
+    },
+    ...(outline ? { outline_px: outlinePx, outline: toMeters(outlinePx, scale) } : {}),
+    columns_px: columnsPx,
+    columns: columnsPx.map((polygon) => toMeters(polygon, scale)),
+    cores_px: coresPx,
+    cores: coresPx.map((polygon) => toMeters(polygon, scale))
+  };
+
+  const paths = polylines.map((p) => {
+    const points = toPixels(p.points).map((v) => `${v.x},${v.y}`).join(' ');
+    const tag = p.closed ? 'polygon' : 'polyline';
+    return `<${tag} points="${points}" fill="none" stroke="#111827" stroke-width="2"/>`;
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${image.width}" height="${image.height}" viewBox="0 0 ${image.width} ${image.height}">`,
+    `<rect width="${image.width}" height="${image.height}" fill="#ffffff"/>`,
+    ...paths,
+    '</svg>'
+  ].join('\n');
+
+  return { svg, dimensions };
+}
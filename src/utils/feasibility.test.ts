@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { areaFitScore, calculateFeasibilityScore, scoreSolution } from './feasibility';
+import type { Opening } from './floorPlanDimensions';
+import type { LayoutRequirements } from './layoutEngine';
+import { defaultOutline, generateLayout, summarizeLayout } from './layoutEngine';
+import { DEFAULT_SPACE_STANDARDS } from './spaceStandards';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const requirements = (changes: Partial<LayoutRequirements> = {}): LayoutRequirements => ({
+  workstations: 0,
+  meeting_rooms_small: 0,
+  meeting_rooms_medium: 0,
+  meeting_rooms_large: 0,
+  phone_booths: 0,
+  breakout_areas: 0,
+  kitchen_pantry: false,
+  reception_area: false,
+  storage_rooms: 0,
+  server_room: false,
+  ...changes
+});
+
+const score = (req: LayoutRequirements, floorArea: number, openings: Opening[] = []) => {
+  const outline = defaultOutline(floorArea);
+  const plan = generateLayout(outline, req, { obstacles: [], openings });
+  return scoreSolution(plan, summarizeLayout(plan, req), req, floorArea, DEFAULT_SPACE_STANDARDS);
+};
+
+describe('areaFitScore', () => {
+  it('passes through the old bucket values and clamps at the ends', () => {
+    expect(areaFitScore(0.4)).toBe(0);
+    expect(areaFitScore(0.8)).toBe(55);
+    expect(areaFitScore(1.0)).toBe(85);
+    expect(areaFitScore(1.1)).toBeCloseTo(90);
+    expect(areaFitScore(2)).toBe(100);
+  });
+});
+
+describe('calculateFeasibilityScore', () => {
+  it('is neutral when the floor area is unknown', () => {
+    expect(calculateFeasibilityScore(requirements({ workstations: 20 }), null, DEFAULT_SPACE_STANDARDS)).toBe(50);
+  });
+
+  it('drops as the program outgrows the floor', () => {
+    const roomy = calculateFeasibilityScore(requirements({ workstations: 20 }), 500, DEFAULT_SPACE_STANDARDS);
+    const tight = calculateFeasibilityScore(requirements({ workstations: 80 }), 500, DEFAULT_SPACE_STANDARDS);
+
+    expect(roomy).toBeGreaterThan(tight);
+  });
+});
+
+describe('scoreSolution', () => {
+  it('only weighs the factors that apply and spreads their weight', () => {
+    const result = score(requirements({ workstations: 30, meeting_rooms_small: 2 }), 500);
+
+    expect(result.factors.map((f) => f.key)).toEqual(['area_fit', 'coverage', 'circulation']);
+    expect(result.factors.reduce((sum, f) => sum + f.weight, 0)).toBeCloseTo(1, 2);
+    expect(result.score).toBeCloseTo(result.factors.reduce((sum, f) => sum + f.contribution, 0), 0);
+  });
+
+  it('caps egress on a large floor with a single exit', () => {
+    const entrance: Opening = { type: 'entrance', start: { x: 0, y: 1 }, end: { x: 0, y: 2 } };
+    const egress = score(requirements({ workstations: 30 }), 1000, [entrance]).factors.find((f) => f.key === 'egress');
+
+    expect(egress?.score).toBeLessThanOrEqual(60);
+    expect(egress?.detail).toContain('僅有一個出口');
+  });
+
+  it('scores coverage from the share of the program that was placed', () => {
+    const coverage = score(requirements({ workstations: 400 }), 200).factors.find((f) => f.key === 'coverage');
+
+    expect(coverage?.score).toBeGreaterThan(0);
+    expect(coverage?.score).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,212 @@
+import { effectiveRules } from './adjacency';
+import type { Point } from './geometry';
+import { polygonArea, rectArea, rectCenter } from './geometry';
+import type { LayoutPlan, LayoutRequirements, LayoutSummary } from './layoutEngine';
+import { clusterDesks } from './layoutEngine';
+import type { SpaceStandards } from './spaceStandards';
+import { estimateProgramArea } from './spaceStandards';
+
+// Solutions scoring below this are not considered feasible.
+export const FEASIBILITY_THRESHOLD = 60;
+
+export type FeasibilityFactorKey = 'area_fit' | 'coverage' | 'adjacency' | 'daylight' | 'circulation' | 'egress';
+
+export interface FeasibilityFactor {
+  key: FeasibilityFactorKey;
+  // 0-100 for this factor alone.
+  score: number;
+  // Share of the total score, after dropping factors that don't apply.
+  weight: number;
+  // Points this factor adds to the total, i.e. score × weight.
+  contribution: number;
+  detail: string;
+}
+
+export interface FeasibilityResult {
+  score: number;
+  factors: FeasibilityFactor[];
+}
+
+export const FACTOR_WEIGHTS: Record<FeasibilityFactorKey, number> = {
+  area_fit: 0.3,
+  coverage: 0.25,
+  adjacency: 0.15,
+  daylight: 0.1,
+  circulation: 0.1,
+  egress: 0.1
+};
+
+export const FACTOR_LABELS: Record<FeasibilityFactorKey, string> = {
+  area_fit: '面積餘裕',
+  coverage: '需求達成',
+  adjacency: '相鄰與分區',
+  daylight: '採光',
+  circulation: '動線效率',
+  egress: '逃生'
+};
+
+// Available area over required area against score. Passes through the old
+// bucket values (0.8 → 55, 0.9 → 70, 1.0 → 85, 1.2 → 95) and is linear in
+// between.
+const AREA_FIT_CURVE: [number, number][] = [[0.5, 0], [0.8, 55], [0.9, 70], [1.0, 85], [1.2, 95], [1.5, 100]];
+
+// Corridors and aisles up to this share of the floor are normal for an
+// office; at CIRCULATION_LIMIT the plan is all corridor and no desks.
+const CIRCULATION_TARGET = 0.3;
+const CIRCULATION_LIMIT = 0.5;
+
+// Straight-line distance to the nearest exit; walking distance is roughly
+// half again as long, which keeps this within the usual 45-50 m limits.
+export const EGRESS_DISTANCE = 30;
+// Floors larger than this should have a second way out.
+export const SINGLE_EXIT_AREA = 200;
+const SINGLE_EXIT_CAP = 60;
+
+export function areaFitScore(ratio: number): number {
+  const curve = AREA_FIT_CURVE;
+  if (ratio <= curve[0][0]) return 0;
+  if (ratio >= curve[curve.length - 1][0]) return 100;
+
+  const upper = curve.findIndex(([r]) => r >= ratio);
+  const [r0, s0] = curve[upper - 1];
+  const [r1, s1] = curve[upper];
+  return s0 + ((ratio - r0) / (r1 - r0)) * (s1 - s0);
+}
+
+// Scores how comfortably the program fits the available floor area; 50 when
+// the area is unknown. Used before there is a layout to look at.
+export function calculateFeasibilityScore(
+  req: LayoutRequirements,
+  availableArea: number | null,
+  standards: SpaceStandards
+): number {
+  if (!availableArea) return 50;
+  return Math.round(areaFitScore(availableArea / estimateProgramArea(req, standards).total));
+}
+
+// Share of the requested program area that made it into the layout; each
+// item counts with its standard area so one missing desk weighs less than a
+// missing boardroom.
+function coverage(summary: LayoutSummary, req: LayoutRequirements, standards: SpaceStandards): number {
+  const areas = standards.room_areas;
+  const placed = summary.meeting_rooms_placed;
+  const amenities = summary.amenities_placed;
+  const items: [requested: number, placed: number, area: number][] = [
+    [req.workstations, summary.workstations_placed, standards.workstation_area],
+    [req.meeting_rooms_small, placed.small, areas.meeting_small],
+    [req.meeting_rooms_medium, placed.medium, areas.meeting_medium],
+    [req.meeting_rooms_large, placed.large, areas.meeting_large],
+    [req.phone_booths, amenities.phone_booths, areas.phone_booth],
+    [req.breakout_areas, amenities.breakout_areas, areas.breakout],
+    [req.storage_rooms, amenities.storage, areas.storage],
+    [Number(req.kitchen_pantry), Number(amenities.kitchen), areas.kitchen],
+    [Number(req.reception_area), Number(amenities.reception), areas.reception],
+    [Number(req.server_room), Number(amenities.server_room), areas.server_room],
+    ...(req.custom_rooms ?? []).map((custom): [number, number, number] =>
+      [custom.count, summary.custom_rooms_placed?.[custom.id] ?? 0, custom.area])
+  ];
+
+  const requested = items.reduce((sum, [count, , area]) => sum + count * area, 0);
+  const met = items.reduce((sum, [count, placedCount, area]) => sum + Math.min(count, placedCount) * area, 0);
+  return requested > 0 ? met / requested : 1;
+}
+
+const nearestDistance = (point: Point, targets: Point[]) =>
+  Math.min(...targets.map((target) => Math.hypot(point.x - target.x, point.y - target.y)));
+
+// Scores a generated or edited layout on six factors. Adjacency, daylight and
+// egress only apply when there are rules, windows or exits to judge by; their
+// weight then goes to the other factors.
+export function scoreSolution(
+  plan: LayoutPlan,
+  summary: LayoutSummary,
+  req: LayoutRequirements,
+  availableArea: number | null,
+  standards: SpaceStandards
+): FeasibilityResult {
+  const floorArea = polygonArea(plan.outline);
+  const raw: Omit<FeasibilityFactor, 'weight' | 'contribution'>[] = [];
+
+  const area = availableArea ?? floorArea;
+  const required = estimateProgramArea(req, standards).total;
+  raw.push({
+    key: 'area_fit',
+    score: required > 0 ? areaFitScore(area / required) : 100,
+    detail: `可用 ${Math.round(area)} m²，需求 ${Math.round(required)} m²`
+  });
+
+  const covered = coverage(summary, req, standards);
+  raw.push({
+    key: 'coverage',
+    score: covered * 100,
+    detail: `已配置需求面積的 ${Math.round(covered * 100)}%`
+  });
+
+  // One constraint per rule and per quiet/loud pair, as findAdjacencyViolations
+  // reports them.
+  const zones = Object.values(req.zones ?? {});
+  const constraints = effectiveRules(req).length +
+    zones.filter((zone) => zone === 'quiet').length * zones.filter((zone) => zone === 'loud').length;
+  if (constraints > 0) {
+    const violations = summary.adjacency_violations?.length ?? 0;
+    raw.push({
+      key: 'adjacency',
+      score: Math.max(0, 1 - violations / constraints) * 100,
+      detail: violations === 0 ? `${constraints} 項條件皆已滿足` : `${constraints} 項條件中有 ${violations} 項未滿足`
+    });
+  }
+
+  if (summary.daylight_score !== null && summary.daylight_score !== undefined) {
+    raw.push({
+      key: 'daylight',
+      score: summary.daylight_score,
+      detail: '工位在窗邊採光範圍內的比例（依窗戶朝向加權）'
+    });
+  }
+
+  if (floorArea > 0) {
+    const share = plan.corridors.reduce((sum, corridor) => sum + rectArea(corridor), 0) / floorArea;
+    const excess = (share - CIRCULATION_TARGET) / (CIRCULATION_LIMIT - CIRCULATION_TARGET);
+    raw.push({
+      key: 'circulation',
+      score: Math.min(1, Math.max(0, 1 - excess)) * 100,
+      detail: `走道佔樓板面積 ${Math.round(share * 100)}%（${Math.round(CIRCULATION_TARGET * 100)}% 以內為佳）`
+    });
+  }
+
+  const exits = (plan.openings ?? [])
+    .filter((opening) => opening.type !== 'window')
+    .map((opening) => ({ x: (opening.start.x + opening.end.x) / 2, y: (opening.start.y + opening.end.y) / 2 }));
+  const occupants = [
+    ...plan.deskClusters.flatMap((cluster) => clusterDesks(cluster).map(rectCenter)),
+    ...plan.rooms.map(rectCenter)
+  ];
+  if (exits.length > 0 && occupants.length > 0) {
+    const reached = occupants.filter((point) => nearestDistance(point, exits) <= EGRESS_DISTANCE).length / occupants.length;
+    const singleExit = exits.length < 2 && floorArea > SINGLE_EXIT_AREA;
+    raw.push({
+      key: 'egress',
+      score: singleExit ? Math.min(SINGLE_EXIT_CAP, reached * 100) : reached * 100,
+      detail: [
+        `${Math.round(reached * 100)}% 的座位與空間距出口 ${EGRESS_DISTANCE} m 以內`,
+        ...(singleExit ? ['僅有一個出口'] : [])
+      ].join('，')
+    });
+  }
+
+  const totalWeight = raw.reduce((sum, factor) => sum + FACTOR_WEIGHTS[factor.key], 0);
+  const factors = raw.map((factor) => {
+    const weight = FACTOR_WEIGHTS[factor.key] / totalWeight;
+    return {
+      ...factor,
+      score: Math.round(factor.score),
+      weight: Math.round(weight * 1000) / 1000,
+      contribution: Math.round(factor.score * weight * 10) / 10
+    };
+  });
+
+  return {
+    score: Math.round(raw.reduce((sum, factor) => sum + factor.score * FACTOR_WEIGHTS[factor.key], 0) / totalWeight),
+    factors
+  };
+}
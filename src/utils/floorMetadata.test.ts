@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { FloorPlanMetadata } from './floorMetadata';
+import { EMPTY_FLOOR_METADATA, compassDirection, floorPlanTitle, leaseMonths, leasedArea, monthlyRent } from './floorMetadata';
+
+const metadata = (changes: Partial<FloorPlanMetadata>): FloorPlanMetadata => ({ ...EMPTY_FLOOR_METADATA, ...changes });
+
+describe('compassDirection', () => {
+  it('rounds a bearing to the nearest of eight directions', () => {
+    expect(compassDirection(0)).toBe('north');
+    expect(compassDirection(22)).toBe('north');
+    expect(compassDirection(23)).toBe('northeast');
+    expect(compassDirection(180)).toBe('south');
+    expect(compassDirection(-90)).toBe('west');
+    expect(compassDirection(670)).toBe('northwest');
+  });
+});
+
+describe('floorPlanTitle', () => {
+  it('adds the building and floor when they are known', () => {
+    expect(floorPlanTitle({ name: '方案 A' })).toBe('方案 A');
+    expect(floorPlanTitle({ name: '方案 A', building: '信義大樓', floor_level: 12 })).toBe('方案 A（信義大樓 12F）');
+    expect(floorPlanTitle({ name: '方案 A', floor_level: -1 })).toBe('方案 A（B1）');
+  });
+});
+
+describe('rent', () => {
+  it('charges rent on the leased area including the core', () => {
+    expect(leasedArea(300, 0.25)).toBe(400);
+    expect(leasedArea(300, null)).toBe(300);
+    expect(monthlyRent(metadata({ rent_per_sqm: 1200, core_factor: 0.25 }), 300)).toBe(480000);
+  });
+
+  it('has no rent without a price or an area', () => {
+    expect(monthlyRent(metadata({ rent_per_sqm: 1200 }), null)).toBeNull();
+    expect(monthlyRent(metadata({}), 300)).toBeNull();
+  });
+});
+
+describe('leaseMonths', () => {
+  it('counts both lease dates', () => {
+    expect(leaseMonths(metadata({ lease_start: '2025-01-01', lease_end: '2027-12-31' }))).toBe(36);
+    expect(leaseMonths(metadata({ lease_start: '2025-03-01', lease_end: '2025-08-31' }))).toBe(6);
+  });
+
+  it('needs both dates in order', () => {
+    expect(leaseMonths(metadata({ lease_start: '2025-01-01' }))).toBeNull();
+    expect(leaseMonths(metadata({ lease_start: '2025-01-01', lease_end: '2024-01-01' }))).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import type { RoomLocation } from './layoutEngine';
+
+// Building and lease facts about a floor, stored as columns on floor_plans.
+export interface FloorPlanMetadata {
+  building: string | null;
+  // 1 for the ground floor, negative for basements.
+  floor_level: number | null;
+  ceiling_height_m: number | null;
+  // Clockwise angle in degrees from "up" on the drawing to true north; null
+  // when the drawing has no north arrow.
+  north_angle: number | null;
+  // Monthly rent per m² of leased area.
+  rent_per_sqm: number | null;
+  lease_start: string | null;
+  lease_end: string | null;
+  // Share of the leased area taken by the building core and common areas
+  // (公設比), 0-1.
+  core_factor: number | null;
+}
+
+export type CompassDirection = Extract<
+  RoomLocation,
+  'north' | 'northeast' | 'east' | 'southeast' | 'south' | 'southwest' | 'west' | 'northwest'
+>;
+
+export const EMPTY_FLOOR_METADATA: FloorPlanMetadata = {
+  building: null,
+  floor_level: null,
+  ceiling_height_m: null,
+  north_angle: null,
+  rent_per_sqm: null,
+  lease_start: null,
+  lease_end: null,
+  core_factor: null
+};
+
+// Clockwise from north, 45° apart.
+export const COMPASS_DIRECTIONS: CompassDirection[] = [
+  'north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'
+];
+
+export function compassDirection(bearing: number): CompassDirection {
+  const index = Math.round((((bearing % 360) + 360) % 360) / 45) % 8;
+  return COMPASS_DIRECTIONS[index];
+}
+
+export function floorLevelLabel(level: number): string {
+  return level > 0 ? `${level}F` : `B${-level}`;
+}
+
+export function floorPlanTitle(floorPlan: { name: string } & Partial<FloorPlanMetadata>): string {
+  const location = [floorPlan.building, floorPlan.floor_level ? floorLevelLabel(floorPlan.floor_level) : null]
+    .filter(Boolean)
+    .join(' ');
+  return location ? `${floorPlan.name}（${location}）` : floorPlan.name;
+}
+
+// Rent is charged on the leased area, which includes the tenant's share of
+// the core; the drawn floor area is what's left after it.
+export function leasedArea(floorArea: number, coreFactor: number | null): number {
+  const factor = coreFactor ?? 0;
+  return factor > 0 && factor < 1 ? floorArea / (1 - factor) : floorArea;
+}
+
+export function monthlyRent(metadata: FloorPlanMetadata, floorArea: number | null): number | null {
+  if (!metadata.rent_per_sqm || !floorArea) return null;
+  return Math.round(leasedArea(floorArea, metadata.core_factor) * metadata.rent_per_sqm);
+}
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// Lease dates are inclusive, so 2025-01-01 to 2027-12-31 is 36 months.
+export function leaseMonths(metadata: FloorPlanMetadata): number | null {
+  if (!metadata.lease_start || !metadata.lease_end) return null;
+  const days = (Date.parse(metadata.lease_end) - Date.parse(metadata.lease_start)) / 86400000 + 1;
+  return days > 0 ? Math.round(days / DAYS_PER_MONTH) : null;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { Opening } from './floorPlanDimensions';
+import { computeAreas, inwardNormal, metersPerPixel, openingToMeters, toMeters } from './floorPlanDimensions';
+import { rectanglePolygon } from './geometry';
+
+describe('metersPerPixel', () => {
+  it('divides the reference length by its length on the image', () => {
+    expect(metersPerPixel({ x: 0, y: 0 }, { x: 300, y: 400 }, 10)).toBeCloseTo(0.02);
+  });
+
+  it('has no scale for a zero-length line or length', () => {
+    expect(metersPerPixel({ x: 5, y: 5 }, { x: 5, y: 5 }, 10)).toBeNull();
+    expect(metersPerPixel({ x: 0, y: 0 }, { x: 100, y: 0 }, 0)).toBeNull();
+  });
+});
+
+describe('toMeters', () => {
+  it('scales points from the image origin', () => {
+    expect(toMeters([{ x: 100, y: 50 }], 0.02)).toEqual([{ x: 2, y: 1 }]);
+  });
+
+  it('scales both ends of an opening', () => {
+    const opening: Opening = { type: 'window', start: { x: 0, y: 100 }, end: { x: 0, y: 200 } };
+
+    expect(openingToMeters(opening, 0.05)).toEqual({ type: 'window', start: { x: 0, y: 5 }, end: { x: 0, y: 10 } });
+  });
+});
+
+describe('computeAreas', () => {
+  it('needs an outline', () => {
+    expect(computeAreas({})).toBeNull();
+    expect(computeAreas({ outline: [{ x: 0, y: 0 }, { x: 1, y: 0 }] })).toBeNull();
+  });
+
+  it('rounds the area to one decimal', () => {
+    expect(computeAreas({ outline: rectanglePolygon(10.33, 10) })).toEqual({ total: 103.3, usable: 103.3 });
+  });
+
+  it('leaves columns, cores and shafts out of the usable area', () => {
+    expect(computeAreas({
+      outline: rectanglePolygon(20, 10),
+      columns: [rectanglePolygon(0.5, 0.5)],
+      cores: [rectanglePolygon(4, 5)],
+      shafts: [rectanglePolygon(1, 1)]
+    })).toEqual({ total: 200, usable: 178.8 });
+  });
+});
+
+describe('inwardNormal', () => {
+  it('points into the floor whichever way the opening was drawn', () => {
+    const outline = rectanglePolygon(20, 10);
+    const left: Opening = { type: 'entrance', start: { x: 0, y: 2 }, end: { x: 0, y: 4 } };
+    const right: Opening = { type: 'entrance', start: { x: 20, y: 2 }, end: { x: 20, y: 4 } };
+
+    expect(inwardNormal(left, outline).x).toBe(1);
+    expect(inwardNormal({ ...left, start: left.end, end: left.start }, outline).x).toBe(1);
+    expect(inwardNormal(right, outline).x).toBe(-1);
+  });
+});
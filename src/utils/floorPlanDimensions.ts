@@ -0,0 +1,91 @@
+import type { Point } from './geometry';
+import { distance, pointInPolygon, polygonArea } from './geometry';
+
+export type OpeningType = 'entrance' | 'window' | 'fire_exit';
+
+// A door or window drawn as a segment along the outline.
+export interface Opening {
+  type: OpeningType;
+  start: Point;
+  end: Point;
+}
+
+export const OPENING_LABELS: Record<OpeningType, string> = {
+  entrance: '入口',
+  window: '窗戶',
+  fire_exit: '逃生門'
+};
+
+// Shape of floor_plans.dimensions_json. Pixel coordinates refer to the
+// uploaded image at its natural size; the fields without the `_px` suffix are
+// the same geometry in meters with the image's top-left corner as origin.
+export interface FloorPlanDimensions {
+  image?: {
+    width: number;
+    height: number;
+  };
+  scale?: {
+    meters_per_pixel: number;
+    reference: {
+      start: Point;
+      end: Point;
+      length_m: number;
+    };
+  };
+  outline_px?: Point[];
+  outline?: Point[];
+  columns_px?: Point[][];
+  columns?: Point[][];
+  cores_px?: Point[][];
+  cores?: Point[][];
+  shafts_px?: Point[][];
+  shafts?: Point[][];
+  openings_px?: Opening[];
+  openings?: Opening[];
+}
+
+export function metersPerPixel(start: Point, end: Point, lengthM: number): number | null {
+  const pixels = distance(start, end);
+  if (pixels === 0 || lengthM <= 0) return null;
+  return lengthM / pixels;
+}
+
+export function toMeters(points: Point[], scale: number): Point[] {
+  return points.map((p) => ({ x: p.x * scale, y: p.y * scale }));
+}
+
+export function openingToMeters(opening: Opening, scale: number): Opening {
+  const [start, end] = toMeters([opening.start, opening.end], scale);
+  return { type: opening.type, start, end };
+}
+
+// Unit normal of an opening pointing into the floor.
+export function inwardNormal(opening: Opening, outline: Point[]): Point {
+  const dx = opening.end.x - opening.start.x;
+  const dy = opening.end.y - opening.start.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const mid = { x: (opening.start.x + opening.end.x) / 2, y: (opening.start.y + opening.end.y) / 2 };
+  const normal = { x: -dy / length, y: dx / length };
+  return pointInPolygon({ x: mid.x + normal.x * 0.25, y: mid.y + normal.y * 0.25 }, outline)
+    ? normal
+    : { x: -normal.x, y: -normal.y };
+}
+
+// Columns, cores and shafts, i.e. everything inside the outline that can't be
+// furnished.
+export function obstaclesOf(dimensions: FloorPlanDimensions): Point[][] {
+  return [...(dimensions.columns ?? []), ...(dimensions.cores ?? []), ...(dimensions.shafts ?? [])];
+}
+
+export function computeAreas(dimensions: FloorPlanDimensions): { total: number; usable: number } | null {
+  if (!dimensions.outline || dimensions.outline.length < 3) return null;
+
+  const total = polygonArea(dimensions.outline);
+  const excluded = obstaclesOf(dimensions)
+    .reduce((sum, polygon) => sum + polygonArea(polygon), 0);
+
+  return {
+    total: Math.round(total * 10) / 10,
+    usable: Math.round(Math.max(0, total - excluded) * 10) / 10
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ScenarioFloorPlan, ScenarioProfile } from './growthScenarios';
+import { evaluateScenario, headcountsFromGrowth, requirementsForHeadcount, runOutYear } from './growthScenarios';
+import { DEFAULT_SPACE_STANDARDS } from './spaceStandards';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const profile: ScenarioProfile = { attendance_ratio: 1, desk_sharing_ratio: 1, teams: [] };
+
+const floorPlans: ScenarioFloorPlan[] = [
+  { id: 'small', name: '12F', floor_area_sqm: 400 },
+  { id: 'large', name: '15F', floor_area_sqm: 2000 },
+  { id: 'unmeasured', name: '16F', floor_area_sqm: null }
+];
+
+describe('headcountsFromGrowth', () => {
+  it('compounds growth from the first year, rounding people up', () => {
+    expect(headcountsFromGrowth(40, 25, 3, 2026)).toEqual([
+      { year: 2026, headcount: 40 },
+      { year: 2027, headcount: 50 },
+      { year: 2028, headcount: 63 },
+      { year: 2029, headcount: 79 }
+    ]);
+  });
+});
+
+describe('requirementsForHeadcount', () => {
+  it('applies attendance and desk sharing to the workstation count', () => {
+    const req = requirementsForHeadcount({ ...profile, attendance_ratio: 0.6, desk_sharing_ratio: 0.5 }, 100);
+
+    expect(req.workstations).toBe(30);
+    expect(req.server_room).toBe(false);
+  });
+});
+
+describe('evaluateScenario', () => {
+  const results = evaluateScenario({
+    profile,
+    headcounts: [{ year: 2028, headcount: 120 }, { year: 2026, headcount: 16 }, { year: 2027, headcount: 20 }],
+    floor_plan_ids: ['small', 'large', 'unmeasured']
+  }, floorPlans, DEFAULT_SPACE_STANDARDS);
+
+  it('evaluates years in order against floor plans with a known area', () => {
+    expect(results.map((r) => r.year)).toEqual([2026, 2027, 2028]);
+    expect(results[0].plans.map((p) => p.floorPlanId)).toEqual(['small', 'large']);
+    expect(results[2].requiredArea).toBeGreaterThan(results[0].requiredArea);
+  });
+
+  it('finds the first year a floor plan runs out', () => {
+    expect(runOutYear(results, 'small')).toBe(2028);
+    expect(runOutYear(results, 'large')).toBeNull();
+  });
+});
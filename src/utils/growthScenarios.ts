@@ -0,0 +1,116 @@
+import { supabase } from '../lib/supabase';
+import { FEASIBILITY_THRESHOLD, calculateFeasibilityScore } from './feasibility';
+import type { HeadcountProfile } from './headcountPlanner';
+import { DEFAULT_HEADCOUNT_PROFILE, deriveRequirements, projectedHeadcount } from './headcountPlanner';
+import type { LayoutRequirements } from './layoutEngine';
+import type { SpaceStandards } from './spaceStandards';
+import { estimateProgramArea } from './spaceStandards';
+
+export interface HeadcountYear {
+  year: number;
+  headcount: number;
+}
+
+// Attendance, desk sharing and team mix carry over to every year; only the
+// headcount changes.
+export type ScenarioProfile = Pick<HeadcountProfile, 'attendance_ratio' | 'desk_sharing_ratio' | 'teams'>;
+
+export interface GrowthScenario {
+  id: string;
+  project_id: string;
+  name: string;
+  profile: ScenarioProfile;
+  headcounts: HeadcountYear[];
+  floor_plan_ids: string[];
+}
+
+export interface ScenarioFloorPlan {
+  id: string;
+  name: string;
+  floor_area_sqm: number | null;
+}
+
+export interface ScenarioPlanResult {
+  floorPlanId: string;
+  score: number;
+  fits: boolean;
+}
+
+export interface ScenarioYearResult {
+  year: number;
+  headcount: number;
+  requirements: LayoutRequirements;
+  requiredArea: number;
+  plans: ScenarioPlanResult[];
+}
+
+export function headcountsFromGrowth(start: number, growthRate: number, years: number, firstYear: number): HeadcountYear[] {
+  return Array.from({ length: years + 1 }, (_, i) => ({
+    year: firstYear + i,
+    headcount: projectedHeadcount(start, growthRate, i)
+  }));
+}
+
+export function requirementsForHeadcount(profile: ScenarioProfile, headcount: number): LayoutRequirements {
+  const derived = deriveRequirements(
+    { ...DEFAULT_HEADCOUNT_PROFILE, ...profile, growth_rate: 0, planning_years: 0 },
+    headcount
+  );
+  return { ...derived, server_room: false };
+}
+
+export function evaluateScenario(
+  scenario: Pick<GrowthScenario, 'profile' | 'headcounts' | 'floor_plan_ids'>,
+  floorPlans: ScenarioFloorPlan[],
+  standards: SpaceStandards
+): ScenarioYearResult[] {
+  const selected = floorPlans.filter((plan) => scenario.floor_plan_ids.includes(plan.id) && plan.floor_area_sqm);
+
+  return [...scenario.headcounts]
+    .sort((a, b) => a.year - b.year)
+    .map(({ year, headcount }) => {
+      const requirements = requirementsForHeadcount(scenario.profile, headcount);
+      return {
+        year,
+        headcount,
+        requirements,
+        requiredArea: Math.round(estimateProgramArea(requirements, standards).total),
+        plans: selected.map((plan) => {
+          const score = calculateFeasibilityScore(requirements, plan.floor_area_sqm, standards);
+          return { floorPlanId: plan.id, score, fits: score >= FEASIBILITY_THRESHOLD };
+        })
+      };
+    });
+}
+
+// First year a floor plan no longer fits, or null if it lasts the whole scenario.
+export function runOutYear(results: ScenarioYearResult[], floorPlanId: string): number | null {
+  return results.find((result) => result.plans.some((plan) => plan.floorPlanId === floorPlanId && !plan.fits))?.year ?? null;
+}
+
+export async function loadGrowthScenarios(projectId: string): Promise<GrowthScenario[]> {
+  const { data, error } = await supabase
+    .from('growth_scenarios')
+    .select('id, project_id, name, profile, headcounts, floor_plan_ids')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveGrowthScenario(scenario: Omit<GrowthScenario, 'id'> & { id?: string }): Promise<GrowthScenario> {
+  const { data, error } = await supabase
+    .from('growth_scenarios')
+    .upsert(scenario)
+    .select('id, project_id, name, profile, headcounts, floor_plan_ids')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteGrowthScenario(id: string): Promise<void> {
+  const { error } = await supabase.from('growth_scenarios').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { HeadcountProfile } from './headcountPlanner';
+import { DEFAULT_HEADCOUNT_PROFILE, deriveRequirements, projectedHeadcount, totalHeadcount } from './headcountPlanner';
+
+const profile = (changes: Partial<HeadcountProfile> = {}): HeadcountProfile => ({
+  ...DEFAULT_HEADCOUNT_PROFILE,
+  ...changes
+});
+
+describe('totalHeadcount', () => {
+  it('adds up the teams when there are any', () => {
+    expect(totalHeadcount(profile({ headcount: 50 }))).toBe(50);
+    expect(totalHeadcount(profile({
+      headcount: 50,
+      teams: [
+        { id: 'a', name: '業務', headcount: 12, work_style: 'calls' },
+        { id: 'b', name: '研發', headcount: 20, work_style: 'focus' }
+      ]
+    }))).toBe(32);
+  });
+});
+
+describe('projectedHeadcount', () => {
+  it('compounds growth and rounds people up', () => {
+    expect(projectedHeadcount(100, 10, 2)).toBe(121);
+    expect(projectedHeadcount(40, 25, 1)).toBe(50);
+    expect(projectedHeadcount(41, 10, 1)).toBe(46);
+  });
+});
+
+describe('deriveRequirements', () => {
+  it('sizes rooms for an average team from the planning ratios', () => {
+    expect(deriveRequirements(profile({ headcount: 60 }))).toEqual({
+      workstations: 60,
+      meeting_rooms_small: 5,
+      meeting_rooms_medium: 2,
+      meeting_rooms_large: 1,
+      phone_booths: 6,
+      breakout_areas: 2,
+      kitchen_pantry: true,
+      reception_area: true,
+      storage_rooms: 1
+    });
+  });
+
+  it('plans desks for the people in the office after desk sharing', () => {
+    const req = deriveRequirements(profile({ headcount: 100, attendance_ratio: 0.6, desk_sharing_ratio: 0.8 }));
+
+    expect(req.workstations).toBe(48);
+    expect(req.reception_area).toBe(true);
+  });
+
+  it('leaves out shared rooms a small office does not need', () => {
+    expect(deriveRequirements(profile({ headcount: 6 }))).toMatchObject({
+      meeting_rooms_small: 1,
+      meeting_rooms_large: 0,
+      kitchen_pantry: false,
+      reception_area: false
+    });
+    expect(deriveRequirements(profile({ headcount: 0 }))).toMatchObject({
+      meeting_rooms_small: 0,
+      breakout_areas: 0,
+      storage_rooms: 0
+    });
+  });
+
+  it('weighs meeting rooms and booths by work style', () => {
+    const team = (work_style: 'focus' | 'collaborative' | 'calls') =>
+      deriveRequirements(profile({ teams: [{ id: 'a', name: '團隊', headcount: 40, work_style }] }));
+
+    expect(team('collaborative').meeting_rooms_small).toBeGreaterThan(team('focus').meeting_rooms_small);
+    expect(team('calls').phone_booths).toBe(2 * team('focus').phone_booths);
+  });
+});
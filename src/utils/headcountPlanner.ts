@@ -0,0 +1,115 @@
+import type { LayoutRequirements } from './layoutEngine';
+
+export type WorkStyle = 'focus' | 'collaborative' | 'calls';
+
+export interface TeamHeadcount {
+  id: string;
+  name: string;
+  headcount: number;
+  work_style: WorkStyle;
+}
+
+// What clients tell us; stored with the requirement so the wizard can be
+// reopened with the same answers.
+export interface HeadcountProfile {
+  headcount: number;
+  // Yearly growth in percent, compounded over `planning_years`.
+  growth_rate: number;
+  planning_years: number;
+  // Share of staff in the office on the busiest day, 0-1.
+  attendance_ratio: number;
+  // Desks per person in the office, 0-1; below 1 some people work from
+  // breakout areas, booths or meeting rooms.
+  desk_sharing_ratio: number;
+  teams: TeamHeadcount[];
+}
+
+export type DerivedRequirements = Pick<
+  LayoutRequirements,
+  | 'workstations'
+  | 'meeting_rooms_small'
+  | 'meeting_rooms_medium'
+  | 'meeting_rooms_large'
+  | 'phone_booths'
+  | 'breakout_areas'
+  | 'kitchen_pantry'
+  | 'reception_area'
+  | 'storage_rooms'
+>;
+
+export const WORK_STYLE_LABELS: Record<WorkStyle, string> = {
+  focus: '專注型',
+  collaborative: '協作型',
+  calls: '通話型'
+};
+
+export const DEFAULT_HEADCOUNT_PROFILE: HeadcountProfile = {
+  headcount: 20,
+  growth_rate: 0,
+  planning_years: 1,
+  attendance_ratio: 1,
+  desk_sharing_ratio: 1,
+  teams: []
+};
+
+// People in the office per room. Meeting rooms and booths follow common
+// workplace planning rules of thumb; a large room is only worth it once
+// there are enough people to fill one regularly.
+export const PLANNING_RATIOS = {
+  peoplePerSmallMeetingRoom: 12,
+  peoplePerMediumMeetingRoom: 25,
+  peoplePerLargeMeetingRoom: 60,
+  minPeopleForLargeMeetingRoom: 30,
+  peoplePerPhoneBooth: 10,
+  peoplePerBreakoutArea: 40,
+  peoplePerStorageRoom: 50,
+  minPeopleForKitchen: 8,
+  minHeadcountForReception: 20
+};
+
+// How much each work style needs meeting rooms and phone booths compared
+// to an average team.
+export const WORK_STYLE_WEIGHTS: Record<WorkStyle, { meeting: number; calls: number }> = {
+  focus: { meeting: 0.75, calls: 1 },
+  collaborative: { meeting: 1.5, calls: 1 },
+  calls: { meeting: 1, calls: 2 }
+};
+
+export function totalHeadcount(profile: HeadcountProfile): number {
+  return profile.teams.length > 0
+    ? profile.teams.reduce((sum, team) => sum + team.headcount, 0)
+    : profile.headcount;
+}
+
+export function projectedHeadcount(headcount: number, growthRate: number, years: number): number {
+  return Math.ceil(headcount * Math.pow(1 + growthRate / 100, years) - 1e-9);
+}
+
+export function deriveRequirements(profile: HeadcountProfile, headcount = totalHeadcount(profile)): DerivedRequirements {
+  const planned = projectedHeadcount(headcount, profile.growth_rate, profile.planning_years);
+  const attending = Math.ceil(planned * profile.attendance_ratio - 1e-9);
+
+  // Teams scale the room demand by their work style; without teams everyone
+  // counts as an average team.
+  const teamTotal = profile.teams.reduce((sum, team) => sum + team.headcount, 0);
+  const weighted = (kind: 'meeting' | 'calls') => teamTotal > 0
+    ? attending * profile.teams.reduce((sum, team) => sum + team.headcount * WORK_STYLE_WEIGHTS[team.work_style][kind], 0) / teamTotal
+    : attending;
+  const meetingDemand = weighted('meeting');
+  const callDemand = weighted('calls');
+  const r = PLANNING_RATIOS;
+
+  return {
+    workstations: Math.ceil(attending * profile.desk_sharing_ratio - 1e-9),
+    meeting_rooms_small: attending > 0 ? Math.max(1, Math.round(meetingDemand / r.peoplePerSmallMeetingRoom)) : 0,
+    meeting_rooms_medium: Math.round(meetingDemand / r.peoplePerMediumMeetingRoom),
+    meeting_rooms_large: attending >= r.minPeopleForLargeMeetingRoom
+      ? Math.max(1, Math.round(meetingDemand / r.peoplePerLargeMeetingRoom))
+      : 0,
+    phone_booths: Math.ceil(callDemand / r.peoplePerPhoneBooth - 1e-9),
+    breakout_areas: attending > 0 ? Math.max(1, Math.round(attending / r.peoplePerBreakoutArea)) : 0,
+    kitchen_pantry: attending >= r.minPeopleForKitchen,
+    reception_area: planned >= r.minHeadcountForReception,
+    storage_rooms: attending > 0 ? Math.max(1, Math.round(attending / r.peoplePerStorageRoom)) : 0
+  };
+}
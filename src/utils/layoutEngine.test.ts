@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { inflateRect, rectanglePolygon, rectsOverlap } from './geometry';
+import type { LayoutPlan, LayoutRequirements } from './layoutEngine';
+import { DESK_DEPTH, DESK_WIDTH, clusterDesks, defaultOutline, findLayoutConflicts, generateLayout, summarizeLayout } from './layoutEngine';
+
+const requirements = (changes: Partial<LayoutRequirements> = {}): LayoutRequirements => ({
+  workstations: 0,
+  meeting_rooms_small: 0,
+  meeting_rooms_medium: 0,
+  meeting_rooms_large: 0,
+  phone_booths: 0,
+  breakout_areas: 0,
+  kitchen_pantry: false,
+  reception_area: false,
+  storage_rooms: 0,
+  server_room: false,
+  ...changes
+});
+
+describe('generateLayout', () => {
+  it.each([1, 3, 39, 40, 41])('places exactly %i requested workstations when there is room', (workstations) => {
+    const req = requirements({ workstations });
+    const summary = summarizeLayout(generateLayout(defaultOutline(1000), req), req);
+
+    expect(summary.workstations_placed).toBe(workstations);
+    expect(summary.constraints_met.workstations).toBe(true);
+  });
+
+  it('places rooms and desks without overlaps or blocked corridors', () => {
+    const req = requirements({
+      workstations: 60,
+      meeting_rooms_small: 2,
+      meeting_rooms_medium: 1,
+      phone_booths: 2,
+      kitchen_pantry: true,
+      reception_area: true
+    });
+    const plan = generateLayout(defaultOutline(1000), req);
+    const summary = summarizeLayout(plan, req);
+
+    expect(findLayoutConflicts(plan)).toEqual([]);
+    expect(summary.meeting_rooms_placed).toEqual({ small: 2, medium: 1, large: 0 });
+    expect(summary.amenities_placed.kitchen).toBe(true);
+    expect(summary.amenities_placed.reception).toBe(true);
+  });
+
+  it('keeps doors clear and furniture off columns', () => {
+    const req = requirements({ workstations: 40, meeting_rooms_small: 2, kitchen_pantry: true });
+    const entrance = { type: 'entrance' as const, start: { x: 0, y: 8 }, end: { x: 0, y: 10 } };
+    const column = rectanglePolygon(0.6, 0.6).map((p) => ({ x: p.x + 12, y: p.y + 6 }));
+    const plan = generateLayout(rectanglePolygon(40, 25), req, { obstacles: [column], openings: [entrance] });
+    const items = [...plan.rooms, ...plan.deskClusters];
+
+    expect(findLayoutConflicts(plan)).toEqual([]);
+    expect(items.some((item) => rectsOverlap(item, { x: 0, y: 8, width: 1.5, height: 2 }))).toBe(false);
+    expect(plan.openings).toEqual([entrance]);
+  });
+
+  it('connects every corridor to the entrance', () => {
+    const entrance = { type: 'entrance' as const, start: { x: 18, y: 0 }, end: { x: 20, y: 0 } };
+    const plan = generateLayout(rectanglePolygon(40, 30), requirements({ workstations: 80 }), { obstacles: [], openings: [entrance] });
+    const corridors = plan.corridors.filter((corridor) => corridor.width > 3 || corridor.height > 3);
+    const reached = corridors.filter((corridor) => rectsOverlap(inflateRect(corridor, 0.01), { x: 18, y: 0, width: 2, height: 0.01 }));
+
+    for (let i = 0; i < reached.length; i++) {
+      corridors
+        .filter((corridor) => !reached.includes(corridor) && rectsOverlap(inflateRect(corridor, 0.01), reached[i]))
+        .forEach((corridor) => reached.push(corridor));
+    }
+
+    expect(corridors.length).toBeGreaterThan(2);
+    expect(reached).toHaveLength(corridors.length);
+  });
+
+  it('places custom rooms and counts them by id', () => {
+    const req = requirements({
+      workstations: 10,
+      custom_rooms: [{ id: 'lab', name: '實驗室', area: 12, count: 2, capacity: 4, adjacent_to: [] }]
+    });
+    const plan = generateLayout(defaultOutline(400), req);
+    const summary = summarizeLayout(plan, req);
+
+    expect(plan.rooms.filter((room) => room.type === 'custom').map((room) => room.name)).toEqual(['實驗室', '實驗室']);
+    expect(summary.custom_rooms_placed).toEqual({ lab: 2 });
+    expect(summary.constraints_met.custom_rooms).toBe(true);
+  });
+
+  it('reports unmet workstations when the floor is too small', () => {
+    const req = requirements({ workstations: 500 });
+    const summary = summarizeLayout(generateLayout(defaultOutline(200), req), req);
+
+    expect(summary.workstations_placed).toBeGreaterThan(0);
+    expect(summary.workstations_placed).toBeLessThan(500);
+    expect(summary.constraints_met.workstations).toBe(false);
+  });
+});
+
+describe('clusterDesks', () => {
+  it('lines desks up in two rows when the cluster is two desks deep', () => {
+    const desks = clusterDesks({ id: 'desks-0', axis: 'y', x: 0, y: 0, width: DESK_DEPTH * 2, height: DESK_WIDTH * 3 });
+
+    expect(desks).toHaveLength(6);
+    expect(new Set(desks.map((desk) => desk.x))).toEqual(new Set([0, DESK_DEPTH]));
+  });
+
+  it('uses a single row when the cluster is one desk deep', () => {
+    const desks = clusterDesks({ id: 'desks-0', axis: 'x', x: 0, y: 0, width: DESK_WIDTH * 4, height: DESK_DEPTH });
+
+    expect(desks).toHaveLength(4);
+  });
+});
+
+describe('findLayoutConflicts', () => {
+  it('flags overlapping items, blocked corridors and items outside the floor', () => {
+    const plan: LayoutPlan = {
+      outline: rectanglePolygon(20, 10),
+      corridors: [{ x: 0, y: 0, width: 20, height: 1.5 }],
+      rooms: [
+        { id: 'room-0', type: 'meeting_small', x: 2, y: 2, width: 4, height: 4 },
+        { id: 'room-1', type: 'storage', x: 5, y: 3, width: 3, height: 3 },
+        { id: 'room-2', type: 'kitchen', x: 10, y: 1, width: 3, height: 3 },
+        { id: 'room-3', type: 'breakout', x: 18, y: 6, width: 4, height: 3 },
+        { id: 'room-4', type: 'phone_booth', x: 14, y: 5, width: 1, height: 1.5 }
+      ],
+      deskClusters: []
+    };
+
+    expect(findLayoutConflicts(plan).sort()).toEqual(['room-0', 'room-1', 'room-2', 'room-3']);
+  });
+
+  it('flags items placed on a column', () => {
+    const plan: LayoutPlan = {
+      outline: rectanglePolygon(20, 10),
+      corridors: [],
+      rooms: [],
+      deskClusters: [{ id: 'desks-0', axis: 'y', x: 4, y: 4, width: DESK_DEPTH * 2, height: DESK_WIDTH * 2 }],
+      obstacles: [rectanglePolygon(0.5, 0.5).map((p) => ({ x: p.x + 5, y: p.y + 5 }))]
+    };
+
+    expect(findLayoutConflicts(plan)).toEqual(['desks-0']);
+  });
+});
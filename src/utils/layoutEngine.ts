@@ -0,0 +1,880 @@
+import type { Point, Rect } from './geometry';
+import {
+  distanceToRect,
+  inflateRect,
+  pointInPolygon,
+  polygonArea,
+  polygonBounds,
+  rectArea,
+  rectCenter,
+  rectanglePolygon,
+  rectsOverlap
+} from './geometry';
+import type { Opening } from './floorPlanDimensions';
+import { inwardNormal } from './floorPlanDimensions';
+import { COMPASS_DIRECTIONS } from './floorMetadata';
+import { daylightScore, windowWeight } from './daylight';
+import { WORKSTATIONS_KEY, ZONE_BUFFER, effectiveRules, findAdjacencyViolations, opposingZone, placementCost, roomKey } from './adjacency';
+
+export type RoomType =
+  | 'meeting_small'
+  | 'meeting_medium'
+  | 'meeting_large'
+  | 'phone_booth'
+  | 'breakout'
+  | 'kitchen'
+  | 'reception'
+  | 'storage'
+  | 'server_room';
+
+// Compass directions follow the floor plan's north arrow; without one, north
+// is up on the drawing.
+export type RoomLocation =
+  | 'north'
+  | 'northeast'
+  | 'east'
+  | 'southeast'
+  | 'south'
+  | 'southwest'
+  | 'west'
+  | 'northwest'
+  | 'center'
+  | 'window'
+  | 'entrance'
+  | 'interior';
+
+// A user-defined room type. `adjacent_to` lists built-in room types or ids of
+// other custom rooms it should sit next to.
+export interface CustomRoomRequirement {
+  id: string;
+  name: string;
+  area: number;
+  count: number;
+  capacity: number;
+  adjacent_to: string[];
+  location?: RoomLocation;
+}
+
+export type AdjacencyRelation = 'adjacent' | 'near' | 'apart';
+
+export type Zone = 'quiet' | 'loud';
+
+// A pairwise constraint between two rooms, each given as a built-in room type
+// or a custom room id.
+export interface AdjacencyRule {
+  a: string;
+  b: string;
+  relation: AdjacencyRelation;
+}
+
+export interface AdjacencyViolation {
+  rule: AdjacencyRelation | 'zone';
+  a: string;
+  b: string;
+}
+
+export interface LayoutRequirements {
+  workstations: number;
+  meeting_rooms_small: number;
+  meeting_rooms_medium: number;
+  meeting_rooms_large: number;
+  phone_booths: number;
+  breakout_areas: number;
+  kitchen_pantry: boolean;
+  reception_area: boolean;
+  storage_rooms: number;
+  server_room: boolean;
+  custom_rooms?: CustomRoomRequirement[];
+  adjacency_rules?: AdjacencyRule[];
+  // Keyed by room type, custom room id or WORKSTATIONS_KEY.
+  zones?: Partial<Record<string, Zone>>;
+}
+
+export interface PlacedRoom extends Rect {
+  id: string;
+  type: RoomType | 'custom';
+  // Set for custom rooms only.
+  customRoomId?: string;
+  name?: string;
+}
+
+export interface DeskCluster extends Rect {
+  id: string;
+  // Direction along which desks are lined up; rows run side by side across it.
+  axis: 'x' | 'y';
+  // Width of each desk along the axis; DESK_WIDTH when not set.
+  deskWidth?: number;
+}
+
+// Annotated features of the floor, in the same coordinates as the outline.
+export interface SiteFeatures {
+  obstacles: Point[][];
+  openings: Opening[];
+  // From the floor plan's metadata; see FloorPlanMetadata.
+  northAngle?: number | null;
+  ceilingHeight?: number | null;
+}
+
+// Sizes the generator works with; filled from the project's space standards.
+export interface LayoutOptions {
+  roomAreas: Record<RoomType, number>;
+  deskWidth: number;
+}
+
+export interface LayoutPlan {
+  outline: Point[];
+  corridors: Rect[];
+  rooms: PlacedRoom[];
+  deskClusters: DeskCluster[];
+  obstacles?: Point[][];
+  openings?: Opening[];
+  northAngle?: number;
+  ceilingHeight?: number;
+}
+
+export interface LayoutSummary {
+  workstations_placed: number;
+  meeting_rooms_placed: {
+    small: number;
+    medium: number;
+    large: number;
+  };
+  amenities_placed: {
+    phone_booths: number;
+    breakout_areas: number;
+    kitchen: boolean;
+    reception: boolean;
+    storage: number;
+    server_room: boolean;
+  };
+  // Placed count per custom room id.
+  custom_rooms_placed: Record<string, number>;
+  adjacency_violations: AdjacencyViolation[];
+  // 0-100, null when no windows are annotated; see daylightScore.
+  daylight_score: number | null;
+  utilization_rate: number;
+  constraints_met: {
+    workstations: boolean;
+    meeting_rooms: boolean;
+    amenities: boolean;
+    custom_rooms: boolean;
+    adjacency: boolean;
+    zoning: boolean;
+  };
+}
+
+export const ROOM_AREAS: Record<RoomType, number> = {
+  meeting_small: 15,
+  meeting_medium: 25,
+  meeting_large: 40,
+  phone_booth: 2,
+  breakout: 20,
+  kitchen: 15,
+  reception: 20,
+  storage: 10,
+  server_room: 15
+};
+
+export const ROOM_LABELS: Record<RoomType, string> = {
+  meeting_small: '小型會議室',
+  meeting_medium: '中型會議室',
+  meeting_large: '大型會議室',
+  phone_booth: '電話亭',
+  breakout: '休息區',
+  kitchen: '茶水間',
+  reception: '接待區',
+  storage: '儲藏室',
+  server_room: '機房'
+};
+
+export const LOCATION_LABELS: Record<RoomLocation, string> = {
+  north: '北側',
+  northeast: '東北側',
+  east: '東側',
+  southeast: '東南側',
+  south: '南側',
+  southwest: '西南側',
+  west: '西側',
+  northwest: '西北側',
+  center: '中央',
+  window: '靠窗',
+  entrance: '靠近入口',
+  interior: '內側'
+};
+
+export const RELATION_LABELS: Record<AdjacencyRelation, string> = {
+  adjacent: '必須相鄰',
+  near: '盡量靠近',
+  apart: '必須分開'
+};
+
+export const ZONE_LABELS: Record<Zone, string> = {
+  quiet: '安靜區',
+  loud: '吵雜區'
+};
+
+export function roomLabel(room: PlacedRoom): string {
+  return room.type === 'custom' ? room.name ?? '自訂空間' : ROOM_LABELS[room.type];
+}
+
+// Label for a key used by adjacency rules and zones.
+export function requirementKeyLabel(key: string, customRooms: CustomRoomRequirement[] = []): string {
+  if (key === WORKSTATIONS_KEY) return '工作區';
+  if (key in ROOM_LABELS) return ROOM_LABELS[key as RoomType];
+  return customRooms.find((custom) => custom.id === key)?.name || '自訂空間';
+}
+
+export function describeViolation(violation: AdjacencyViolation, customRooms: CustomRoomRequirement[] = []): string {
+  const a = requirementKeyLabel(violation.a, customRooms);
+  const b = requirementKeyLabel(violation.b, customRooms);
+  switch (violation.rule) {
+    case 'adjacent':
+      return `${a}與${b}沒有相鄰`;
+    case 'near':
+      return `${a}與${b}距離太遠`;
+    case 'apart':
+      return `${a}與${b}距離太近`;
+    case 'zone':
+      return `安靜的${a}緊鄰吵雜的${b}`;
+  }
+}
+
+// All dimensions in meters. A desk is DESK_WIDTH wide and DESK_DEPTH deep
+// including the chair zone; clusters are two desks back to back.
+export const GRID_SIZE = 0.5;
+export const CORRIDOR_WIDTH = 1.5;
+export const AISLE_WIDTH = 1.0;
+export const DESK_WIDTH = 1.6;
+export const DESK_DEPTH = 1.5;
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = { roomAreas: ROOM_AREAS, deskWidth: DESK_WIDTH };
+const MAX_BAND_DEPTH = 6;
+const MIN_ROOM_SIDE = 1.5;
+// Depth of the area kept clear on the inside of entrances and fire exits.
+const DOOR_CLEARANCE = 1.5;
+// Adjacency and zoning costs outweigh location preferences, which are
+// distances in meters as well.
+const CONSTRAINT_WEIGHT = 10;
+
+const OUTSIDE = 0;
+const FREE = 1;
+const TAKEN = 2;
+
+interface Band {
+  start: number;
+  end: number;
+  edge: number;
+  direction: 1 | -1;
+  depth: number;
+}
+
+class OccupancyGrid {
+  readonly cols: number;
+  readonly rows: number;
+  private readonly cells: Uint8Array;
+  private readonly origin: Rect;
+
+  constructor(outline: Point[], obstacles: Point[][]) {
+    this.origin = polygonBounds(outline);
+    this.cols = Math.max(1, Math.round(this.origin.width / GRID_SIZE));
+    this.rows = Math.max(1, Math.round(this.origin.height / GRID_SIZE));
+    this.cells = new Uint8Array(this.cols * this.rows);
+
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        const center = {
+          x: this.origin.x + (col + 0.5) * GRID_SIZE,
+          y: this.origin.y + (row + 0.5) * GRID_SIZE
+        };
+        this.cells[row * this.cols + col] = pointInPolygon(center, outline) ? FREE : OUTSIDE;
+      }
+    }
+
+    // Any cell touched by a column or shaft is unusable, however small it is.
+    obstacles.forEach((obstacle) => this.mark(polygonBounds(obstacle), OUTSIDE));
+  }
+
+  private span(rect: Rect) {
+    const eps = 1e-6;
+    return {
+      col0: Math.floor((rect.x - this.origin.x) / GRID_SIZE + eps),
+      col1: Math.ceil((rect.x + rect.width - this.origin.x) / GRID_SIZE - eps),
+      row0: Math.floor((rect.y - this.origin.y) / GRID_SIZE + eps),
+      row1: Math.ceil((rect.y + rect.height - this.origin.y) / GRID_SIZE - eps)
+    };
+  }
+
+  isFree(rect: Rect): boolean {
+    const { col0, col1, row0, row1 } = this.span(rect);
+    if (col0 < 0 || row0 < 0 || col1 > this.cols || row1 > this.rows) return false;
+
+    for (let row = row0; row < row1; row++) {
+      for (let col = col0; col < col1; col++) {
+        if (this.cells[row * this.cols + col] !== FREE) return false;
+      }
+    }
+    return true;
+  }
+
+  take(rect: Rect) {
+    this.mark(rect, TAKEN);
+  }
+
+  private mark(rect: Rect, state: number) {
+    const { col0, col1, row0, row1 } = this.span(rect);
+    for (let row = Math.max(0, row0); row < Math.min(this.rows, row1); row++) {
+      for (let col = Math.max(0, col0); col < Math.min(this.cols, col1); col++) {
+        if (this.cells[row * this.cols + col] !== OUTSIDE) this.cells[row * this.cols + col] = state;
+      }
+    }
+  }
+
+  // Free depth of a column strip [x, x + width) measured from a band edge.
+  freeDepth(band: Band, x: number, width: number): number {
+    let depth = 0;
+    while (depth + GRID_SIZE <= band.depth + 1e-6) {
+      const y = band.direction === 1 ? band.edge + depth : band.edge - depth - GRID_SIZE;
+      if (!this.isFree({ x, y, width, height: GRID_SIZE })) break;
+      depth += GRID_SIZE;
+    }
+    return depth;
+  }
+}
+
+const snapUp = (value: number) => Math.ceil(value / GRID_SIZE - 1e-6) * GRID_SIZE;
+const snapDown = (value: number) => Math.floor(value / GRID_SIZE + 1e-6) * GRID_SIZE;
+
+// Rooms face the corridor with their short side (up to 1:2) so that more
+// frontage is left for desk clusters.
+export function roomDimensions(area: number, maxDepth: number): { width: number; depth: number } {
+  const depth = Math.max(MIN_ROOM_SIDE, Math.min(snapDown(maxDepth), snapUp(Math.sqrt(area * 2))));
+  const width = Math.max(MIN_ROOM_SIDE, snapUp(area / depth));
+  return { width, depth };
+}
+
+export function deskClusterSeats(cluster: DeskCluster): number {
+  return clusterDesks(cluster).length;
+}
+
+export function clusterDesks(cluster: DeskCluster): Rect[] {
+  const vertical = cluster.axis === 'y';
+  const deskWidth = cluster.deskWidth ?? DESK_WIDTH;
+  const long = vertical ? cluster.height : cluster.width;
+  const short = vertical ? cluster.width : cluster.height;
+  const rows = short >= DESK_DEPTH * 2 - 1e-6 ? 2 : short >= DESK_DEPTH - 1e-6 ? 1 : 0;
+  const perRow = Math.floor(long / deskWidth + 1e-6);
+  const desks: Rect[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let i = 0; i < perRow; i++) {
+      desks.push(vertical
+        ? { x: cluster.x + row * DESK_DEPTH, y: cluster.y + i * deskWidth, width: DESK_DEPTH, height: deskWidth }
+        : { x: cluster.x + i * deskWidth, y: cluster.y + row * DESK_DEPTH, width: deskWidth, height: DESK_DEPTH });
+    }
+  }
+
+  return desks;
+}
+
+export function defaultOutline(floorAreaSqm: number): Point[] {
+  const width = Math.sqrt(floorAreaSqm * 1.5);
+  return rectanglePolygon(width, floorAreaSqm / width);
+}
+
+// Corridors run the length of the floor; with more than one, a spine across
+// them at the entrance (or the west end) connects them to each other and to
+// the way in, and splits each band in two.
+function planBands(bounds: Rect, entrance: Point | null): { corridors: Rect[]; bands: Band[] } {
+  const corridors: Rect[] = [];
+  const bands: Band[] = [];
+  const start = bounds.x;
+  const end = bounds.x + bounds.width;
+
+  if (bounds.height <= MAX_BAND_DEPTH + CORRIDOR_WIDTH) {
+    const corridor = { x: start, y: bounds.y, width: bounds.width, height: CORRIDOR_WIDTH };
+    corridors.push(corridor);
+    bands.push({
+      start,
+      end,
+      edge: corridor.y + CORRIDOR_WIDTH,
+      direction: 1,
+      depth: bounds.height - CORRIDOR_WIDTH
+    });
+    return { corridors, bands };
+  }
+
+  const count = Math.max(1, Math.round(bounds.height / (MAX_BAND_DEPTH * 2 + CORRIDOR_WIDTH)));
+  const bandDepth = (bounds.height - count * CORRIDOR_WIDTH) / (count * 2);
+  const positions = Array.from({ length: count }, (_, i) =>
+    snapDown(bounds.y + bandDepth * (2 * i + 1) + CORRIDOR_WIDTH * i)
+  );
+
+  const spineX = count > 1
+    ? Math.min(snapDown(end - CORRIDOR_WIDTH), Math.max(start, snapDown((entrance?.x ?? start) - CORRIDOR_WIDTH / 2)))
+    : null;
+  const spans: [number, number][] = spineX === null
+    ? [[start, end]]
+    : [[start, spineX], [spineX + CORRIDOR_WIDTH, end]];
+  if (spineX !== null) {
+    corridors.push({ x: spineX, y: bounds.y, width: CORRIDOR_WIDTH, height: bounds.height });
+  }
+
+  positions.forEach((y, i) => {
+    const below = i === 0 ? bounds.y : (positions[i - 1] + CORRIDOR_WIDTH + y) / 2;
+    const above = i === count - 1
+      ? bounds.y + bounds.height
+      : (y + CORRIDOR_WIDTH + positions[i + 1]) / 2;
+
+    corridors.push({ x: start, y, width: bounds.width, height: CORRIDOR_WIDTH });
+    spans
+      .filter(([from, to]) => to - from >= GRID_SIZE)
+      .forEach(([from, to]) => {
+        bands.push({ start: from, end: to, edge: y, direction: -1, depth: snapDown(y - below) });
+        bands.push({ start: from, end: to, edge: y + CORRIDOR_WIDTH, direction: 1, depth: snapDown(above - y - CORRIDOR_WIDTH) });
+      });
+  });
+
+  return { corridors, bands };
+}
+
+function bandRect(band: Band, x: number, width: number, depth: number): Rect {
+  return {
+    x,
+    y: band.direction === 1 ? band.edge : band.edge - depth,
+    width,
+    height: depth
+  };
+}
+
+interface RoomSpec {
+  type: RoomType | 'custom';
+  key: string;
+  area: number;
+  customRoomId?: string;
+  name?: string;
+  location?: RoomLocation;
+}
+
+function expandRooms(req: LayoutRequirements, roomAreas: Record<RoomType, number>): RoomSpec[] {
+  const rooms: RoomSpec[] = [];
+  const repeat = (type: RoomType, count: number) => {
+    for (let i = 0; i < count; i++) rooms.push({ type, key: type, area: roomAreas[type] });
+  };
+
+  if (req.reception_area) repeat('reception', 1);
+  repeat('meeting_large', req.meeting_rooms_large);
+  repeat('meeting_medium', req.meeting_rooms_medium);
+  repeat('breakout', req.breakout_areas);
+  if (req.kitchen_pantry) repeat('kitchen', 1);
+  if (req.server_room) repeat('server_room', 1);
+  repeat('meeting_small', req.meeting_rooms_small);
+  repeat('storage', req.storage_rooms);
+  repeat('phone_booth', req.phone_booths);
+
+  (req.custom_rooms ?? []).forEach((custom) => {
+    for (let i = 0; i < custom.count; i++) {
+      rooms.push({
+        type: 'custom',
+        key: custom.id,
+        area: custom.area,
+        customRoomId: custom.id,
+        name: custom.name,
+        location: custom.location
+      });
+    }
+  });
+
+  // Largest first, except reception which claims its spot by the entrance
+  // before anything else.
+  const rank = (room: RoomSpec) => (room.type === 'reception' ? Infinity : room.area);
+  return rooms.sort((a, b) => rank(b) - rank(a));
+}
+
+const midpoint = (opening: Opening): Point => ({
+  x: (opening.start.x + opening.end.x) / 2,
+  y: (opening.start.y + opening.end.y) / 2
+});
+
+const nearest = (point: Point, targets: Point[]) =>
+  Math.min(...targets.map((target) => Math.hypot(point.x - target.x, point.y - target.y)));
+
+// Rect on the inside of a door, as wide as the opening and DOOR_CLEARANCE deep.
+function doorClearance(opening: Opening, outline: Point[]): Rect {
+  const normal = inwardNormal(opening, outline);
+
+  return polygonBounds([
+    opening.start,
+    opening.end,
+    { x: opening.start.x + normal.x * DOOR_CLEARANCE, y: opening.start.y + normal.y * DOOR_CLEARANCE },
+    { x: opening.end.x + normal.x * DOOR_CLEARANCE, y: opening.end.y + normal.y * DOOR_CLEARANCE }
+  ]);
+}
+
+type Anchors = Record<Exclude<RoomLocation, 'window' | 'entrance' | 'interior'>, Point>;
+
+// Points on the bounding box in each compass direction from its center; with
+// north up these are the edge midpoints and corners.
+function locationAnchors(bounds: Rect, northAngle = 0): Anchors {
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+  const anchor = (bearing: number): Point => {
+    const radians = ((bearing + northAngle) * Math.PI) / 180;
+    const dx = Math.sin(radians);
+    const dy = -Math.cos(radians);
+    const scale = 1 / Math.max(Math.abs(dx), Math.abs(dy));
+    return { x: cx + (dx * scale * bounds.width) / 2, y: cy + (dy * scale * bounds.height) / 2 };
+  };
+
+  return {
+    ...Object.fromEntries(COMPASS_DIRECTIONS.map((direction, i) => [direction, anchor(i * 45)])),
+    center: { x: cx, y: cy }
+  } as Anchors;
+}
+
+// Lower is better. An explicit location hint wins; otherwise reception goes
+// next to the entrance, loud rooms gather at the entrance end and quiet ones
+// keep away from it, and other rooms keep away from windows so that daylight
+// is left for the desks. Without hints or annotations rooms are packed
+// first-fit.
+function roomPreference(
+  spec: RoomSpec,
+  site: SiteFeatures,
+  anchors: Anchors,
+  zone: Zone | undefined
+): ((rect: Rect) => number) | null {
+  const entrances = site.openings.filter((o) => o.type === 'entrance').map(midpoint);
+  const windows = site.openings.filter((o) => o.type === 'window').map(midpoint);
+  const near = (targets: Point[]) => (targets.length > 0 ? (rect: Rect) => nearest(rectCenter(rect), targets) : null);
+  const away = (targets: Point[]) => (targets.length > 0 ? (rect: Rect) => -nearest(rectCenter(rect), targets) : null);
+
+  switch (spec.location) {
+    case undefined:
+      break;
+    case 'window':
+      return near(windows);
+    case 'entrance':
+      return near(entrances);
+    case 'interior':
+      return windows.length > 0 ? away(windows) : near([anchors.center]);
+    default:
+      return near([anchors[spec.location]]);
+  }
+
+  if (spec.type === 'reception') return near(entrances);
+  if (zone) {
+    const hub = entrances.length > 0 ? entrances : [anchors.west];
+    return zone === 'loud' ? near(hub) : away(hub);
+  }
+  return away(windows);
+}
+
+function placeRooms(
+  grid: OccupancyGrid,
+  bands: Band[],
+  req: LayoutRequirements,
+  site: SiteFeatures,
+  anchors: Anchors,
+  roomAreas: Record<RoomType, number>
+): PlacedRoom[] {
+  const placed: PlacedRoom[] = [];
+  const rules = effectiveRules(req);
+  const zones = req.zones ?? {};
+
+  expandRooms(req, roomAreas).forEach((spec, index) => {
+    const location = roomPreference(spec, site, anchors, zones[spec.key]);
+    const constrained = Boolean(zones[spec.key]) || rules.some((rule) => rule.a === spec.key || rule.b === spec.key);
+    const preference = location || constrained
+      ? (rect: Rect) => (location ? location(rect) : 0) +
+        CONSTRAINT_WEIGHT * placementCost(spec.key, rect, rules, zones, placed)
+      : null;
+    let best: { rect: Rect; score: number } | null = null;
+
+    search: for (const band of bands) {
+      if (band.depth < MIN_ROOM_SIDE) continue;
+      const { width, depth } = roomDimensions(spec.area, band.depth);
+
+      for (let x = band.start; x + width <= band.end + 1e-6; x += GRID_SIZE) {
+        const rect = bandRect(band, x, width, depth);
+        if (!grid.isFree(rect)) continue;
+
+        const score = preference ? preference(rect) : 0;
+        if (!best || score < best.score - 1e-6) best = { rect, score };
+        if (!preference) break search;
+      }
+    }
+
+    if (best) {
+      grid.take(best.rect);
+      const custom = spec.customRoomId ? { customRoomId: spec.customRoomId, name: spec.name } : {};
+      placed.push({ id: `room-${index}`, type: spec.type, ...custom, ...best.rect });
+    }
+  });
+
+  return placed;
+}
+
+function placeDesks(
+  grid: OccupancyGrid,
+  bands: Band[],
+  limit: number,
+  site: SiteFeatures,
+  windowWeights: number[],
+  deskWidth: number
+) {
+  const clusters: DeskCluster[] = [];
+  const aisles: Rect[] = [];
+  let seats = 0;
+
+  const clusterDepth = (depth: number) => Math.floor(depth / deskWidth + 1e-6) * deskWidth;
+
+  // Fill the bands closest to a window first; a window facing a poor
+  // direction counts as up to a band further away.
+  const windows = site.openings.flatMap((o, i) => (o.type === 'window' ? [{ point: midpoint(o), weight: windowWeights[i] }] : []));
+  const windowDistance = (band: Band) => windows.length === 0
+    ? 0
+    : Math.min(...windows.map((w) =>
+      distanceToRect(w.point, bandRect(band, band.start, band.end - band.start, band.depth)) + (1 - w.weight) * MAX_BAND_DEPTH));
+  const ordered = [...bands].sort((a, b) => windowDistance(a) - windowDistance(b));
+
+  for (const band of ordered) {
+    let x = band.start;
+    let previousAisle: number | null = null;
+
+    while (x < band.end && seats < limit) {
+      const pairWidth = DESK_DEPTH * 2;
+      const leading = previousAisle === null ? AISLE_WIDTH : 0;
+      const pairWindow = leading + pairWidth + AISLE_WIDTH;
+      const singleWindow = leading + DESK_DEPTH;
+
+      let width = 0;
+      let depth = 0;
+      let trailingAisle = false;
+
+      if (x + pairWindow <= band.end + 1e-6) {
+        depth = clusterDepth(Math.min(grid.freeDepth(band, x, pairWindow), previousAisle ?? Infinity));
+        width = pairWidth;
+        trailingAisle = true;
+      }
+      if (depth === 0 && x + singleWindow <= band.end + 1e-6) {
+        depth = clusterDepth(Math.min(grid.freeDepth(band, x, singleWindow), previousAisle ?? Infinity));
+        width = DESK_DEPTH;
+        trailingAisle = false;
+      }
+
+      if (depth === 0) {
+        x += GRID_SIZE;
+        previousAisle = null;
+        continue;
+      }
+
+      // Seats are counted from the cluster's shape, so the last cluster must
+      // hold exactly the seats left: an odd remainder leaves its last seat to
+      // the next cluster, or to a single row when only one is left.
+      const rows = width >= DESK_DEPTH * 2 - 1e-6 ? 2 : 1;
+      const remaining = limit - seats;
+      if (rows * Math.round(depth / deskWidth) > remaining) {
+        if (remaining < rows) {
+          width = DESK_DEPTH;
+          depth = remaining * deskWidth;
+        } else {
+          depth = Math.floor(remaining / rows) * deskWidth;
+        }
+      }
+
+      if (leading > 0) {
+        const aisle = bandRect(band, x, AISLE_WIDTH, depth);
+        grid.take(aisle);
+        aisles.push(aisle);
+      }
+
+      const cluster: DeskCluster = {
+        id: `desks-${clusters.length}`,
+        axis: 'y',
+        ...(deskWidth !== DESK_WIDTH ? { deskWidth } : {}),
+        ...bandRect(band, x + leading, width, depth)
+      };
+      grid.take(cluster);
+      clusters.push(cluster);
+      seats += deskClusterSeats(cluster);
+      x += leading + width;
+
+      if (trailingAisle) {
+        const aisle = bandRect(band, x, AISLE_WIDTH, depth);
+        grid.take(aisle);
+        aisles.push(aisle);
+        x += AISLE_WIDTH;
+        previousAisle = depth;
+      } else {
+        previousAisle = null;
+      }
+    }
+  }
+
+  return { clusters, aisles };
+}
+
+const transpose = <T extends Point>(item: T): T => ({ ...item, x: item.y, y: item.x });
+const transposeRect = <T extends Rect>(item: T): T => ({
+  ...item,
+  x: item.y,
+  y: item.x,
+  width: item.height,
+  height: item.width
+});
+
+export function generateLayout(
+  outline: Point[],
+  req: LayoutRequirements,
+  site: SiteFeatures = { obstacles: [], openings: [] },
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS
+): LayoutPlan {
+  const bounds = polygonBounds(outline);
+  // Corridors always run along the long axis; work in a frame where that is x.
+  const transposed = bounds.height > bounds.width;
+  const frame = transposed ? outline.map(transpose) : outline;
+  const frameSite: SiteFeatures = transposed
+    ? {
+      ...site,
+      obstacles: site.obstacles.map((obstacle) => obstacle.map(transpose)),
+      openings: site.openings.map((o) => ({ ...o, start: transpose(o.start), end: transpose(o.end) }))
+    }
+    : site;
+
+  const grid = new OccupancyGrid(frame, frameSite.obstacles);
+  const entrance = frameSite.openings.find((o) => o.type === 'entrance');
+  const { corridors, bands } = planBands(polygonBounds(frame), entrance ? midpoint(entrance) : null);
+  const clearances = frameSite.openings
+    .filter((o) => o.type !== 'window')
+    .map((o) => doorClearance(o, frame));
+  [...corridors, ...clearances].forEach((rect) => grid.take(rect));
+
+  const anchors = locationAnchors(bounds, site.northAngle ?? 0);
+  const frameAnchors = transposed
+    ? (Object.fromEntries(Object.entries(anchors).map(([key, point]) => [key, transpose(point)])) as Anchors)
+    : anchors;
+
+  const rooms = placeRooms(grid, bands, req, frameSite, frameAnchors, options.roomAreas);
+
+  // A zoned workspace keeps its distance from rooms of the other zone.
+  const workspaceZone = req.zones?.[WORKSTATIONS_KEY];
+  if (workspaceZone) {
+    rooms
+      .filter((room) => req.zones?.[roomKey(room)] === opposingZone(workspaceZone))
+      .forEach((room) => grid.take(inflateRect(room, ZONE_BUFFER)));
+  }
+  // Window orientation is worked out on the plan as drawn, since the
+  // transposed frame is mirrored.
+  const windowWeights = site.openings.map((o) => windowWeight(o, outline, site.northAngle));
+  const { clusters, aisles } = placeDesks(grid, bands, req.workstations, frameSite, windowWeights, options.deskWidth);
+
+  const allCorridors = [...corridors, ...clearances, ...aisles];
+  const features = {
+    ...(site.obstacles.length > 0 || site.openings.length > 0 ? { obstacles: site.obstacles, openings: site.openings } : {}),
+    ...(site.northAngle != null ? { northAngle: site.northAngle } : {}),
+    ...(site.ceilingHeight ? { ceilingHeight: site.ceilingHeight } : {})
+  };
+
+  if (!transposed) {
+    return { outline, corridors: allCorridors, rooms, deskClusters: clusters, ...features };
+  }
+
+  return {
+    outline,
+    corridors: allCorridors.map(transposeRect),
+    rooms: rooms.map(transposeRect),
+    deskClusters: clusters.map((cluster) => ({ ...transposeRect(cluster), axis: 'x' })),
+    ...features
+  };
+}
+
+export function summarizeLayout(plan: LayoutPlan, req: LayoutRequirements): LayoutSummary {
+  const count = (type: RoomType) => plan.rooms.filter((room) => room.type === type).length;
+  const workstations = plan.deskClusters.reduce((sum, cluster) => sum + deskClusterSeats(cluster), 0);
+  const floorArea = polygonArea(plan.outline);
+  const assignedArea =
+    plan.rooms.reduce((sum, room) => sum + rectArea(room), 0) +
+    plan.deskClusters.reduce((sum, cluster) => sum + rectArea(cluster), 0);
+
+  const meetingRooms = {
+    small: count('meeting_small'),
+    medium: count('meeting_medium'),
+    large: count('meeting_large')
+  };
+  const amenities = {
+    phone_booths: count('phone_booth'),
+    breakout_areas: count('breakout'),
+    kitchen: count('kitchen') > 0,
+    reception: count('reception') > 0,
+    storage: count('storage'),
+    server_room: count('server_room') > 0
+  };
+  const customRooms = Object.fromEntries((req.custom_rooms ?? []).map((custom) => [
+    custom.id,
+    plan.rooms.filter((room) => room.customRoomId === custom.id).length
+  ]));
+  const violations = findAdjacencyViolations(plan, req);
+  const desks = plan.deskClusters.flatMap((cluster) => clusterDesks(cluster).map(rectCenter));
+
+  return {
+    workstations_placed: workstations,
+    meeting_rooms_placed: meetingRooms,
+    amenities_placed: amenities,
+    custom_rooms_placed: customRooms,
+    adjacency_violations: violations,
+    daylight_score: daylightScore(desks, plan.openings ?? [], plan.outline, plan),
+    utilization_rate: floorArea > 0 ? Math.round((assignedArea / floorArea) * 1000) / 10 : 0,
+    constraints_met: {
+      workstations: workstations >= req.workstations,
+      meeting_rooms:
+        meetingRooms.small >= req.meeting_rooms_small &&
+        meetingRooms.medium >= req.meeting_rooms_medium &&
+        meetingRooms.large >= req.meeting_rooms_large,
+      amenities:
+        amenities.phone_booths >= req.phone_booths &&
+        amenities.breakout_areas >= req.breakout_areas &&
+        amenities.kitchen === req.kitchen_pantry &&
+        amenities.reception === req.reception_area &&
+        amenities.storage >= req.storage_rooms &&
+        amenities.server_room === req.server_room,
+      custom_rooms: (req.custom_rooms ?? []).every((custom) => customRooms[custom.id] >= custom.count),
+      adjacency: violations.every((violation) => violation.rule === 'zone'),
+      zoning: violations.every((violation) => violation.rule !== 'zone')
+    }
+  };
+}
+
+// Ids of rooms and desk clusters that overlap each other, block a corridor or
+// door, sit on a column or shaft, or stick out of the floor outline.
+export function findLayoutConflicts(plan: LayoutPlan): string[] {
+  const items = [...plan.rooms, ...plan.deskClusters];
+  const conflicts = new Set<string>();
+
+  items.forEach((item, i) => {
+    const corners = [
+      { x: item.x, y: item.y },
+      { x: item.x + item.width, y: item.y },
+      { x: item.x, y: item.y + item.height },
+      { x: item.x + item.width, y: item.y + item.height }
+    ];
+    const inset = 1e-3;
+    const outside = corners.some((corner) => !pointInPolygon({
+      x: corner.x + (corner.x > item.x ? -inset : inset),
+      y: corner.y + (corner.y > item.y ? -inset : inset)
+    }, plan.outline));
+
+    const blocked = plan.corridors.some((corridor) => rectsOverlap(item, corridor)) ||
+      (plan.obstacles ?? []).some((obstacle) => rectsOverlap(item, polygonBounds(obstacle)));
+
+    if (outside || blocked) {
+      conflicts.add(item.id);
+    }
+
+    items.slice(i + 1).forEach((other) => {
+      if (rectsOverlap(item, other)) {
+        conflicts.add(item.id);
+        conflicts.add(other.id);
+      }
+    });
+  });
+
+  return [...conflicts];
+}
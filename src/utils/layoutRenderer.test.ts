@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { LayoutPlan } from './layoutEngine';
+import { DESK_DEPTH, DESK_WIDTH } from './layoutEngine';
+import { OBSTACLE_COLOR, OPENING_COLORS, ROOM_COLORS, renderLayoutSvg } from './layoutRenderer';
+
+// 10 x 8 m floor that does not start at the origin.
+const plan: LayoutPlan = {
+  outline: [{ x: 2, y: 3 }, { x: 12, y: 3 }, { x: 12, y: 11 }, { x: 2, y: 11 }],
+  corridors: [{ x: 2, y: 9.5, width: 10, height: 1.5 }],
+  rooms: [{ id: 'room-0', type: 'meeting_small', x: 2, y: 3, width: 4, height: 3 }],
+  deskClusters: [{ id: 'desks-0', axis: 'y', x: 8, y: 3, width: DESK_DEPTH * 2, height: DESK_WIDTH * 2 }]
+};
+
+const count = (svg: string, text: string) => svg.split(text).length - 1;
+
+describe('renderLayoutSvg', () => {
+  it('sizes the drawing to the outline and moves it to the padded origin', () => {
+    const svg = renderLayoutSvg(plan);
+
+    expect(svg).toContain('width="240" height="200" viewBox="0 0 240 200"');
+    expect(svg).toContain('<polygon points="20,20 220,20 220,180 20,180"');
+  });
+
+  it('draws each room with its label and area and every desk of a cluster', () => {
+    const svg = renderLayoutSvg(plan);
+
+    expect(svg).toContain(`fill="${ROOM_COLORS.meeting_small}"`);
+    expect(svg).toContain('>小型會議室</text>');
+    expect(svg).toContain('>12 m²</text>');
+    expect(count(svg, 'stroke="#667eea"')).toBe(4);
+  });
+
+  it('draws obstacles and openings over the rooms', () => {
+    const svg = renderLayoutSvg({
+      ...plan,
+      obstacles: [[{ x: 6, y: 7 }, { x: 6.5, y: 7 }, { x: 6.5, y: 7.5 }, { x: 6, y: 7.5 }]],
+      openings: [{ type: 'entrance', start: { x: 2, y: 7 }, end: { x: 2, y: 8 } }]
+    });
+
+    expect(svg).toContain(`<polygon points="100,100 110,100 110,110 100,110" fill="${OBSTACLE_COLOR}"/>`);
+    expect(svg).toContain(`<line x1="20" y1="100" x2="20" y2="120" stroke="${OPENING_COLORS.entrance}"`);
+    expect(svg.indexOf(OPENING_COLORS.entrance)).toBeGreaterThan(svg.indexOf('</text>'));
+  });
+
+  it('labels custom rooms with their escaped name', () => {
+    const svg = renderLayoutSvg({
+      ...plan,
+      rooms: [{ id: 'room-0', type: 'custom', customRoomId: 'lab', name: 'R&D <實驗室>', x: 2, y: 3, width: 4, height: 3 }]
+    });
+
+    expect(svg).toContain(`fill="${ROOM_COLORS.custom}"`);
+    expect(svg).toContain('>R&amp;D &lt;實驗室&gt;</text>');
+  });
+});
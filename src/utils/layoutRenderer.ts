@@ -0,0 +1,82 @@
+import type { Rect } from './geometry';
+import { polygonBounds, rectArea } from './geometry';
+import type { LayoutPlan, PlacedRoom } from './layoutEngine';
+import { clusterDesks, roomLabel } from './layoutEngine';
+import type { OpeningType } from './floorPlanDimensions';
+
+export const ROOM_COLORS: Record<PlacedRoom['type'], string> = {
+  meeting_small: '#c7d2fe',
+  meeting_medium: '#a5b4fc',
+  meeting_large: '#818cf8',
+  phone_booth: '#fde68a',
+  breakout: '#bbf7d0',
+  kitchen: '#fed7aa',
+  reception: '#fbcfe8',
+  storage: '#e5e7eb',
+  server_room: '#fecaca',
+  custom: '#ddd6fe'
+};
+
+export const OPENING_COLORS: Record<OpeningType, string> = {
+  entrance: '#16a34a',
+  window: '#0ea5e9',
+  fire_exit: '#dc2626'
+};
+
+export const OBSTACLE_COLOR = '#4b5563';
+
+const PIXELS_PER_METER = 20;
+const PADDING = 20;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function renderLayoutSvg(plan: LayoutPlan): string {
+  const bounds = polygonBounds(plan.outline);
+  const px = (value: number) => Math.round(value * PIXELS_PER_METER * 10) / 10;
+  const sx = (x: number) => px(x - bounds.x) + PADDING;
+  const sy = (y: number) => px(y - bounds.y) + PADDING;
+  const rect = (r: Rect, attrs: string) =>
+    `<rect x="${sx(r.x)}" y="${sy(r.y)}" width="${px(r.width)}" height="${px(r.height)}" ${attrs}/>`;
+
+  const width = px(bounds.width) + PADDING * 2;
+  const height = px(bounds.height) + PADDING * 2;
+  const outline = plan.outline.map((p) => `${sx(p.x)},${sy(p.y)}`).join(' ');
+
+  const corridors = plan.corridors.map((c) => rect(c, 'fill="#f3f4f6"'));
+
+  const rooms = plan.rooms.map((room) => {
+    const fontSize = Math.max(8, Math.min(12, px(Math.min(room.width, room.height)) / 4));
+    const cx = sx(room.x + room.width / 2);
+    const cy = sy(room.y + room.height / 2);
+    return [
+      rect(room, `fill="${ROOM_COLORS[room.type]}" stroke="#374151" stroke-width="1.5"`),
+      `<text x="${cx}" y="${cy}" font-size="${fontSize}" text-anchor="middle" fill="#1f2937">${escapeXml(roomLabel(room))}</text>`,
+      `<text x="${cx}" y="${cy + fontSize + 2}" font-size="${fontSize - 1}" text-anchor="middle" fill="#4b5563">${Math.round(rectArea(room))} m²</text>`
+    ].join('');
+  });
+
+  const desks = plan.deskClusters.flatMap((cluster) =>
+    clusterDesks(cluster).map((desk) => rect(desk, 'fill="#ffffff" stroke="#667eea" stroke-width="1"'))
+  );
+
+  const obstacles = (plan.obstacles ?? []).map((obstacle) =>
+    `<polygon points="${obstacle.map((p) => `${sx(p.x)},${sy(p.y)}`).join(' ')}" fill="${OBSTACLE_COLOR}"/>`
+  );
+
+  const openings = (plan.openings ?? []).map((o) =>
+    `<line x1="${sx(o.start.x)}" y1="${sy(o.start.y)}" x2="${sx(o.end.x)}" y2="${sy(o.end.y)}" stroke="${OPENING_COLORS[o.type]}" stroke-width="6"/>`
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<polygon points="${outline}" fill="#fafafa" stroke="#111827" stroke-width="3"/>`,
+    ...corridors,
+    ...rooms,
+    ...desks,
+    ...obstacles,
+    ...openings,
+    '</svg>'
+  ].join('\n');
+}
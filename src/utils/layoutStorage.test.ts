@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { rectanglePolygon } from './geometry';
+import type { LayoutPlan } from './layoutEngine';
+import { saveWithLayoutImage } from './layoutStorage';
+
+const { bucket } = vi.hoisted(() => ({
+  bucket: {
+    upload: vi.fn(async () => ({ error: null })),
+    getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://cdn/${path}` } })),
+    remove: vi.fn(async () => ({ error: null }))
+  }
+}));
+
+vi.mock('../lib/supabase', () => ({ supabase: { storage: { from: () => bucket } } }));
+
+const plan: LayoutPlan = { outline: rectanglePolygon(10, 10), corridors: [], rooms: [], deskClusters: [] };
+
+describe('saveWithLayoutImage', () => {
+  it('saves with the uploaded image and keeps it', async () => {
+    const save = vi.fn(async (imageUrl: string) => imageUrl);
+
+    const url = await saveWithLayoutImage('project', plan, save);
+
+    expect(url).toMatch(/^https:\/\/cdn\/project\/solutions\/\d+\.svg$/);
+    expect(save).toHaveBeenCalledWith(url);
+    expect(bucket.remove).not.toHaveBeenCalled();
+  });
+
+  it('removes the image and rethrows when saving fails', async () => {
+    const failure = new Error('insert failed');
+
+    await expect(saveWithLayoutImage('project', plan, async () => { throw failure; })).rejects.toBe(failure);
+
+    const [path] = bucket.upload.mock.lastCall as unknown as [string];
+    expect(bucket.remove).toHaveBeenCalledWith([path]);
+  });
+});
@@ -0,0 +1,40 @@
+import { supabase } from '../lib/supabase';
+import type { LayoutPlan } from './layoutEngine';
+import { renderLayoutSvg } from './layoutRenderer';
+
+const BUCKET = 'floor-plans';
+
+async function uploadLayoutImage(projectId: string, plan: LayoutPlan): Promise<{ path: string; url: string }> {
+  const path = `${projectId}/solutions/${Date.now()}.svg`;
+  const svg = new Blob([renderLayoutSvg(plan)], { type: 'image/svg+xml' });
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, svg, { contentType: 'image/svg+xml' });
+
+  if (uploadError) throw uploadError;
+
+  const { data: urlData } = supabase.storage
+    .from(BUCKET)
+    .getPublicUrl(path);
+
+  return { path, url: urlData.publicUrl };
+}
+
+// Uploads the plan's image and hands its URL to save; if saving fails the
+// image is removed again, so no file is left without a row pointing at it.
+export async function saveWithLayoutImage<T>(
+  projectId: string,
+  plan: LayoutPlan,
+  save: (imageUrl: string) => Promise<T>
+): Promise<T> {
+  const image = await uploadLayoutImage(projectId, plan);
+
+  try {
+    return await save(image.url);
+  } catch (saveError) {
+    const { error: removeError } = await supabase.storage.from(BUCKET).remove([image.path]);
+    if (removeError) console.warn('Could not remove the image of an unsaved layout:', removeError);
+    throw saveError;
+  }
+}
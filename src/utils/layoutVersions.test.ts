@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SolutionSnapshot } from './layoutVersions';
+import { diffSnapshots, takeSnapshot } from './layoutVersions';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const snapshot = (changes: Partial<SolutionSnapshot> = {}): SolutionSnapshot => ({
+  feasibility_score: 80,
+  feasibility_breakdown: null,
+  is_feasible: true,
+  workstations_placed: 40,
+  meeting_rooms_placed: { small: 2, medium: 1, large: 0 },
+  amenities_placed: { phone_booths: 2, breakout_areas: 1, kitchen: true, reception: false, storage: 1, server_room: false },
+  custom_rooms_placed: {},
+  adjacency_violations: [],
+  daylight_score: null,
+  utilization_rate: 62.4,
+  constraints_met: {
+    workstations: true,
+    meeting_rooms: true,
+    amenities: true,
+    custom_rooms: true,
+    adjacency: true,
+    zoning: true
+  },
+  suggestions: '',
+  solution_image_url: null,
+  layout_json: null,
+  cost_estimate: null,
+  ...changes
+});
+
+describe('takeSnapshot', () => {
+  it('keeps only the snapshot columns of a solution row', () => {
+    const row = { ...snapshot(), id: 'solution', floor_plan_id: 'plan', created_at: '2025-01-01' };
+
+    expect(takeSnapshot(row)).toEqual(snapshot());
+  });
+
+  it('stores null for columns older solutions do not have', () => {
+    const old: Partial<SolutionSnapshot> = snapshot();
+    delete old.feasibility_breakdown;
+    delete old.daylight_score;
+    delete old.cost_estimate;
+
+    expect(takeSnapshot(old as SolutionSnapshot)).toEqual(snapshot());
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('lists only the counts and scores that changed', () => {
+    const after = snapshot({
+      workstations_placed: 36,
+      meeting_rooms_placed: { small: 3, medium: 1, large: 0 },
+      utilization_rate: 62.2
+    });
+
+    expect(diffSnapshots(snapshot(), after)).toEqual([
+      { label: '工作站', before: 40, after: 36 },
+      { label: '小型會議室', before: 2, after: 3 }
+    ]);
+  });
+
+  it('totals custom rooms and counts missing values as zero', () => {
+    const after = snapshot({
+      custom_rooms_placed: { lab: 2, library: 1 },
+      adjacency_violations: [{ rule: 'zone', a: 'meeting_small', b: 'breakout' }],
+      daylight_score: 70
+    });
+
+    expect(diffSnapshots(snapshot(), after)).toEqual([
+      { label: '自訂空間', before: 0, after: 3 },
+      { label: '相鄰與分區違規', before: 0, after: 1 },
+      { label: '採光評分', before: 0, after: 70 }
+    ]);
+  });
+});
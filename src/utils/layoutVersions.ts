@@ -0,0 +1,132 @@
+import { supabase } from '../lib/supabase';
+import type { CostEstimate } from './costEstimator';
+import type { FeasibilityFactor } from './feasibility';
+import type { LayoutPlan, LayoutSummary } from './layoutEngine';
+
+export interface SolutionSnapshot extends LayoutSummary {
+  feasibility_score: number;
+  // Null for solutions scored before the breakdown was stored.
+  feasibility_breakdown: FeasibilityFactor[] | null;
+  is_feasible: boolean;
+  suggestions: string;
+  solution_image_url: string | null;
+  layout_json: LayoutPlan | null;
+  cost_estimate: CostEstimate | null;
+}
+
+export interface LayoutVersion {
+  id: string;
+  layout_solution_id: string;
+  version_number: number;
+  solution_image_url: string | null;
+  changes_description: string;
+  created_by: string;
+  created_at: string;
+  snapshot: SolutionSnapshot;
+}
+
+export interface SnapshotChange {
+  label: string;
+  before: number;
+  after: number;
+}
+
+export function takeSnapshot(solution: SolutionSnapshot): SolutionSnapshot {
+  return {
+    feasibility_score: solution.feasibility_score,
+    feasibility_breakdown: solution.feasibility_breakdown ?? null,
+    is_feasible: solution.is_feasible,
+    workstations_placed: solution.workstations_placed,
+    meeting_rooms_placed: solution.meeting_rooms_placed,
+    amenities_placed: solution.amenities_placed,
+    custom_rooms_placed: solution.custom_rooms_placed,
+    adjacency_violations: solution.adjacency_violations,
+    daylight_score: solution.daylight_score ?? null,
+    utilization_rate: solution.utilization_rate,
+    constraints_met: solution.constraints_met,
+    suggestions: solution.suggestions,
+    solution_image_url: solution.solution_image_url,
+    layout_json: solution.layout_json,
+    cost_estimate: solution.cost_estimate ?? null
+  };
+}
+
+const countCustomRooms = (snapshot: SolutionSnapshot) =>
+  Object.values(snapshot.custom_rooms_placed ?? {}).reduce((sum, count) => sum + count, 0);
+
+export function diffSnapshots(before: SolutionSnapshot, after: SolutionSnapshot): SnapshotChange[] {
+  const rows: SnapshotChange[] = [
+    { label: '工作站', before: before.workstations_placed, after: after.workstations_placed },
+    { label: '小型會議室', before: before.meeting_rooms_placed.small, after: after.meeting_rooms_placed.small },
+    { label: '中型會議室', before: before.meeting_rooms_placed.medium, after: after.meeting_rooms_placed.medium },
+    { label: '大型會議室', before: before.meeting_rooms_placed.large, after: after.meeting_rooms_placed.large },
+    { label: '電話亭', before: before.amenities_placed.phone_booths, after: after.amenities_placed.phone_booths },
+    { label: '休息區', before: before.amenities_placed.breakout_areas, after: after.amenities_placed.breakout_areas },
+    { label: '儲藏室', before: before.amenities_placed.storage, after: after.amenities_placed.storage },
+    { label: '自訂空間', before: countCustomRooms(before), after: countCustomRooms(after) },
+    {
+      label: '相鄰與分區違規',
+      before: before.adjacency_violations?.length ?? 0,
+      after: after.adjacency_violations?.length ?? 0
+    },
+    { label: '採光評分', before: before.daylight_score ?? 0, after: after.daylight_score ?? 0 },
+    { label: '利用率 (%)', before: Math.round(before.utilization_rate), after: Math.round(after.utilization_rate) },
+    { label: '可行性評分', before: before.feasibility_score, after: after.feasibility_score },
+    { label: '初期投入 (元)', before: before.cost_estimate?.capex ?? 0, after: after.cost_estimate?.capex ?? 0 }
+  ];
+
+  return rows.filter((row) => row.before !== row.after);
+}
+
+export async function loadLayoutVersions(solutionId: string): Promise<LayoutVersion[]> {
+  const { data, error } = await supabase
+    .from('layout_versions')
+    .select('*')
+    .eq('layout_solution_id', solutionId)
+    .order('version_number', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The solution row is locked while the next version number is taken, so
+// concurrent saves can't collide on it or leave a save without a version.
+export async function saveSolutionVersion<T extends SolutionSnapshot>(
+  solutionId: string,
+  snapshot: SolutionSnapshot,
+  changesDescription: string
+): Promise<T> {
+  const { data, error } = await supabase.rpc('save_layout_version', {
+    p_solution_id: solutionId,
+    p_snapshot: takeSnapshot(snapshot),
+    p_changes_description: changesDescription
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export interface NewSolution {
+  floor_plan_id: string;
+  space_requirement_id: string;
+  generation_params: Record<string, unknown>;
+}
+
+// Inserts a generated solution and its first version in one transaction, so
+// a solution never exists without a history.
+export async function createSolution<T extends SolutionSnapshot>(
+  solution: NewSolution,
+  snapshot: SolutionSnapshot,
+  changesDescription: string
+): Promise<T> {
+  const { data, error } = await supabase.rpc('create_layout_solution', {
+    p_floor_plan_id: solution.floor_plan_id,
+    p_space_requirement_id: solution.space_requirement_id,
+    p_generation_params: solution.generation_params,
+    p_snapshot: takeSnapshot(snapshot),
+    p_changes_description: changesDescription
+  });
+
+  if (error) throw error;
+  return data;
+}
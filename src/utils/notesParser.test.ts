@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLlmParser, parseNotesWithRules } from './notesParser';
+
+describe('parseNotesWithRules', () => {
+  it('maps known rooms to room types with their counts', () => {
+    const rooms = parseNotesWithRules('需要3間小會議室，兩個電話亭');
+
+    expect(rooms.map(({ type, count }) => ({ type, count }))).toEqual([
+      { type: 'meeting_small', count: 3 },
+      { type: 'phone_booth', count: 2 }
+    ]);
+  });
+
+  it('reads the count of an unknown room from its Chinese quantity', () => {
+    const [room] = parseNotesWithRules('需要兩間會客室');
+
+    expect(room).toMatchObject({ name: '會客室', type: null, count: 2 });
+  });
+
+  it.each([
+    ['十二間訓練室', 12],
+    ['二十個儲藏室', 20],
+    ['二十三個儲藏室', 23],
+    ['會客室', 1]
+  ])('counts %s as %i', (notes, count) => {
+    expect(parseNotesWithRules(notes)[0].count).toBe(count);
+  });
+
+  it('reads location, size, area and links', () => {
+    const [room] = parseNotesWithRules('一間大型主管室靠窗約 5 坪，靠近會議室');
+
+    expect(room).toMatchObject({
+      name: '主管室',
+      location: 'window',
+      size: 'L',
+      area: 16.5,
+      link: ['中型會議室']
+    });
+  });
+
+  it('attaches a clause without a room to the previous room', () => {
+    const rooms = parseNotesWithRules('一間哺乳室，靠近茶水間');
+
+    expect(rooms).toHaveLength(1);
+    expect(rooms[0].link).toEqual(['茶水間']);
+  });
+});
+
+describe('createLlmParser', () => {
+  it('normalizes the model answer', async () => {
+    const parser = createLlmParser({
+      complete: async () => 'Sure: [{"name": "主管室", "type": "unknown", "count": "2", "size": "L", "link": ["茶水間", 3]},]'
+    });
+
+    expect(await parser.parse('兩間主管室')).toEqual([{
+      name: '主管室',
+      type: null,
+      count: 2,
+      location: null,
+      size: 'L',
+      area: null,
+      link: ['茶水間'],
+      source: '兩間主管室'
+    }]);
+  });
+
+  it('falls back to the rules when the model fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const parser = createLlmParser({ complete: async () => { throw new Error('offline'); } });
+
+    expect(await parser.parse('需要兩間會客室')).toEqual(parseNotesWithRules('需要兩間會客室'));
+  });
+});
@@ -0,0 +1,256 @@
+import type { RoomLocation, RoomType } from './layoutEngine';
+import { LOCATION_LABELS, ROOM_LABELS } from './layoutEngine';
+
+export type RoomSize = 'XL' | 'L' | 'M' | 'S' | 'XS';
+
+// One room extracted from free text, modelled on the prompt2json rooms JSON
+// (name/type/location/size/link) with a count and an optional exact area.
+export interface ParsedRoom {
+  name: string;
+  type: RoomType | null;
+  count: number;
+  location: RoomLocation | null;
+  size: RoomSize | null;
+  area: number | null;
+  link: string[];
+  source: string;
+}
+
+export interface NotesParser {
+  parse(notes: string): Promise<ParsedRoom[]>;
+}
+
+// Anything that can turn a prompt into a completion; a local model, a hosted
+// API or a canned response in development.
+export interface LlmAdapter {
+  complete(prompt: string): Promise<string>;
+}
+
+export const SIZE_AREAS: Record<RoomSize, number> = {
+  XL: 40,
+  L: 25,
+  M: 15,
+  S: 8,
+  XS: 4
+};
+
+interface RoomKeyword {
+  pattern: RegExp;
+  name: string;
+  type: RoomType | null;
+  area?: number;
+}
+
+// Order matters: more specific names come first.
+const ROOM_KEYWORDS: RoomKeyword[] = [
+  { pattern: /大型會議室|大會議室|large meeting room/i, name: ROOM_LABELS.meeting_large, type: 'meeting_large' },
+  { pattern: /中型會議室|中會議室|medium meeting room/i, name: ROOM_LABELS.meeting_medium, type: 'meeting_medium' },
+  { pattern: /小型會議室|小會議室|small meeting room|huddle room/i, name: ROOM_LABELS.meeting_small, type: 'meeting_small' },
+  { pattern: /會議室|meeting room/i, name: ROOM_LABELS.meeting_medium, type: 'meeting_medium' },
+  { pattern: /電話亭|phone booth/i, name: ROOM_LABELS.phone_booth, type: 'phone_booth' },
+  { pattern: /休息區|交誼廳|breakout/i, name: ROOM_LABELS.breakout, type: 'breakout' },
+  { pattern: /茶水間|廚房|pantry|kitchen/i, name: ROOM_LABELS.kitchen, type: 'kitchen' },
+  { pattern: /接待|櫃台|reception/i, name: ROOM_LABELS.reception, type: 'reception' },
+  { pattern: /儲藏室|倉庫|storage/i, name: ROOM_LABELS.storage, type: 'storage' },
+  { pattern: /機房|server room/i, name: ROOM_LABELS.server_room, type: 'server_room' },
+  { pattern: /主管室|主管辦公室|經理室|manager'?s? office/i, name: '主管室', type: null, area: 12 },
+  { pattern: /哺乳室|集乳室|mother'?s room/i, name: '哺乳室', type: null, area: 6 },
+  { pattern: /訓練教室|教育訓練室|訓練室|training room/i, name: '訓練教室', type: null, area: 40 },
+  { pattern: /舒壓室|冥想室|wellness room/i, name: '舒壓室', type: null, area: 10 },
+  { pattern: /印表機|影印區|print/i, name: '影印區', type: null, area: 6 },
+  { pattern: /更衣室|locker/i, name: '更衣室', type: null, area: 10 }
+];
+
+// Any other "...室" is taken as a custom room name.
+const GENERIC_ROOM = /([一-龥]{1,6}室)/;
+
+const LOCATION_KEYWORDS: [RegExp, RoomLocation][] = [
+  [/靠窗|窗邊|採光|near (the )?windows?/i, 'window'],
+  [/入口|門口|大門|near (the )?entrance/i, 'entrance'],
+  [/東北/, 'northeast'],
+  [/西北/, 'northwest'],
+  [/東南/, 'southeast'],
+  [/西南/, 'southwest'],
+  [/北側|北邊|北面|north/i, 'north'],
+  [/南側|南邊|南面|south/i, 'south'],
+  [/東側|東邊|東面|east/i, 'east'],
+  [/西側|西邊|西面|west/i, 'west'],
+  [/中央|中間|center|centre/i, 'center'],
+  [/內側|不靠窗|interior/i, 'interior']
+];
+
+const SIZE_KEYWORDS: [RegExp, RoomSize][] = [
+  [/特大|超大|extra large/i, 'XL'],
+  [/迷你|極小|tiny/i, 'XS'],
+  [/大型|較大|寬敞|large/i, 'L'],
+  [/小型|較小|small/i, 'S'],
+  [/中型|medium/i, 'M']
+];
+
+const CHINESE_DIGITS: Record<string, number> = {
+  一: 1, 兩: 2, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10
+};
+
+const SQM_PER_PING = 3.3058;
+
+function parseCount(text: string): number {
+  const digits = text.match(/(\d+)\s*(間|個|座|組|x|×)?\s*$/i);
+  if (digits) return parseInt(digits[1], 10);
+
+  const chinese = text.match(/([一二兩三四五六七八九十]{1,3})\s*(間|個|座|組)?\s*$/);
+  if (!chinese) return 1;
+  const chars = [...chinese[1]];
+  if (chars.length === 1) return CHINESE_DIGITS[chars[0]];
+  // 十二 = 12, 二十 = 20, 二十三 = 23
+  const tens = chars[0] === '十' ? 1 : CHINESE_DIGITS[chars[0]];
+  const ones = chars[chars.length - 1] === '十' ? 0 : CHINESE_DIGITS[chars[chars.length - 1]];
+  return tens * 10 + ones;
+}
+
+function parseArea(text: string): number | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(平方公尺|平方米|平米|m²|m2|sqm|坪)/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2] === '坪' ? Math.round(value * SQM_PER_PING * 10) / 10 : value;
+}
+
+function findRoom(text: string): { keyword: RoomKeyword; index: number } | null {
+  for (const keyword of ROOM_KEYWORDS) {
+    const match = text.match(keyword.pattern);
+    if (match?.index !== undefined) return { keyword, index: match.index };
+  }
+
+  const generic = text.match(GENERIC_ROOM);
+  if (generic?.index !== undefined) {
+    // Strip leading quantity words such as 需要兩間 from the captured name;
+    // the index moves past them too, so the count is read from them.
+    const name = generic[1].replace(/^.*?(間|個|座)/, '');
+    return {
+      keyword: { pattern: GENERIC_ROOM, name, type: null },
+      index: generic.index + generic[1].length - name.length
+    };
+  }
+  return null;
+}
+
+// Splits notes into clauses and extracts at most one room per clause; a room
+// mentioned after 靠近/鄰近/旁邊 becomes a link of the clause's room instead.
+export function parseNotesWithRules(notes: string): ParsedRoom[] {
+  const clauses = notes.split(/[，,。；;\n]+/).map((c) => c.trim()).filter(Boolean);
+  const rooms: ParsedRoom[] = [];
+
+  clauses.forEach((clause) => {
+    const [subject, ...rest] = clause.split(/(?:要|需)?(?:靠近|鄰近|緊鄰|旁邊|旁|next to|adjacent to)/i);
+    const found = findRoom(subject);
+    const linked = rest.map((part) => findRoom(part)?.keyword.name).filter((name): name is string => Boolean(name));
+    const location = LOCATION_KEYWORDS.find(([pattern]) => pattern.test(clause))?.[1] ?? null;
+
+    // A clause without a room of its own ("一間哺乳室，靠近茶水間") qualifies
+    // the previous one.
+    if (!found) {
+      const previous = rooms[rooms.length - 1];
+      if (previous) {
+        previous.link.push(...linked);
+        previous.location = previous.location ?? location;
+        previous.source += `，${clause}`;
+      }
+      return;
+    }
+    const size = found.keyword.type ? null : SIZE_KEYWORDS.find(([pattern]) => pattern.test(subject))?.[1] ?? null;
+
+    rooms.push({
+      name: found.keyword.name,
+      type: found.keyword.type,
+      count: parseCount(subject.slice(0, found.index)),
+      location,
+      size,
+      area: parseArea(clause) ?? found.keyword.area ?? null,
+      link: linked,
+      source: clause
+    });
+  });
+
+  return rooms;
+}
+
+export const ruleBasedParser: NotesParser = {
+  parse: async (notes) => parseNotesWithRules(notes)
+};
+
+const LLM_PROMPT = `For the following office space requirements, extract every room that is requested.
+Answer with a JSON array only. Each item has:
+- "name": room name in the language of the text
+- "type": one of ${Object.keys(ROOM_LABELS).join(', ')} or null
+- "count": integer
+- "location": one of ${Object.keys(LOCATION_LABELS).join(', ')} or null
+- "size": one of XL, L, M, S, XS or null
+- "area": square meters per room or null
+- "link": names of rooms it should be adjacent to
+
+text: `;
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+function normalizeLlmRoom(raw: Record<string, unknown>, source: string): ParsedRoom | null {
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return null;
+
+  return {
+    name: raw.name.trim(),
+    type: isOneOf(raw.type, Object.keys(ROOM_LABELS) as RoomType[]) ? raw.type : null,
+    count: Math.max(1, Math.round(Number(raw.count) || 1)),
+    location: isOneOf(raw.location, Object.keys(LOCATION_LABELS) as RoomLocation[]) ? raw.location : null,
+    size: isOneOf(raw.size, Object.keys(SIZE_AREAS) as RoomSize[]) ? raw.size : null,
+    area: Number(raw.area) > 0 ? Number(raw.area) : null,
+    link: Array.isArray(raw.link) ? raw.link.filter((l): l is string => typeof l === 'string') : [],
+    source
+  };
+}
+
+// Asks the model for the rooms JSON and falls back to the rule-based parser
+// when the model is unreachable or answers with something unusable.
+export function createLlmParser(adapter: LlmAdapter, fallback: NotesParser = ruleBasedParser): NotesParser {
+  return {
+    parse: async (notes) => {
+      try {
+        const answer = await adapter.complete(LLM_PROMPT + notes);
+        const json = answer.slice(answer.indexOf('['), answer.lastIndexOf(']') + 1)
+          .replace(/,(\s*[}\]])/g, '$1');
+        const items = JSON.parse(json);
+        if (!Array.isArray(items)) throw new Error('Expected a JSON array');
+
+        return items
+          .map((item) => normalizeLlmRoom(item, notes))
+          .filter((room): room is ParsedRoom => room !== null);
+      } catch (error) {
+        console.warn('LLM notes parsing failed, using rules instead:', error);
+        return fallback.parse(notes);
+      }
+    }
+  };
+}
+
+// Adapter for OpenAI-compatible chat endpoints such as a local Ollama server,
+// which is what the prompt2json pipeline talks to.
+export function openAiCompatibleAdapter(baseUrl: string, model: string): LlmAdapter {
+  return {
+    complete: async (prompt) => {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }] })
+      });
+      if (!response.ok) throw new Error(`LLM request failed with ${response.status}`);
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    }
+  };
+}
+
+// Rules only unless VITE_NOTES_LLM_URL points at a model endpoint.
+export function getNotesParser(): NotesParser {
+  const url = import.meta.env.VITE_NOTES_LLM_URL;
+  if (!url) return ruleBasedParser;
+  return createLlmParser(openAiCompatibleAdapter(url, import.meta.env.VITE_NOTES_LLM_MODEL || 'llama3:instruct'));
+}
@@ -0,0 +1,36 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+// Long side of the rasterized page in pixels; enough to trace walls on an A3
+// plan without producing huge uploads.
+const TARGET_SIZE = 3000;
+
+export async function openPdf(file: File): Promise<PDFDocumentProxy> {
+  return getDocument({ data: await file.arrayBuffer() }).promise;
+}
+
+// Renders one page (1-based) to a PNG file that can go through the regular
+// image upload.
+export async function rasterizePdfPage(pdf: PDFDocumentProxy, pageNumber: number, baseName: string): Promise<File> {
+  const page = await pdf.getPage(pageNumber);
+  const unscaled = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: TARGET_SIZE / Math.max(unscaled.width, unscaled.height) });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvas, canvasContext: context, viewport }).promise;
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to rasterize PDF page');
+
+  return new File([blob], `${baseName}-p${pageNumber}.png`, { type: 'image/png' });
+}
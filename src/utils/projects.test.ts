@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { duplicateProject, projectRoleOf } from './projects';
+import type { Workspace } from './workspaces';
+
+// The copy is made, its first file fails to copy and removing the copy fails.
+const { supabase } = vi.hoisted(() => {
+  const bucket = {
+    list: vi.fn(async () => ({ data: [{ id: 'file', name: 'plan.png' }], error: null })),
+    copy: vi.fn(async () => ({ error: new Error('copy failed') }))
+  };
+  const query = {
+    delete: () => query,
+    eq: () => query,
+    select: vi.fn(async () => ({ data: null, error: new Error('delete failed') }))
+  };
+  return {
+    supabase: {
+      rpc: vi.fn(async () => ({ data: 'copy', error: null })),
+      storage: { from: () => bucket },
+      from: vi.fn(() => query)
+    }
+  };
+});
+
+vi.mock('../lib/supabase', () => ({ supabase }));
+
+const workspaces: Workspace[] = [
+  { id: 'w-edit', name: '設計部', role: 'editor' },
+  { id: 'w-view', name: '業務部', role: 'viewer' }
+];
+
+describe('projectRoleOf', () => {
+  it('makes the creator owner whatever else applies', () => {
+    expect(projectRoleOf({ user_id: 'me', workspace_id: 'w-view' }, 'me', workspaces, 'viewer')).toBe('owner');
+  });
+
+  it('takes the stronger of the workspace role and a direct share', () => {
+    expect(projectRoleOf({ user_id: 'other', workspace_id: 'w-view' }, 'me', workspaces, 'editor')).toBe('editor');
+    expect(projectRoleOf({ user_id: 'other', workspace_id: 'w-edit' }, 'me', workspaces, 'viewer')).toBe('editor');
+    expect(projectRoleOf({ user_id: 'other', workspace_id: null }, 'me', workspaces, 'viewer')).toBe('viewer');
+  });
+
+  it('gives no role on projects the user cannot reach', () => {
+    expect(projectRoleOf({ user_id: 'other', workspace_id: 'w-other' }, 'me', workspaces, undefined)).toBeNull();
+  });
+});
+
+describe('duplicateProject', () => {
+  it('reports the copy error even when removing the copy fails too', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(duplicateProject('source', '副本')).rejects.toThrow('copy failed');
+    expect(supabase.from).toHaveBeenCalledWith('projects');
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import { supabase } from '../lib/supabase';
+import type { MemberRole, Workspace } from './workspaces';
+
+export type ProjectStatus = 'draft' | 'active' | 'archived';
+
+export interface ProjectChanges {
+  name?: string;
+  description?: string;
+  status?: ProjectStatus;
+}
+
+export const STATUS_LABELS: Record<ProjectStatus, string> = {
+  draft: '草稿',
+  active: '進行中',
+  archived: '已封存'
+};
+
+// Floor plan images and solution drawings live under a folder named after
+// the project id.
+const BUCKET = 'floor-plans';
+const PAGE_SIZE = 100;
+
+const ROLE_ORDER: MemberRole[] = ['owner', 'editor', 'viewer'];
+
+// Same resolution as project_role() in the database: the creator is owner,
+// then the workspace role, then a direct share; the strongest wins.
+export function projectRoleOf(
+  project: { user_id: string; workspace_id: string | null },
+  userId: string,
+  workspaces: Workspace[],
+  shareRole: MemberRole | undefined
+): MemberRole | null {
+  const roles: MemberRole[] = [];
+  if (project.user_id === userId) roles.push('owner');
+  const workspace = workspaces.find((w) => w.id === project.workspace_id);
+  if (workspace) roles.push(workspace.role);
+  if (shareRole) roles.push(shareRole);
+
+  return ROLE_ORDER.find((role) => roles.includes(role)) ?? null;
+}
+
+// Storage lists one folder level per call; folders come back without an id.
+async function listFiles(folder: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage.from(BUCKET).list(folder, { limit: PAGE_SIZE, offset });
+    if (error) throw error;
+
+    for (const item of data) {
+      if (item.id) {
+        paths.push(`${folder}/${item.name}`);
+      } else {
+        paths.push(...await listFiles(`${folder}/${item.name}`));
+      }
+    }
+    if (data.length < PAGE_SIZE) return paths;
+  }
+}
+
+export async function updateProject<T>(projectId: string, changes: ProjectChanges): Promise<T> {
+  const { data, error } = await supabase
+    .from('projects')
+    .update(changes)
+    .eq('id', projectId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function removeFiles(paths: string[]): Promise<void> {
+  for (let i = 0; i < paths.length; i += PAGE_SIZE) {
+    const { error } = await supabase.storage.from(BUCKET).remove(paths.slice(i, i + PAGE_SIZE));
+    if (error) throw error;
+  }
+}
+
+export async function duplicateProject(projectId: string, name: string): Promise<string> {
+  const { data: newId, error } = await supabase.rpc('duplicate_project', { p_project_id: projectId, p_name: name });
+  if (error) throw error;
+
+  // The copy's URLs already point at its own folder. If a file can't be
+  // copied, the copy and the files copied so far are removed again rather
+  // than left with missing images; the caller owns the copy. Either way the
+  // copy error is what the caller sees.
+  try {
+    for (const path of await listFiles(projectId)) {
+      const { error: copyError } = await supabase.storage
+        .from(BUCKET)
+        .copy(path, `${newId}${path.slice(projectId.length)}`);
+
+      if (copyError) throw copyError;
+    }
+  } catch (copyError) {
+    try {
+      await deleteProject(newId);
+    } catch (rollbackError) {
+      console.warn('Could not remove the incomplete project copy:', rollbackError);
+    }
+    throw copyError;
+  }
+
+  return newId;
+}
+
+export async function deleteProject(projectId: string): Promise<void> {
+  // The row goes first so a failed delete leaves the project intact. Only
+  // owners may delete; for anyone else no row comes back.
+  const { data, error } = await supabase
+    .from('projects')
+    .delete()
+    .eq('id', projectId)
+    .select('id');
+
+  if (error) throw error;
+  if (!data?.length) throw new Error('Only project owners can delete a project');
+
+  // Whoever deleted the project may still remove its files. Files left behind
+  // only take up space, so a failure here doesn't undo the delete.
+  try {
+    await removeFiles(await listFiles(projectId));
+  } catch (cleanupError) {
+    console.warn('Deleted project but could not remove its files:', cleanupError);
+  }
+}
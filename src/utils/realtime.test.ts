@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PresenceUser } from './realtime';
+import { joinProjectPresence } from './realtime';
+
+// Stand-in for a realtime channel that lets the test play the server.
+const { channel, supabase } = vi.hoisted(() => {
+  const channel = {
+    onSync: () => {},
+    onStatus: (() => {}) as (status: string) => void,
+    state: {} as Record<string, PresenceUser[]>,
+    track: vi.fn(),
+    on(_type: string, _filter: object, callback: () => void) {
+      channel.onSync = callback;
+      return channel;
+    },
+    subscribe(callback: (status: string) => void) {
+      channel.onStatus = callback;
+      return channel;
+    },
+    presenceState: () => channel.state
+  };
+  return { channel, supabase: { channel: vi.fn(() => channel), removeChannel: vi.fn() } };
+});
+
+vi.mock('../lib/supabase', () => ({ supabase }));
+
+describe('joinProjectPresence', () => {
+  it('joins a private channel keyed by the user', () => {
+    joinProjectPresence('project', 'me', () => {});
+
+    expect(supabase.channel).toHaveBeenLastCalledWith('presence:project', {
+      config: { private: true, presence: { key: 'me' } }
+    });
+  });
+
+  it('reports everyone else, with whatever any of their tabs is editing', () => {
+    const onSync = vi.fn();
+    joinProjectPresence('project', 'me', onSync);
+
+    channel.state = {
+      me: [{ user_id: 'me', editing_requirements: null }],
+      amy: [
+        { user_id: 'amy', editing_requirements: null },
+        { user_id: 'amy', editing_requirements: 'plan' }
+      ],
+      ben: [{ user_id: 'ben', editing_requirements: null }]
+    };
+    channel.onSync();
+
+    expect(onSync).toHaveBeenCalledWith([
+      { user_id: 'amy', editing_requirements: 'plan' },
+      { user_id: 'ben', editing_requirements: null }
+    ]);
+  });
+
+  it('tracks what the user edits once the channel is joined', () => {
+    channel.track.mockClear();
+    const room = joinProjectPresence('project', 'me', () => {});
+
+    room.setEditingRequirements('plan');
+    expect(channel.track).not.toHaveBeenCalled();
+
+    channel.onStatus('SUBSCRIBED');
+    expect(channel.track).toHaveBeenLastCalledWith({ user_id: 'me', editing_requirements: 'plan' });
+
+    room.setEditingRequirements(null);
+    expect(channel.track).toHaveBeenLastCalledWith({ user_id: 'me', editing_requirements: null });
+
+    room.leave();
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channel);
+  });
+});
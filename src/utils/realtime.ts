@@ -0,0 +1,74 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+export interface PresenceUser {
+  user_id: string;
+  // Floor plan whose requirement form the user has open.
+  editing_requirements: string | null;
+}
+
+export interface PresenceRoom {
+  setEditingRequirements: (floorPlanId: string | null) => void;
+  leave: () => void;
+}
+
+// supabase-js reuses a channel with the same name, so every subscription
+// gets its own.
+let channelCount = 0;
+
+// Row changes the signed-in user is allowed to see. Filters don't apply to
+// deletes, so delete handlers see deletes of every visible row.
+export function subscribeToRows<T extends object>(
+  table: string,
+  filter: string,
+  onChange: (payload: RealtimePostgresChangesPayload<T>) => void
+): () => void {
+  channelCount += 1;
+  const channel = supabase
+    .channel(`${table}:${filter}:${channelCount}`)
+    .on<T>('postgres_changes', { event: '*', schema: 'public', table, filter }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Reports everyone else with the project open whenever someone joins, leaves
+// or opens a requirement form. The channel is private; policies on
+// realtime.messages only let people who can view the project join it.
+export function joinProjectPresence(
+  projectId: string,
+  userId: string,
+  onSync: (others: PresenceUser[]) => void
+): PresenceRoom {
+  let current: PresenceUser = { user_id: userId, editing_requirements: null };
+  let subscribed = false;
+  const channel = supabase.channel(`presence:${projectId}`, {
+    config: { private: true, presence: { key: userId } }
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<PresenceUser>();
+      onSync(Object.entries(state)
+        .filter(([key]) => key !== userId)
+        // One entry per open tab; show whatever any of them is editing.
+        .map(([, tabs]) => tabs.find((tab) => tab.editing_requirements) ?? tabs[0]));
+    })
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      subscribed = true;
+      channel.track(current);
+    });
+
+  return {
+    setEditingRequirements: (floorPlanId) => {
+      current = { ...current, editing_requirements: floorPlanId };
+      if (subscribed) channel.track(current);
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+}
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ShareLink } from './shareLinks';
+import { isShareLinkActive, loadSharedLayouts } from './shareLinks';
+import { DEFAULT_SPACE_STANDARDS } from './spaceStandards';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../lib/supabase', () => ({ supabase: { rpc } }));
+
+const link = (changes: Partial<ShareLink> = {}): ShareLink => ({
+  id: 'link',
+  token: 'token',
+  layout_solution_id: null,
+  label: '',
+  expires_at: '2025-02-01T00:00:00Z',
+  revoked_at: null,
+  created_at: '2025-01-01T00:00:00Z',
+  ...changes
+});
+
+describe('isShareLinkActive', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is active until it expires or is revoked', () => {
+    expect(isShareLinkActive(link())).toBe(true);
+    expect(isShareLinkActive(link({ expires_at: '2025-01-14T23:59:59Z' }))).toBe(false);
+    expect(isShareLinkActive(link({ revoked_at: '2025-01-10T00:00:00Z' }))).toBe(false);
+  });
+});
+
+describe('loadSharedLayouts', () => {
+  it('returns null for an unknown, expired or revoked token', async () => {
+    rpc.mockResolvedValueOnce({ data: null, error: null });
+
+    expect(await loadSharedLayouts('token')).toBeNull();
+  });
+
+  it('reads the project standards, using the defaults when there are none', async () => {
+    const shared = {
+      project: { id: 'p', name: '新辦公室', description: '' },
+      layout_solution_id: null,
+      expires_at: '2025-02-01T00:00:00Z',
+      floor_plans: []
+    };
+    rpc.mockResolvedValueOnce({ data: { ...shared, space_standards: null }, error: null });
+
+    expect(await loadSharedLayouts('token')).toEqual({ ...shared, standards: DEFAULT_SPACE_STANDARDS });
+    expect(rpc).toHaveBeenLastCalledWith('get_shared_layouts', { p_token: 'token' });
+  });
+});
@@ -0,0 +1,121 @@
+import { supabase } from '../lib/supabase';
+import type { FloorPlanDimensions } from './floorPlanDimensions';
+import type { FloorPlanMetadata } from './floorMetadata';
+import type { LayoutRequirements } from './layoutEngine';
+import type { SolutionSnapshot } from './layoutVersions';
+import type { SpaceStandards, SpaceStandardsRow } from './spaceStandards';
+import { parseSpaceStandards } from './spaceStandards';
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  // Null when the link shows the whole project.
+  layout_solution_id: string | null;
+  label: string;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// Days a new link stays valid.
+export const SHARE_LINK_DURATIONS = [7, 30, 90];
+export const DEFAULT_SHARE_LINK_DAYS = 30;
+
+// Shared links carry only what the layouts need: notes, rent and lease terms
+// and cost estimates (which include the rent) stay internal.
+export type SharedRequirement = Required<LayoutRequirements> & { id: string };
+
+export interface SharedSolution extends Omit<SolutionSnapshot, 'cost_estimate'> {
+  id: string;
+  created_at: string;
+}
+
+export interface SharedFloorPlan extends Pick<FloorPlanMetadata, 'building' | 'floor_level' | 'ceiling_height_m' | 'north_angle'> {
+  id: string;
+  name: string;
+  original_image_url: string;
+  floor_area_sqm: number | null;
+  dimensions_json: FloorPlanDimensions | null;
+  requirement: SharedRequirement | null;
+  solutions: SharedSolution[];
+}
+
+// What get_shared_layouts() returns for an active link.
+export interface SharedLayouts {
+  project: { id: string; name: string; description: string };
+  layout_solution_id: string | null;
+  expires_at: string;
+  standards: SpaceStandards;
+  floor_plans: SharedFloorPlan[];
+}
+
+type SharedLayoutsRow = Omit<SharedLayouts, 'standards'> & { space_standards: SpaceStandardsRow | null };
+
+export const shareLinkUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export const isShareLinkActive = (link: ShareLink) => !link.revoked_at && new Date(link.expires_at) > new Date();
+
+// Returns false when the clipboard is unavailable and the link was shown in a
+// prompt instead.
+export async function copyShareLink(token: string): Promise<boolean> {
+  const url = shareLinkUrl(token);
+  try {
+    await navigator.clipboard.writeText(url);
+    return true;
+  } catch {
+    prompt('請複製分享連結', url);
+    return false;
+  }
+}
+
+export async function loadShareLinks(projectId: string): Promise<ShareLink[]> {
+  const { data, error } = await supabase
+    .from('share_links')
+    .select('id, token, layout_solution_id, label, expires_at, revoked_at, created_at')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function createShareLink(
+  projectId: string,
+  solutionId: string | null,
+  label: string,
+  days: number,
+  createdBy: string
+): Promise<ShareLink> {
+  const { data, error } = await supabase
+    .from('share_links')
+    .insert({
+      project_id: projectId,
+      layout_solution_id: solutionId,
+      label,
+      expires_at: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString(),
+      created_by: createdBy
+    })
+    .select('id, token, layout_solution_id, label, expires_at, revoked_at, created_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function revokeShareLink(linkId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('revoke_share_link', { p_link_id: linkId });
+
+  if (error) throw error;
+  return data;
+}
+
+// Null when the token is unknown, expired or revoked.
+export async function loadSharedLayouts(token: string): Promise<SharedLayouts | null> {
+  const { data, error } = await supabase.rpc('get_shared_layouts', { p_token: token });
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const { space_standards, ...shared } = data as SharedLayoutsRow;
+  return { ...shared, standards: parseSpaceStandards(space_standards) };
+}
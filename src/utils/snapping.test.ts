@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { rectanglePolygon } from './geometry';
+import { snapPoint, snapToEdge } from './snapping';
+
+const vertices = [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 150 }];
+
+describe('snapPoint', () => {
+  it('straightens a nearly horizontal segment and aligns its end with a vertex', () => {
+    expect(snapPoint({ x: 196, y: 158 }, { x: 0, y: 150 }, vertices, 10)).toEqual({ x: 200, y: 150 });
+    expect(snapPoint({ x: 120, y: 160 }, { x: 0, y: 150 }, vertices, 10)).toEqual({ x: 120, y: 150 });
+  });
+
+  it('straightens a nearly vertical segment', () => {
+    expect(snapPoint({ x: 8, y: 145 }, { x: 0, y: 0 }, vertices, 10)).toEqual({ x: 0, y: 150 });
+  });
+
+  it('leaves diagonal segments alone apart from vertex snapping', () => {
+    expect(snapPoint({ x: 100, y: 80 }, { x: 0, y: 0 }, vertices, 10)).toEqual({ x: 100, y: 80 });
+    expect(snapPoint({ x: 195, y: 145 }, { x: 0, y: 0 }, vertices, 10)).toEqual({ x: 200, y: 150 });
+  });
+
+  it('aligns the first point with nearby vertices on each axis', () => {
+    expect(snapPoint({ x: 203, y: 60 }, null, vertices, 10)).toEqual({ x: 200, y: 60 });
+    expect(snapPoint({ x: 4, y: -3 }, null, vertices, 10)).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('snapToEdge', () => {
+  it('moves a point onto the closest edge of the polygon', () => {
+    const polygon = rectanglePolygon(200, 100);
+
+    expect(snapToEdge({ x: 50, y: 7 }, polygon)).toEqual({ x: 50, y: 0 });
+    expect(snapToEdge({ x: 190.4, y: 60 }, polygon)).toEqual({ x: 200, y: 60 });
+  });
+});
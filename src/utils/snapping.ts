@@ -0,0 +1,58 @@
+import type { Point } from './geometry';
+import { closestPointOnSegment, distance } from './geometry';
+
+const ORTHOGONAL_TOLERANCE_DEG = 10;
+
+// Port of get_snap_point from the desktop drawing tool (ui.py): segments that
+// are within 10° of horizontal/vertical are straightened, and the free
+// coordinate snaps to any existing vertex closer than `tolerance`.
+export function snapPoint(point: Point, lastPoint: Point | null, vertices: Point[], tolerance: number): Point {
+  if (lastPoint) {
+    const dx = point.x - lastPoint.x;
+    const dy = point.y - lastPoint.y;
+
+    if (dx !== 0 || dy !== 0) {
+      const angle = dx === 0 ? 90 : Math.abs(Math.atan(dy / dx) * (180 / Math.PI));
+
+      if (angle < ORTHOGONAL_TOLERANCE_DEG || angle > 90 - ORTHOGONAL_TOLERANCE_DEG) {
+        if (Math.abs(dx) > Math.abs(dy)) {
+          const aligned = vertices.find((v) => Math.abs(point.x - v.x) < tolerance);
+          return { x: aligned ? aligned.x : point.x, y: lastPoint.y };
+        }
+        const aligned = vertices.find((v) => Math.abs(point.y - v.y) < tolerance);
+        return { x: lastPoint.x, y: aligned ? aligned.y : point.y };
+      }
+    }
+  }
+
+  for (const v of vertices) {
+    if (Math.abs(point.x - v.x) < tolerance && Math.abs(point.y - v.y) < tolerance) {
+      return v;
+    }
+  }
+
+  const alignedX = vertices.find((v) => Math.abs(point.x - v.x) < tolerance);
+  const alignedY = vertices.find((v) => Math.abs(point.y - v.y) < tolerance);
+  return {
+    x: alignedX ? alignedX.x : point.x,
+    y: alignedY ? alignedY.y : point.y
+  };
+}
+
+// Projects a point onto the nearest edge of a polygon, used to keep door and
+// window segments on the traced walls.
+export function snapToEdge(point: Point, polygon: Point[]): Point {
+  let best = point;
+  let bestDistance = Infinity;
+
+  polygon.forEach((start, i) => {
+    const candidate = closestPointOnSegment(point, start, polygon[(i + 1) % polygon.length]);
+    const d = distance(point, candidate);
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  });
+
+  return { x: Math.round(best.x), y: Math.round(best.y) };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { LayoutRequirements } from './layoutEngine';
+import { defaultOutline, generateLayout } from './layoutEngine';
+import { DEFAULT_SPACE_STANDARDS, SPACE_STANDARD_PRESETS, estimateProgramArea, layoutOptions, parseSpaceStandards } from './spaceStandards';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const requirements = (changes: Partial<LayoutRequirements> = {}): LayoutRequirements => ({
+  workstations: 0,
+  meeting_rooms_small: 0,
+  meeting_rooms_medium: 0,
+  meeting_rooms_large: 0,
+  phone_booths: 0,
+  breakout_areas: 0,
+  kitchen_pantry: false,
+  reception_area: false,
+  storage_rooms: 0,
+  server_room: false,
+  ...changes
+});
+
+describe('estimateProgramArea', () => {
+  it('adds desks and rooms at the standard sizes, then circulation', () => {
+    const req = requirements({ workstations: 10, meeting_rooms_small: 2, kitchen_pantry: true });
+
+    expect(estimateProgramArea(req, DEFAULT_SPACE_STANDARDS)).toEqual({ net: 105, total: 147 });
+  });
+
+  it('follows the preset', () => {
+    const req = requirements({ workstations: 10, meeting_rooms_small: 2, kitchen_pantry: true });
+    const dense = estimateProgramArea(req, SPACE_STANDARD_PRESETS.dense);
+
+    expect(dense.net).toBe(45 + 24 + 12);
+    expect(dense.total).toBeCloseTo(81 * 1.3);
+  });
+
+  it('counts every custom room at its own area', () => {
+    const req = requirements({
+      custom_rooms: [{ id: 'lab', name: '實驗室', area: 18, count: 2, capacity: 4, adjacent_to: [] }]
+    });
+
+    expect(estimateProgramArea(req, DEFAULT_SPACE_STANDARDS).net).toBe(36);
+  });
+});
+
+describe('layoutOptions', () => {
+  it('makes the generator use the desk width of the standards', () => {
+    const plan = generateLayout(defaultOutline(300), requirements({ workstations: 8 }), undefined, layoutOptions(SPACE_STANDARD_PRESETS.dense));
+
+    expect(plan.deskClusters.length).toBeGreaterThan(0);
+    expect(plan.deskClusters.every((cluster) => cluster.deskWidth === 1.4)).toBe(true);
+  });
+});
+
+describe('parseSpaceStandards', () => {
+  it('uses the defaults for a project without standards', () => {
+    expect(parseSpaceStandards(null)).toBe(DEFAULT_SPACE_STANDARDS);
+  });
+
+  it('reads numeric columns and fills in missing room areas', () => {
+    const standards = parseSpaceStandards({
+      preset: 'custom',
+      workstation_area: '7.5',
+      desk_width: '1.8',
+      circulation_factor: '1.35',
+      room_areas: { meeting_small: 16 }
+    });
+
+    expect(standards).toEqual({
+      preset: 'custom',
+      workstation_area: 7.5,
+      desk_width: 1.8,
+      circulation_factor: 1.35,
+      room_areas: { ...DEFAULT_SPACE_STANDARDS.room_areas, meeting_small: 16 }
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { supabase } from '../lib/supabase';
+import type { LayoutOptions, LayoutRequirements, RoomType } from './layoutEngine';
+import { DESK_WIDTH, ROOM_AREAS } from './layoutEngine';
+
+export type SpaceStandardsPreset = 'dense' | 'standard' | 'premium';
+
+// Shape of a space_standards row, minus the bookkeeping columns.
+export interface SpaceStandards {
+  preset: SpaceStandardsPreset | 'custom';
+  workstation_area: number;
+  desk_width: number;
+  circulation_factor: number;
+  room_areas: Record<RoomType, number>;
+}
+
+export const SPACE_STANDARD_PRESETS: Record<SpaceStandardsPreset, SpaceStandards> = {
+  dense: {
+    preset: 'dense',
+    workstation_area: 4.5,
+    desk_width: 1.4,
+    circulation_factor: 1.3,
+    room_areas: {
+      meeting_small: 12,
+      meeting_medium: 20,
+      meeting_large: 32,
+      phone_booth: 1.5,
+      breakout: 15,
+      kitchen: 12,
+      reception: 15,
+      storage: 8,
+      server_room: 12
+    }
+  },
+  standard: {
+    preset: 'standard',
+    workstation_area: 6,
+    desk_width: DESK_WIDTH,
+    circulation_factor: 1.4,
+    room_areas: ROOM_AREAS
+  },
+  premium: {
+    preset: 'premium',
+    workstation_area: 8,
+    desk_width: 1.8,
+    circulation_factor: 1.5,
+    room_areas: {
+      meeting_small: 18,
+      meeting_medium: 30,
+      meeting_large: 50,
+      phone_booth: 2.5,
+      breakout: 30,
+      kitchen: 20,
+      reception: 30,
+      storage: 12,
+      server_room: 18
+    }
+  }
+};
+
+export const PRESET_LABELS: Record<SpaceStandards['preset'], string> = {
+  dense: '高密度',
+  standard: '標準',
+  premium: '寬敞',
+  custom: '自訂'
+};
+
+export const DEFAULT_SPACE_STANDARDS = SPACE_STANDARD_PRESETS.standard;
+
+// Program area: `net` is the sum of desks and rooms, `total` adds circulation.
+export function estimateProgramArea(req: LayoutRequirements, standards: SpaceStandards): { net: number; total: number } {
+  const areas = standards.room_areas;
+  const net =
+    req.workstations * standards.workstation_area +
+    req.meeting_rooms_small * areas.meeting_small +
+    req.meeting_rooms_medium * areas.meeting_medium +
+    req.meeting_rooms_large * areas.meeting_large +
+    req.phone_booths * areas.phone_booth +
+    req.breakout_areas * areas.breakout +
+    (req.kitchen_pantry ? areas.kitchen : 0) +
+    (req.reception_area ? areas.reception : 0) +
+    req.storage_rooms * areas.storage +
+    (req.server_room ? areas.server_room : 0) +
+    (req.custom_rooms ?? []).reduce((sum, custom) => sum + custom.area * custom.count, 0);
+
+  return { net, total: net * standards.circulation_factor };
+}
+
+export function layoutOptions(standards: SpaceStandards): LayoutOptions {
+  return { roomAreas: standards.room_areas, deskWidth: standards.desk_width };
+}
+
+export interface SpaceStandardsRow {
+  preset: SpaceStandards['preset'];
+  workstation_area: number | string;
+  desk_width: number | string;
+  circulation_factor: number | string;
+  room_areas: Partial<SpaceStandards['room_areas']>;
+}
+
+export async function loadSpaceStandards(projectId: string): Promise<SpaceStandards> {
+  const { data, error } = await supabase
+    .from('space_standards')
+    .select('preset, workstation_area, desk_width, circulation_factor, room_areas')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return parseSpaceStandards(data);
+}
+
+// Numeric columns come back as strings; a project without a row uses the defaults.
+export function parseSpaceStandards(row: SpaceStandardsRow | null): SpaceStandards {
+  if (!row) return DEFAULT_SPACE_STANDARDS;
+
+  return {
+    preset: row.preset,
+    workstation_area: Number(row.workstation_area),
+    desk_width: Number(row.desk_width),
+    circulation_factor: Number(row.circulation_factor),
+    room_areas: { ...DEFAULT_SPACE_STANDARDS.room_areas, ...row.room_areas }
+  };
+}
+
+export async function saveSpaceStandards(projectId: string, standards: SpaceStandards): Promise<void> {
+  const { error } = await supabase
+    .from('space_standards')
+    .upsert({ project_id: projectId, ...standards }, { onConflict: 'project_id' });
+
+  if (error) throw error;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_HEADCOUNT_PROFILE } from './headcountPlanner';
+import type { StackFloor, StackingPlan } from './stackingPlan';
+import { autoAssignTeams, evaluateStacking, floorRequirements, stackOrder } from './stackingPlan';
+import { DEFAULT_SPACE_STANDARDS } from './spaceStandards';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const floors: StackFloor[] = [
+  { id: 'f10', name: '10F', floor_area_sqm: 600, floor_level: 10 },
+  { id: 'f12', name: '12F', floor_area_sqm: 600, floor_level: 12 },
+  { id: 'basement', name: 'B1', floor_area_sqm: 300 }
+];
+
+const stackingPlan = (changes: Partial<StackingPlan> = {}): StackingPlan => ({
+  project_id: 'project',
+  profile: {
+    ...DEFAULT_HEADCOUNT_PROFILE,
+    teams: [
+      { id: 'sales', name: '業務', headcount: 30, work_style: 'calls' },
+      { id: 'rd', name: '研發', headcount: 25, work_style: 'focus' },
+      { id: 'ops', name: '營運', headcount: 10, work_style: 'collaborative' }
+    ]
+  },
+  floor_plan_ids: ['f12', 'f10'],
+  team_floors: { sales: 'f12', rd: 'f10', ops: 'f10' },
+  reception_floor: 'f12',
+  server_room_floor: 'f10',
+  ...changes
+});
+
+describe('stackOrder', () => {
+  it('puts the highest floor first and floors without a level last', () => {
+    expect(stackOrder(floors)).toEqual(['f12', 'f10', 'basement']);
+  });
+});
+
+describe('floorRequirements', () => {
+  it('sizes each floor for its own teams and places shared rooms once', () => {
+    const top = floorRequirements(stackingPlan(), 'f12');
+    const bottom = floorRequirements(stackingPlan(), 'f10');
+
+    expect(top.workstations).toBe(30);
+    expect(bottom.workstations).toBe(35);
+    expect([top.reception_area, bottom.reception_area]).toEqual([true, false]);
+    expect([top.server_room, bottom.server_room]).toEqual([false, true]);
+  });
+});
+
+describe('evaluateStacking', () => {
+  it('scores the stack by its tightest floor and lists unplaced teams', () => {
+    const result = evaluateStacking(stackingPlan({ team_floors: { sales: 'f12', rd: 'f12' } }), floors, DEFAULT_SPACE_STANDARDS);
+
+    expect(result.floors.map((floor) => floor.floorPlanId)).toEqual(['f12', 'f10']);
+    expect(result.floors[0].headcount).toBe(55);
+    expect(result.combinedScore).toBe(Math.min(...result.floors.map((floor) => floor.score)));
+    expect(result.unassigned.map((team) => team.id)).toEqual(['ops']);
+  });
+});
+
+describe('autoAssignTeams', () => {
+  it('keeps teams whole and spreads them over the stacked floors', () => {
+    const assignments = autoAssignTeams(stackingPlan({ team_floors: {} }), floors, DEFAULT_SPACE_STANDARDS);
+
+    expect(Object.keys(assignments).sort()).toEqual(['ops', 'rd', 'sales']);
+    expect(new Set(Object.values(assignments))).toEqual(new Set(['f10', 'f12']));
+  });
+
+  it('assigns nothing when no floors are stacked', () => {
+    expect(autoAssignTeams(stackingPlan({ floor_plan_ids: [] }), floors, DEFAULT_SPACE_STANDARDS)).toEqual({});
+  });
+});
@@ -0,0 +1,153 @@
+import { supabase } from '../lib/supabase';
+import { calculateFeasibilityScore } from './feasibility';
+import type { FloorPlanMetadata } from './floorMetadata';
+import type { HeadcountProfile, TeamHeadcount } from './headcountPlanner';
+import { deriveRequirements } from './headcountPlanner';
+import type { LayoutRequirements } from './layoutEngine';
+import type { SpaceStandards } from './spaceStandards';
+import { estimateProgramArea } from './spaceStandards';
+
+export interface StackFloor extends Partial<Pick<FloorPlanMetadata, 'building' | 'floor_level'>> {
+  id: string;
+  name: string;
+  floor_area_sqm: number | null;
+}
+
+// A project-level requirement spread over several floors. Teams are placed
+// on floors; each floor gets the rooms its own teams need, while reception
+// and the server room exist once and sit on the floor chosen for them.
+export interface StackingPlan {
+  id?: string;
+  project_id: string;
+  profile: HeadcountProfile;
+  // Top floor first.
+  floor_plan_ids: string[];
+  team_floors: Record<string, string>;
+  reception_floor: string | null;
+  server_room_floor: string | null;
+}
+
+export interface StackFloorResult {
+  floorPlanId: string;
+  teams: TeamHeadcount[];
+  headcount: number;
+  requirements: LayoutRequirements;
+  requiredArea: number;
+  score: number;
+}
+
+export interface StackingResult {
+  floors: StackFloorResult[];
+  unassigned: TeamHeadcount[];
+  // A stack is only as feasible as its tightest floor.
+  combinedScore: number;
+}
+
+// Default stack order: highest floor level first, floors without a level last.
+export function stackOrder(floors: StackFloor[]): string[] {
+  return [...floors]
+    .sort((a, b) => (b.floor_level ?? -Infinity) - (a.floor_level ?? -Infinity))
+    .map((floor) => floor.id);
+}
+
+export function floorRequirements(plan: StackingPlan, floorPlanId: string): LayoutRequirements {
+  const teams = plan.profile.teams.filter((team) => plan.team_floors[team.id] === floorPlanId);
+  const headcount = teams.reduce((sum, team) => sum + team.headcount, 0);
+  const derived = deriveRequirements({ ...plan.profile, teams }, headcount);
+
+  return {
+    ...derived,
+    reception_area: plan.reception_floor === floorPlanId,
+    server_room: plan.server_room_floor === floorPlanId
+  };
+}
+
+export function evaluateStacking(plan: StackingPlan, floors: StackFloor[], standards: SpaceStandards): StackingResult {
+  const stacked = plan.floor_plan_ids
+    .map((id) => floors.find((floor) => floor.id === id))
+    .filter((floor): floor is StackFloor => Boolean(floor));
+
+  const results = stacked.map((floor) => {
+    const teams = plan.profile.teams.filter((team) => plan.team_floors[team.id] === floor.id);
+    const requirements = floorRequirements(plan, floor.id);
+    return {
+      floorPlanId: floor.id,
+      teams,
+      headcount: teams.reduce((sum, team) => sum + team.headcount, 0),
+      requirements,
+      requiredArea: Math.round(estimateProgramArea(requirements, standards).total),
+      score: calculateFeasibilityScore(requirements, floor.floor_area_sqm, standards)
+    };
+  });
+
+  return {
+    floors: results,
+    unassigned: plan.profile.teams.filter((team) => !stacked.some((floor) => floor.id === plan.team_floors[team.id])),
+    combinedScore: results.length > 0 ? Math.min(...results.map((floor) => floor.score)) : 0
+  };
+}
+
+// Largest teams first, each onto the floor with the most area left, so that
+// teams stay whole and floors fill evenly.
+export function autoAssignTeams(plan: StackingPlan, floors: StackFloor[], standards: SpaceStandards): Record<string, string> {
+  const stacked = floors.filter((floor) => plan.floor_plan_ids.includes(floor.id));
+  if (stacked.length === 0) return {};
+
+  const remaining = new Map(stacked.map((floor) => [floor.id, floor.floor_area_sqm ?? 0]));
+  const teamArea = (team: TeamHeadcount) =>
+    estimateProgramArea(
+      { ...deriveRequirements({ ...plan.profile, teams: [team] }), reception_area: false, server_room: false },
+      standards
+    ).total;
+  const assignments: Record<string, string> = {};
+
+  [...plan.profile.teams]
+    .sort((a, b) => b.headcount - a.headcount)
+    .forEach((team) => {
+      const [floorId, area] = [...remaining.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+      assignments[team.id] = floorId;
+      remaining.set(floorId, area - teamArea(team));
+    });
+
+  return assignments;
+}
+
+export async function loadStackingPlan(projectId: string): Promise<StackingPlan | null> {
+  const { data, error } = await supabase
+    .from('stacking_plans')
+    .select('id, project_id, profile, floor_plan_ids, team_floors, reception_floor, server_room_floor')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function saveStackingPlan(plan: StackingPlan): Promise<StackingPlan> {
+  const { data, error } = await supabase
+    .from('stacking_plans')
+    .upsert(plan, { onConflict: 'project_id' })
+    .select('id, project_id, profile, floor_plan_ids, team_floors, reception_floor, server_room_floor')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Writes each floor's share as that floor's space requirement so layouts can
+// be generated per floor as usual.
+export async function applyStackingToFloors(plan: StackingPlan): Promise<void> {
+  const rows = plan.floor_plan_ids.map((floorPlanId) => ({
+    project_id: plan.project_id,
+    floor_plan_id: floorPlanId,
+    ...floorRequirements(plan, floorPlanId),
+    headcount_profile: {
+      ...plan.profile,
+      teams: plan.profile.teams.filter((team) => plan.team_floors[team.id] === floorPlanId)
+    },
+    additional_notes: ''
+  }));
+
+  const { error } = await supabase.from('space_requirements').insert(rows);
+  if (error) throw error;
+}
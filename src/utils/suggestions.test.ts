@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { LayoutRequirements } from './layoutEngine';
+import { defaultOutline, generateLayout, summarizeLayout } from './layoutEngine';
+import { DEFAULT_SPACE_STANDARDS, estimateProgramArea } from './spaceStandards';
+import type { Suggestion } from './suggestions';
+import { formatSuggestions, generateSuggestions, parseSuggestions } from './suggestions';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const requirements = (changes: Partial<LayoutRequirements> = {}): LayoutRequirements => ({
+  workstations: 0,
+  meeting_rooms_small: 0,
+  meeting_rooms_medium: 0,
+  meeting_rooms_large: 0,
+  phone_booths: 0,
+  breakout_areas: 0,
+  kitchen_pantry: false,
+  reception_area: false,
+  storage_rooms: 0,
+  server_room: false,
+  ...changes
+});
+
+const suggestionsFor = (req: LayoutRequirements, availableArea: number | null) => {
+  const plan = generateLayout(defaultOutline(availableArea ?? 500), req);
+  return generateSuggestions({
+    req,
+    plan,
+    summary: summarizeLayout(plan, req),
+    availableArea,
+    standards: DEFAULT_SPACE_STANDARDS
+  });
+};
+
+describe('generateSuggestions', () => {
+  it('puts an area shortfall first and offers a workstation count that fits', () => {
+    const req = requirements({ workstations: 100, meeting_rooms_small: 12 });
+    const suggestions = suggestionsFor(req, 300);
+    const shortfall = suggestions.find((s) => s.id === 'area_shortfall');
+
+    expect(suggestions[0].severity).toBe('critical');
+    expect(shortfall?.fix?.changes.workstations).toBeLessThan(100);
+
+    const fixed = { ...req, ...shortfall!.fix!.changes };
+    expect(estimateProgramArea(fixed, DEFAULT_SPACE_STANDARDS).total).toBeLessThanOrEqual(300);
+  });
+
+  it('suggests program additions whose fixes then satisfy the rules', () => {
+    const req = requirements({ workstations: 48 });
+    const suggestions = suggestionsFor(req, 1000);
+    const program = suggestions.filter((s) => ['meeting_ratio', 'phone_booths', 'breakout', 'kitchen'].includes(s.id));
+
+    expect(program).toHaveLength(4);
+
+    const fixed = program.reduce((current, s) => ({ ...current, ...s.fix?.changes }), req);
+    const remaining = suggestionsFor(fixed, 1000).map((s) => s.id);
+    expect(remaining).not.toContain('meeting_ratio');
+    expect(remaining).not.toContain('phone_booths');
+    expect(remaining).not.toContain('kitchen');
+  });
+
+  it('asks for the floor area and exits when they are missing', () => {
+    const ids = suggestionsFor(requirements({ workstations: 4 }), null).map((s) => s.id);
+
+    expect(ids).toContain('missing_floor_area');
+    expect(ids).toContain('egress');
+  });
+});
+
+describe('formatSuggestions', () => {
+  it('labels each suggestion with its severity', () => {
+    expect(formatSuggestions([{ id: 'kitchen', severity: 'info', message: '沒有茶水間。' }])).toBe('【建議】沒有茶水間。');
+    expect(formatSuggestions([])).toBe('配置沒有發現需要調整的地方。');
+  });
+});
+
+describe('parseSuggestions', () => {
+  const kitchen: Suggestion = {
+    id: 'kitchen',
+    severity: 'info',
+    message: '沒有茶水間。',
+    fix: { label: '加入茶水間', changes: { kitchen_pantry: true } }
+  };
+
+  it('shows the stored suggestions and keeps fixes for those still raised', () => {
+    const stored = formatSuggestions([kitchen, { id: 'egress', severity: 'warning', message: '只有一個出口。' }]);
+
+    expect(parseSuggestions(stored, [kitchen, { id: 'breakout', severity: 'info', message: '沒有休息區。' }])).toEqual([
+      kitchen,
+      { id: 'stored-1', severity: 'warning', message: '只有一個出口。' }
+    ]);
+  });
+
+  it('reads the empty form back and gives up on free text', () => {
+    expect(parseSuggestions(formatSuggestions([]), [kitchen])).toEqual([]);
+    expect(parseSuggestions('空間配置良好', [])).toBeNull();
+  });
+});
@@ -0,0 +1,282 @@
+import type { Rect } from './geometry';
+import { closestPointOnSegment, distance, polygonArea } from './geometry';
+import type { LayoutPlan, LayoutRequirements, LayoutSummary } from './layoutEngine';
+import { describeViolation } from './layoutEngine';
+import { SINGLE_EXIT_AREA } from './feasibility';
+import type { SpaceStandards } from './spaceStandards';
+import { estimateProgramArea } from './spaceStandards';
+
+export type SuggestionSeverity = 'critical' | 'warning' | 'info';
+
+// A change to the space requirement that addresses a suggestion; applying it
+// saves a new requirement and generates a solution for it.
+export interface RequirementFix {
+  label: string;
+  changes: Partial<LayoutRequirements>;
+}
+
+export interface Suggestion {
+  // Id of the rule that raised it; each rule raises at most one.
+  id: string;
+  severity: SuggestionSeverity;
+  message: string;
+  fix?: RequirementFix;
+}
+
+export interface SuggestionContext {
+  req: LayoutRequirements;
+  plan: LayoutPlan;
+  summary: LayoutSummary;
+  availableArea: number | null;
+  standards: SpaceStandards;
+}
+
+type SuggestionRule = (context: SuggestionContext) => Suggestion | null;
+
+export const SEVERITY_LABELS: Record<SuggestionSeverity, string> = {
+  critical: '嚴重',
+  warning: '注意',
+  info: '建議'
+};
+
+const SEVERITY_ORDER: SuggestionSeverity[] = ['critical', 'warning', 'info'];
+
+// Workstations per meeting room before meeting space runs short, and the
+// point where rooms start sitting empty.
+const DESKS_PER_MEETING_ROOM = 8;
+const MIN_DESKS_PER_MEETING_ROOM = 4;
+// Open plans this large need somewhere to take calls.
+const PHONE_BOOTH_THRESHOLD = 40;
+const DESKS_PER_PHONE_BOOTH = 15;
+const BREAKOUT_THRESHOLD = 30;
+const DESKS_PER_BREAKOUT = 50;
+const KITCHEN_THRESHOLD = 20;
+// A server room needs an exterior wall for exhaust and split AC units.
+const EXTERIOR_WALL_GAP = 1;
+const LOW_DAYLIGHT = 50;
+// Available over required area above which the floor has room to grow.
+const GROWTH_HEADROOM = 1.2;
+
+const meetingRoomCount = (req: LayoutRequirements) =>
+  req.meeting_rooms_small + req.meeting_rooms_medium + req.meeting_rooms_large;
+
+// Area one more workstation takes, circulation included.
+const deskFootprint = (standards: SpaceStandards) => standards.workstation_area * standards.circulation_factor;
+
+function shortfall({ req, availableArea, standards }: SuggestionContext): number {
+  return availableArea ? estimateProgramArea(req, standards).total - availableArea : 0;
+}
+
+function againstExteriorWall(rect: Rect, plan: LayoutPlan): boolean {
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height }
+  ];
+  return plan.outline.some((start, i) => {
+    const end = plan.outline[(i + 1) % plan.outline.length];
+    return corners.filter((corner) => distance(corner, closestPointOnSegment(corner, start, end)) <= EXTERIOR_WALL_GAP).length >= 2;
+  });
+}
+
+const RULES: SuggestionRule[] = [
+  ({ availableArea }) => availableArea ? null : {
+    id: 'missing_floor_area',
+    severity: 'info',
+    message: '平面圖尚未設定總面積，無法檢查面積是否足夠。建議在平面圖設定中填入實際面積。'
+  },
+
+  (context) => {
+    const { req, availableArea, standards } = context;
+    const missing = shortfall(context);
+    if (!availableArea || missing <= 0) return null;
+
+    const fitting = req.workstations - Math.ceil(missing / deskFootprint(standards));
+    return {
+      id: 'area_shortfall',
+      severity: 'critical',
+      message: `需求面積約 ${Math.round(availableArea + missing)} m²，超過可用面積 ${Math.round(availableArea)} m² 約 ${Math.round(missing)} m²。`,
+      fix: fitting > 0 ? { label: `工作站減為 ${fitting} 個`, changes: { workstations: fitting } } : undefined
+    };
+  },
+
+  (context) => {
+    const { req, summary } = context;
+    if (summary.workstations_placed >= req.workstations || shortfall(context) > 0) return null;
+
+    return {
+      id: 'workstations_unplaced',
+      severity: 'warning',
+      message: `面積足夠，但受限於平面形狀只配置了 ${summary.workstations_placed} / ${req.workstations} 個工作站。可嘗試減少封閉空間，或在配置編輯器中調整。`,
+      fix: summary.workstations_placed > 0
+        ? { label: `工作站需求改為 ${summary.workstations_placed} 個`, changes: { workstations: summary.workstations_placed } }
+        : undefined
+    };
+  },
+
+  ({ plan }) => {
+    const exits = (plan.openings ?? []).filter((opening) => opening.type !== 'window').length;
+    const area = polygonArea(plan.outline);
+    if (exits === 0) {
+      return {
+        id: 'egress',
+        severity: 'info',
+        message: '平面圖尚未標示出入口或逃生門，無法檢查逃生距離。請在平面圖校正中標示。'
+      };
+    }
+    if (exits >= 2 || area <= SINGLE_EXIT_AREA) return null;
+
+    return {
+      id: 'egress',
+      severity: 'critical',
+      message: `樓板面積約 ${Math.round(area)} m²，但只標示了一個出口。超過 ${SINGLE_EXIT_AREA} m² 的樓層應有第二個逃生出口，請確認現場狀況或補上標示。`
+    };
+  },
+
+  ({ req }) => {
+    const rooms = meetingRoomCount(req);
+    if (req.workstations < DESKS_PER_MEETING_ROOM || req.workstations / Math.max(rooms, 1) <= DESKS_PER_MEETING_ROOM) return null;
+
+    const needed = Math.ceil(req.workstations / DESKS_PER_MEETING_ROOM) - rooms;
+    return {
+      id: 'meeting_ratio',
+      severity: 'warning',
+      message: rooms === 0
+        ? `${req.workstations} 個工作站卻沒有任何會議室，建議每 ${DESKS_PER_MEETING_ROOM} 個工作站至少一間。`
+        : `每 ${Math.round(req.workstations / rooms)} 個工作站才有一間會議室，低於建議的 1:${DESKS_PER_MEETING_ROOM}。`,
+      fix: {
+        label: `增加 ${needed} 間小型會議室`,
+        changes: { meeting_rooms_small: req.meeting_rooms_small + needed }
+      }
+    };
+  },
+
+  ({ req }) => {
+    const rooms = meetingRoomCount(req);
+    if (rooms <= 5 || req.workstations / rooms >= MIN_DESKS_PER_MEETING_ROOM) return null;
+
+    return {
+      id: 'meeting_surplus',
+      severity: 'info',
+      message: `${rooms} 間會議室對 ${req.workstations} 個工作站偏多，容易閒置。建議導入會議室預約系統，或將部分小型會議室改為電話亭。`
+    };
+  },
+
+  ({ req }) => {
+    if (req.workstations < PHONE_BOOTH_THRESHOLD || req.phone_booths > 0) return null;
+
+    const booths = Math.ceil(req.workstations / DESKS_PER_PHONE_BOOTH);
+    return {
+      id: 'phone_booths',
+      severity: 'warning',
+      message: `${req.workstations} 個工作站的開放辦公區沒有電話亭，視訊與通話會干擾鄰座。建議每 ${DESKS_PER_PHONE_BOOTH} 個工作站一間。`,
+      fix: { label: `加入 ${booths} 間電話亭`, changes: { phone_booths: booths } }
+    };
+  },
+
+  ({ req }) => {
+    if (req.workstations < BREAKOUT_THRESHOLD || req.breakout_areas > 0) return null;
+
+    const areas = Math.ceil(req.workstations / DESKS_PER_BREAKOUT);
+    return {
+      id: 'breakout',
+      severity: 'info',
+      message: `${req.workstations} 人的辦公室沒有休息區，建議設置非正式討論與休息的空間。`,
+      fix: { label: `加入 ${areas} 個休息區`, changes: { breakout_areas: areas } }
+    };
+  },
+
+  ({ req }) => {
+    if (req.workstations < KITCHEN_THRESHOLD || req.kitchen_pantry) return null;
+
+    return {
+      id: 'kitchen',
+      severity: 'info',
+      message: `${req.workstations} 人的辦公室沒有茶水間。`,
+      fix: { label: '加入茶水間', changes: { kitchen_pantry: true } }
+    };
+  },
+
+  ({ plan }) => {
+    const serverRoom = plan.rooms.find((room) => room.type === 'server_room');
+    if (!serverRoom || againstExteriorWall(serverRoom, plan)) return null;
+
+    return {
+      id: 'server_room_wall',
+      severity: 'warning',
+      message: '機房沒有靠外牆，排熱與獨立空調的管線不易配置。請在配置編輯器中將機房移到外牆邊。'
+    };
+  },
+
+  ({ req, summary }) => {
+    const violations = summary.adjacency_violations ?? [];
+    if (violations.length === 0) return null;
+
+    const listed = violations.slice(0, 3).map((violation) => describeViolation(violation, req.custom_rooms));
+    return {
+      id: 'adjacency',
+      severity: 'warning',
+      message: `${violations.length} 項相鄰或分區條件未滿足：${listed.join('；')}${violations.length > listed.length ? ' 等' : ''}。可重新生成或在配置編輯器中調整。`
+    };
+  },
+
+  ({ summary }) => {
+    if (summary.daylight_score === null || summary.daylight_score >= LOW_DAYLIGHT) return null;
+
+    return {
+      id: 'daylight',
+      severity: 'info',
+      message: `採光評分只有 ${summary.daylight_score} 分，多數工位離窗較遠。建議將會議室與儲藏室等封閉空間移往內側，讓工位沿窗配置。`
+    };
+  },
+
+  (context) => {
+    const { req, summary, availableArea, standards } = context;
+    if (!availableArea || !Object.values(summary.constraints_met).every(Boolean)) return null;
+
+    const required = estimateProgramArea(req, standards).total;
+    if (availableArea < required * GROWTH_HEADROOM) return null;
+
+    const spare = Math.floor((availableArea - required * GROWTH_HEADROOM) / deskFootprint(standards));
+    if (spare <= 0) return null;
+    return {
+      id: 'growth_headroom',
+      severity: 'info',
+      message: `需求都已滿足，且保留兩成餘裕後仍可再容納約 ${spare} 個工作站，可作為未來成長空間。`,
+      fix: { label: `工作站增加為 ${req.workstations + spare} 個`, changes: { workstations: req.workstations + spare } }
+    };
+  }
+];
+
+export function generateSuggestions(context: SuggestionContext): Suggestion[] {
+  return RULES
+    .map((rule) => rule(context))
+    .filter((suggestion): suggestion is Suggestion => suggestion !== null)
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+// Plain-text form kept in layout_solutions.suggestions and version snapshots.
+export function formatSuggestions(suggestions: Suggestion[]): string {
+  if (suggestions.length === 0) return '配置沒有發現需要調整的地方。';
+  return suggestions.map((suggestion) => `【${SEVERITY_LABELS[suggestion.severity]}】${suggestion.message}`).join('\n');
+}
+
+// Reads back the suggestions stored with a solution. Those still raised by the
+// current rules keep their fix; null when the text isn't in the stored form.
+export function parseSuggestions(text: string, current: Suggestion[]): Suggestion[] | null {
+  if (text === formatSuggestions([])) return [];
+
+  const severities = Object.fromEntries(
+    Object.entries(SEVERITY_LABELS).map(([severity, label]) => [label, severity as SuggestionSeverity])
+  );
+  const parsed = text.split('\n').map((line, index) => {
+    const match = line.match(/^【(.+?)】(.*)$/);
+    const severity = match && severities[match[1]];
+    if (!match || !severity) return null;
+    const same = current.find((suggestion) => suggestion.severity === severity && suggestion.message === match[2]);
+    return same ?? { id: `stored-${index}`, severity, message: match[2] };
+  });
+
+  return parsed.every((suggestion) => suggestion !== null) ? parsed : null;
+}
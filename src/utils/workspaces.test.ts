@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ASSIGNABLE_ROLES, canEdit, collaboratorName, loadWorkspaces } from './workspaces';
+
+const { memberships } = vi.hoisted(() => ({
+  memberships: [
+    { role: 'viewer', workspaces: { id: 'w2', name: 'Design' } },
+    { role: 'owner', workspaces: { id: 'w1', name: 'Admin' } }
+  ]
+}));
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ eq: async () => ({ data: memberships, error: null }) }) })
+  }
+}));
+
+describe('canEdit', () => {
+  it('lets owners and editors change a project', () => {
+    expect(canEdit('owner')).toBe(true);
+    expect(canEdit('editor')).toBe(true);
+    expect(canEdit('viewer')).toBe(false);
+    expect(canEdit(null)).toBe(false);
+  });
+});
+
+describe('ASSIGNABLE_ROLES', () => {
+  it('never shares project ownership directly', () => {
+    expect(ASSIGNABLE_ROLES.project).not.toContain('owner');
+    expect(ASSIGNABLE_ROLES.workspace).toContain('owner');
+  });
+});
+
+describe('collaboratorName', () => {
+  it('falls back to the name part of the email', () => {
+    expect(collaboratorName({ user_id: 'u1', email: 'amy@example.com', full_name: '王小美' })).toBe('王小美');
+    expect(collaboratorName({ user_id: 'u1', email: 'amy@example.com', full_name: null })).toBe('amy');
+  });
+});
+
+describe('loadWorkspaces', () => {
+  it('flattens memberships into workspaces with the role, sorted by name', async () => {
+    expect(await loadWorkspaces('u1')).toEqual([
+      { id: 'w1', name: 'Admin', role: 'owner' },
+      { id: 'w2', name: 'Design', role: 'viewer' }
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { supabase } from '../lib/supabase';
+
+export type MemberRole = 'owner' | 'editor' | 'viewer';
+
+// Projects can be shared with workspaces or with individual people; owners
+// of a project are its creator and the owners of its workspace.
+export type ShareTargetKind = 'workspace' | 'project';
+
+export interface ShareTarget {
+  kind: ShareTargetKind;
+  id: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: MemberRole;
+}
+
+export interface Member {
+  id: string;
+  user_id: string;
+  role: MemberRole;
+  email: string;
+  full_name: string | null;
+}
+
+// Someone with access to a project, by any route.
+export interface Collaborator {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: MemberRole;
+  created_at: string;
+}
+
+export const ROLE_LABELS: Record<MemberRole, string> = {
+  owner: '擁有者',
+  editor: '編輯者',
+  viewer: '檢視者'
+};
+
+// Roles that can be granted on each kind of target; a project's owners come
+// from its creator and workspace, never from a direct share.
+export const ASSIGNABLE_ROLES: Record<ShareTargetKind, MemberRole[]> = {
+  workspace: ['owner', 'editor', 'viewer'],
+  project: ['editor', 'viewer']
+};
+
+const MEMBER_TABLES: Record<ShareTargetKind, string> = {
+  workspace: 'workspace_members',
+  project: 'project_members'
+};
+
+const targetColumn = (target: ShareTarget) => `${target.kind}_id`;
+
+// supabase-js types embedded rows as arrays; these joins are many-to-one and
+// return a single object.
+interface MembershipRow {
+  role: MemberRole;
+  workspaces: { id: string; name: string };
+}
+
+interface MemberRow {
+  id: string;
+  user_id: string;
+  role: MemberRole;
+  profiles: { email: string; full_name: string | null } | null;
+}
+
+export const canEdit = (role: MemberRole | null) => role === 'owner' || role === 'editor';
+
+export const collaboratorName = (collaborator: Collaborator) =>
+  collaborator.full_name || collaborator.email.split('@')[0];
+
+export async function loadWorkspaces(userId: string): Promise<Workspace[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(id, name)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return ((data ?? []) as unknown as MembershipRow[])
+    .map((row) => ({ id: row.workspaces.id, name: row.workspaces.name, role: row.role }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'zh-TW'));
+}
+
+// Roles of the projects shared with the user one by one, by project id.
+export async function loadProjectShares(userId: string): Promise<Record<string, MemberRole>> {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('project_id, role')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map((row) => [row.project_id, row.role]));
+}
+
+export async function createWorkspace(name: string, userId: string): Promise<Workspace> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert({ name, created_by: userId })
+    .select('id, name')
+    .single();
+
+  if (error) throw error;
+  return { ...data, role: 'owner' };
+}
+
+export async function loadProjectRole(projectId: string): Promise<MemberRole | null> {
+  const { data, error } = await supabase.rpc('project_role', { p_project_id: projectId });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function loadCollaborators(projectId: string): Promise<Collaborator[]> {
+  const { data, error } = await supabase.rpc('project_collaborators', { p_project_id: projectId });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Turns invitations sent to the signed-in user's email into memberships.
+export async function acceptInvitations(): Promise<number> {
+  const { data, error } = await supabase.rpc('accept_invitations');
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+export async function loadMembers(target: ShareTarget): Promise<Member[]> {
+  const { data, error } = await supabase
+    .from(MEMBER_TABLES[target.kind])
+    .select('id, user_id, role, profiles(email, full_name)')
+    .eq(targetColumn(target), target.id)
+    .order('created_at');
+
+  if (error) throw error;
+  return ((data ?? []) as unknown as MemberRow[]).map((row) => ({
+    id: row.id,
+    user_id: row.user_id,
+    role: row.role,
+    email: row.profiles?.email ?? '',
+    full_name: row.profiles?.full_name ?? null
+  }));
+}
+
+export async function updateMemberRole(target: ShareTarget, memberId: string, role: MemberRole): Promise<void> {
+  const { error } = await supabase
+    .from(MEMBER_TABLES[target.kind])
+    .update({ role })
+    .eq('id', memberId);
+
+  if (error) throw error;
+}
+
+export async function removeMember(target: ShareTarget, memberId: string): Promise<void> {
+  const { error } = await supabase
+    .from(MEMBER_TABLES[target.kind])
+    .delete()
+    .eq('id', memberId);
+
+  if (error) throw error;
+}
+
+export async function loadInvitations(target: ShareTarget): Promise<Invitation[]> {
+  const { data, error } = await supabase
+    .from('invitations')
+    .select('id, email, role, created_at')
+    .eq(targetColumn(target), target.id)
+    .is('accepted_at', null)
+    .order('created_at');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function inviteByEmail(target: ShareTarget, email: string, role: MemberRole, invitedBy: string): Promise<Invitation> {
+  const { data, error } = await supabase
+    .from('invitations')
+    .insert({ [targetColumn(target)]: target.id, email: email.trim().toLowerCase(), role, invited_by: invitedBy })
+    .select('id, email, role, created_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function cancelInvitation(invitationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('invitations')
+    .delete()
+    .eq('id', invitationId);
+
+  if (error) throw error;
+}
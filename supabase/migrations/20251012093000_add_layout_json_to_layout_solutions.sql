@@ -0,0 +1,15 @@
+/*
+  # Store generated layout geometry
+
+  ## Overview
+  The space allocation engine now produces real geometry (corridors, rooms and desk clusters)
+  for every solution. This migration adds a column to persist it so solutions can be redrawn
+  and edited later.
+
+  ## Changes
+  ### layout_solutions
+  - `layout_json` (jsonb) - Placed rooms, desk clusters and corridors in meters, plus the floor outline
+*/
+
+ALTER TABLE layout_solutions
+  ADD COLUMN IF NOT EXISTS layout_json jsonb DEFAULT '{}'::jsonb;
@@ -0,0 +1,22 @@
+/*
+  # Layout version snapshots
+
+  ## Overview
+  `layout_versions` only recorded a version number and description, which is not enough to
+  compare or restore a solution. Each version now keeps a full snapshot of the solution row
+  at the time it was created.
+
+  ## Changes
+  ### layout_versions
+  - `snapshot` (jsonb) - Scores, placed counts, suggestions, image URL and layout geometry
+  - Unique version numbers per solution
+
+  ## Security
+  - Versions stay append-only (no UPDATE/DELETE policies)
+*/
+
+ALTER TABLE layout_versions
+  ADD COLUMN IF NOT EXISTS snapshot jsonb DEFAULT '{}'::jsonb;
+
+ALTER TABLE layout_versions
+  ADD CONSTRAINT layout_versions_solution_version_key UNIQUE (layout_solution_id, version_number);
@@ -0,0 +1,80 @@
+/*
+  # Space standards
+
+  ## Overview
+  Area per workstation, room sizes and the circulation factor used to be hard-coded in the
+  estimator and the feasibility score. They are now stored per project so that the
+  estimator, the scorer and the layout generator all use the same norms.
+
+  ## New Tables
+  ### space_standards
+  - `id` (uuid, PK)
+  - `project_id` (uuid, FK to projects, unique)
+  - `preset` (text) - dense/standard/premium/custom
+  - `workstation_area` (numeric) - Area per workstation including its share of aisles
+  - `desk_width` (numeric) - Desk width used by the layout generator (m)
+  - `circulation_factor` (numeric) - Multiplier applied to the net program area
+  - `room_areas` (jsonb) - Area per room type in square meters
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; users can read and write standards of their own projects
+*/
+
+CREATE TABLE IF NOT EXISTS space_standards (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  preset text DEFAULT 'standard' CHECK (preset IN ('dense', 'standard', 'premium', 'custom')),
+  workstation_area numeric NOT NULL DEFAULT 6,
+  desk_width numeric NOT NULL DEFAULT 1.6,
+  circulation_factor numeric NOT NULL DEFAULT 1.4,
+  room_areas jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE space_standards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own space standards"
+  ON space_standards FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = space_standards.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own space standards"
+  ON space_standards FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = space_standards.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own space standards"
+  ON space_standards FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = space_standards.project_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = space_standards.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_space_standards_updated_at BEFORE UPDATE ON space_standards
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,21 @@
+/*
+  # Custom room types
+
+  ## Overview
+  Requirements were limited to ten fixed fields. Projects can now add their own room types
+  (manager office, wellness room, training room, ...) with an area, count, capacity and
+  adjacency preferences.
+
+  ## Changes
+  ### space_requirements
+  - `custom_rooms` (jsonb) - Array of { id, name, area, count, capacity, adjacent_to }
+
+  ### layout_solutions
+  - `custom_rooms_placed` (jsonb) - Placed count per custom room id
+*/
+
+ALTER TABLE space_requirements
+  ADD COLUMN IF NOT EXISTS custom_rooms jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE layout_solutions
+  ADD COLUMN IF NOT EXISTS custom_rooms_placed jsonb NOT NULL DEFAULT '{}'::jsonb;
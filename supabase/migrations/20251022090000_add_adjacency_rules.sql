@@ -0,0 +1,25 @@
+/*
+  # Adjacency and zoning constraints
+
+  ## Overview
+  Requirements could only say how many rooms are needed, not where they belong relative to
+  each other. Pairs of rooms can now be marked as must-be-adjacent, prefer-near or
+  must-be-apart, and rooms as well as the open workspace can be put in a quiet or loud zone.
+  The layout generator takes both into account and reports what it could not satisfy.
+
+  ## Changes
+  ### space_requirements
+  - `adjacency_rules` (jsonb) - Array of { a, b, relation } where a and b are room types or
+    custom room ids and relation is adjacent/near/apart
+  - `zones` (jsonb) - Map of room type, custom room id or `workstations` to quiet/loud
+
+  ### layout_solutions
+  - `adjacency_violations` (jsonb) - Array of { rule, a, b } the layout does not satisfy
+*/
+
+ALTER TABLE space_requirements
+  ADD COLUMN IF NOT EXISTS adjacency_rules jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS zones jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE layout_solutions
+  ADD COLUMN IF NOT EXISTS adjacency_violations jsonb NOT NULL DEFAULT '[]'::jsonb;
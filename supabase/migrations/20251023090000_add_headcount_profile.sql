@@ -0,0 +1,16 @@
+/*
+  # Headcount profile
+
+  ## Overview
+  Clients give headcount, not desk counts. The requirement wizard derives desks, meeting
+  rooms and phone booths from headcount, growth, hybrid attendance, desk sharing and team
+  breakdown; the answers are kept with the requirement so the wizard can be reopened.
+
+  ## Changes
+  ### space_requirements
+  - `headcount_profile` (jsonb, nullable) - { headcount, growth_rate, planning_years,
+    attendance_ratio, desk_sharing_ratio, teams[] }; null when the form was filled in by hand
+*/
+
+ALTER TABLE space_requirements
+  ADD COLUMN IF NOT EXISTS headcount_profile jsonb;
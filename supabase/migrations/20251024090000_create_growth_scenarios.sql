@@ -0,0 +1,91 @@
+/*
+  # Growth scenarios
+
+  ## Overview
+  Tenants ask whether a floor will still work in a few years. A growth scenario lists the
+  expected headcount per year; the app derives a requirement set for each year, checks its
+  feasibility against the selected floor plans and shows when the space runs out.
+
+  ## New Tables
+  ### growth_scenarios
+  - `id` (uuid, PK)
+  - `project_id` (uuid, FK to projects)
+  - `name` (text)
+  - `profile` (jsonb) - { attendance_ratio, desk_sharing_ratio, teams[] } applied to every year
+  - `headcounts` (jsonb) - Array of { year, headcount }
+  - `floor_plan_ids` (jsonb) - Ids of the floor plans to check
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; users can manage scenarios of their own projects
+*/
+
+CREATE TABLE IF NOT EXISTS growth_scenarios (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  profile jsonb NOT NULL DEFAULT '{}'::jsonb,
+  headcounts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  floor_plan_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE growth_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own growth scenarios"
+  ON growth_scenarios FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = growth_scenarios.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own growth scenarios"
+  ON growth_scenarios FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = growth_scenarios.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own growth scenarios"
+  ON growth_scenarios FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = growth_scenarios.project_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = growth_scenarios.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own growth scenarios"
+  ON growth_scenarios FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = growth_scenarios.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_growth_scenarios_project_id ON growth_scenarios(project_id);
+
+CREATE TRIGGER update_growth_scenarios_updated_at BEFORE UPDATE ON growth_scenarios
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,92 @@
+/*
+  # Stacking plans
+
+  ## Overview
+  Larger tenants take several floors. A stacking plan holds one project-level headcount
+  profile and distributes its teams over the project's floor plans; reception and the
+  server room are placed once, on a chosen floor. Each floor's share can be written back as
+  that floor's space requirement.
+
+  ## New Tables
+  ### stacking_plans
+  - `id` (uuid, PK)
+  - `project_id` (uuid, FK to projects, unique) - One stacking plan per project
+  - `profile` (jsonb) - Headcount profile with teams, as in space_requirements.headcount_profile
+  - `floor_plan_ids` (jsonb) - Floors in the stack, top floor first
+  - `team_floors` (jsonb) - { team id: floor plan id }
+  - `reception_floor` (uuid, FK to floor_plans, nullable)
+  - `server_room_floor` (uuid, FK to floor_plans, nullable)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; users can manage the stacking plan of their own projects
+*/
+
+CREATE TABLE IF NOT EXISTS stacking_plans (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  profile jsonb NOT NULL DEFAULT '{}'::jsonb,
+  floor_plan_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+  team_floors jsonb NOT NULL DEFAULT '{}'::jsonb,
+  reception_floor uuid REFERENCES floor_plans(id) ON DELETE SET NULL,
+  server_room_floor uuid REFERENCES floor_plans(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stacking_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own stacking plans"
+  ON stacking_plans FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = stacking_plans.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own stacking plans"
+  ON stacking_plans FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = stacking_plans.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own stacking plans"
+  ON stacking_plans FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = stacking_plans.project_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = stacking_plans.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own stacking plans"
+  ON stacking_plans FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = stacking_plans.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_stacking_plans_updated_at BEFORE UPDATE ON stacking_plans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
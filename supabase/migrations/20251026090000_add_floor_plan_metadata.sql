@@ -0,0 +1,36 @@
+/*
+  # Floor plan metadata
+
+  ## Overview
+  Building and lease facts about a floor used to be typed into the project description.
+  They are now structured columns on the floor plan: the north arrow and ceiling height feed
+  the daylight score of generated layouts, and rent, lease dates and core factor are
+  available for cost reports.
+
+  ## Changes
+  ### floor_plans
+  - `building` (text, nullable)
+  - `floor_level` (integer, nullable) - 1 for the ground floor, negative for basements
+  - `ceiling_height_m` (numeric, nullable)
+  - `north_angle` (numeric, nullable) - Clockwise degrees from up on the drawing to true north
+  - `rent_per_sqm` (numeric, nullable) - Monthly rent per m² of leased area
+  - `lease_start` (date, nullable)
+  - `lease_end` (date, nullable)
+  - `core_factor` (numeric, nullable) - Share of the leased area that is core and common area, 0-1
+
+  ### layout_solutions
+  - `daylight_score` (integer, nullable) - 0-100; null when the floor plan has no windows annotated
+*/
+
+ALTER TABLE floor_plans
+  ADD COLUMN IF NOT EXISTS building text,
+  ADD COLUMN IF NOT EXISTS floor_level integer,
+  ADD COLUMN IF NOT EXISTS ceiling_height_m numeric CHECK (ceiling_height_m > 0),
+  ADD COLUMN IF NOT EXISTS north_angle numeric CHECK (north_angle >= 0 AND north_angle < 360),
+  ADD COLUMN IF NOT EXISTS rent_per_sqm numeric CHECK (rent_per_sqm >= 0),
+  ADD COLUMN IF NOT EXISTS lease_start date,
+  ADD COLUMN IF NOT EXISTS lease_end date,
+  ADD COLUMN IF NOT EXISTS core_factor numeric CHECK (core_factor >= 0 AND core_factor < 1);
+
+ALTER TABLE layout_solutions
+  ADD COLUMN IF NOT EXISTS daylight_score integer;
@@ -0,0 +1,87 @@
+/*
+  # Price books and cost estimates
+
+  ## Overview
+  Budget is the first thing clients ask about after feasibility. Each project gets a local
+  price book (fit-out per m² by room type, furniture per workstation, contingency and
+  amortization period); solutions are priced from their placed rooms and desks together with
+  the rent and lease term of the floor plan.
+
+  ## New Tables
+  ### price_books
+  - `id` (uuid, PK)
+  - `project_id` (uuid, FK to projects, unique)
+  - `fit_out_per_sqm` (jsonb) - Fit-out cost per m² keyed by room type, `custom` and `open_office`
+  - `furniture_per_workstation` (numeric)
+  - `contingency_rate` (numeric) - Share of fit-out and furniture added as contingency, 0-1
+  - `amortization_years` (numeric) - Used when the floor plan has no lease dates
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Changes
+  ### layout_solutions
+  - `cost_estimate` (jsonb, nullable) - { fit_out, furniture, contingency, capex, annual_rent,
+    amortization_years, annual_cost, annual_cost_per_seat }
+
+  ## Security
+  - RLS enabled; users can read and write price books of their own projects
+*/
+
+CREATE TABLE IF NOT EXISTS price_books (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  fit_out_per_sqm jsonb NOT NULL DEFAULT '{}'::jsonb,
+  furniture_per_workstation numeric NOT NULL DEFAULT 25000,
+  contingency_rate numeric NOT NULL DEFAULT 0.1,
+  amortization_years numeric NOT NULL DEFAULT 5 CHECK (amortization_years > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE price_books ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own price books"
+  ON price_books FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = price_books.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own price books"
+  ON price_books FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = price_books.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own price books"
+  ON price_books FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = price_books.project_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = price_books.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_price_books_updated_at BEFORE UPDATE ON price_books
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE layout_solutions
+  ADD COLUMN IF NOT EXISTS cost_estimate jsonb;
@@ -0,0 +1,17 @@
+/*
+  # Feasibility score breakdown
+
+  ## Overview
+  The feasibility score used to be one of five values picked from the ratio of available to
+  required area. It is now a weighted average of several factors (area fit, requirement
+  coverage, adjacency, daylight, circulation and egress), and each factor's score, weight and
+  contribution is stored with the solution so the card can explain the total.
+
+  ## Changes
+  ### layout_solutions
+  - `feasibility_breakdown` (jsonb, nullable) - Array of { key, score, weight, contribution, detail };
+    null for solutions generated before this change
+*/
+
+ALTER TABLE layout_solutions
+  ADD COLUMN IF NOT EXISTS feasibility_breakdown jsonb;
@@ -0,0 +1,521 @@
+/*
+  # Workspaces and project sharing
+
+  ## Overview
+  Every policy used to check `projects.user_id = auth.uid()`, so only the creator could ever
+  open a project and consultants working in pairs shared passwords. Projects can now live in a
+  workspace whose members get a role (owner, editor, viewer), or be shared one by one. People
+  are invited by email; the invitation turns into a membership the next time the invitee signs
+  in with that address.
+
+  Access is resolved by `project_role()`: the project creator is always owner, then the
+  caller's workspace role, then a direct share; the strongest role wins. Viewers can read,
+  editors can also write project data, and only owners can delete the project or manage who
+  has access.
+
+  ## New Tables
+  ### workspaces
+  - `id` (uuid, PK)
+  - `name` (text)
+  - `created_by` (uuid, FK to profiles)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### workspace_members
+  - `id` (uuid, PK)
+  - `workspace_id` (uuid, FK to workspaces)
+  - `user_id` (uuid, FK to profiles)
+  - `role` (text) - owner/editor/viewer
+  - `created_at` (timestamptz)
+
+  ### project_members
+  - `id` (uuid, PK)
+  - `project_id` (uuid, FK to projects)
+  - `user_id` (uuid, FK to profiles)
+  - `role` (text) - editor/viewer
+  - `created_at` (timestamptz)
+
+  ### invitations
+  - `id` (uuid, PK)
+  - `email` (text) - Address the invitee signs in with
+  - `workspace_id` (uuid, FK to workspaces, nullable) - Set for workspace invitations
+  - `project_id` (uuid, FK to projects, nullable) - Set for project invitations
+  - `role` (text) - owner/editor/viewer; owner only for workspaces
+  - `invited_by` (uuid, FK to profiles)
+  - `accepted_at` (timestamptz, nullable)
+  - `created_at` (timestamptz)
+
+  ## Changes
+  ### projects
+  - `workspace_id` (uuid, FK to workspaces, nullable) - Null for personal projects
+
+  ## Security
+  - `workspace_role()`, `project_role()`, `can_view_project()` and `can_edit_project()` are
+    SECURITY DEFINER so policies can use them without recursing into each other's RLS
+  - Policies of projects, floor_plans, space_requirements, layout_solutions, layout_versions,
+    space_standards, growth_scenarios, stacking_plans, price_books and the floor-plans storage
+    bucket are replaced with role-based ones
+  - Profiles are readable by people who share a workspace or project, so member lists can show
+    names and emails
+  - Only owners can change a project's `user_id` or `workspace_id`; a trigger rejects the change
+    for anyone else
+  - `accept_invitations()` turns the caller's pending invitations into memberships
+*/
+
+-- Tables
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  role text NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS project_members (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  role text NOT NULL CHECK (role IN ('editor', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email text NOT NULL,
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  invited_by uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((workspace_id IS NULL) <> (project_id IS NULL)),
+  CHECK (role <> 'owner' OR workspace_id IS NOT NULL)
+);
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES workspaces(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_workspace_id ON projects(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(lower(email)) WHERE accepted_at IS NULL;
+
+CREATE TRIGGER update_workspaces_updated_at BEFORE UPDATE ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Role helpers
+
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id uuid)
+RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION project_role(p_project_id uuid)
+RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM (
+    SELECT 'owner' AS role FROM projects
+    WHERE id = p_project_id AND user_id = auth.uid()
+    UNION ALL
+    SELECT workspace_members.role FROM projects
+    JOIN workspace_members ON workspace_members.workspace_id = projects.workspace_id
+    WHERE projects.id = p_project_id AND workspace_members.user_id = auth.uid()
+    UNION ALL
+    SELECT role FROM project_members
+    WHERE project_id = p_project_id AND user_id = auth.uid()
+  ) roles
+  ORDER BY CASE role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_project(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT project_role(p_project_id) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_project(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT coalesce(project_role(p_project_id) IN ('owner', 'editor'), false);
+$$;
+
+CREATE OR REPLACE FUNCTION is_collaborator(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members mine
+    JOIN workspace_members theirs ON theirs.workspace_id = mine.workspace_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_members.user_id = p_user_id AND can_view_project(project_members.project_id)
+  ) OR EXISTS (
+    SELECT 1 FROM projects
+    WHERE projects.user_id = p_user_id AND can_view_project(projects.id)
+  );
+$$;
+
+-- The creator of a workspace becomes its first owner.
+CREATE OR REPLACE FUNCTION add_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_workspace_owner AFTER INSERT ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION add_workspace_owner();
+
+CREATE OR REPLACE FUNCTION accept_invitations()
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(auth.jwt() ->> 'email');
+  v_accepted integer;
+BEGIN
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  SELECT workspace_id, auth.uid(), role FROM invitations
+  WHERE lower(email) = v_email AND accepted_at IS NULL AND workspace_id IS NOT NULL
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  INSERT INTO project_members (project_id, user_id, role)
+  SELECT project_id, auth.uid(), role FROM invitations
+  WHERE lower(email) = v_email AND accepted_at IS NULL AND project_id IS NOT NULL
+  ON CONFLICT (project_id, user_id) DO NOTHING;
+
+  UPDATE invitations SET accepted_at = now()
+  WHERE lower(email) = v_email AND accepted_at IS NULL;
+  GET DIAGNOSTICS v_accepted = ROW_COUNT;
+
+  RETURN v_accepted;
+END;
+$$;
+
+-- Workspaces, members and invitations
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspaces"
+  ON workspaces FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid() OR workspace_role(id) IS NOT NULL);
+
+CREATE POLICY "Users can create workspaces"
+  ON workspaces FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can update workspaces"
+  ON workspaces FOR UPDATE
+  TO authenticated
+  USING (workspace_role(id) = 'owner')
+  WITH CHECK (workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete workspaces"
+  ON workspaces FOR DELETE
+  TO authenticated
+  USING (workspace_role(id) = 'owner');
+
+CREATE POLICY "Members can view workspace members"
+  ON workspace_members FOR SELECT
+  TO authenticated
+  USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Owners can add workspace members"
+  ON workspace_members FOR INSERT
+  TO authenticated
+  WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can update workspace members"
+  ON workspace_members FOR UPDATE
+  TO authenticated
+  USING (workspace_role(workspace_id) = 'owner')
+  WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners and the member can remove workspace members"
+  ON workspace_members FOR DELETE
+  TO authenticated
+  USING (workspace_role(workspace_id) = 'owner' OR user_id = auth.uid());
+
+CREATE POLICY "Collaborators can view project members"
+  ON project_members FOR SELECT
+  TO authenticated
+  USING (can_view_project(project_id));
+
+CREATE POLICY "Owners can add project members"
+  ON project_members FOR INSERT
+  TO authenticated
+  WITH CHECK (project_role(project_id) = 'owner');
+
+CREATE POLICY "Owners can update project members"
+  ON project_members FOR UPDATE
+  TO authenticated
+  USING (project_role(project_id) = 'owner')
+  WITH CHECK (project_role(project_id) = 'owner');
+
+CREATE POLICY "Owners and the member can remove project members"
+  ON project_members FOR DELETE
+  TO authenticated
+  USING (project_role(project_id) = 'owner' OR user_id = auth.uid());
+
+CREATE POLICY "Owners and invitees can view invitations"
+  ON invitations FOR SELECT
+  TO authenticated
+  USING (
+    workspace_role(workspace_id) = 'owner'
+    OR project_role(project_id) = 'owner'
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Owners can invite"
+  ON invitations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    invited_by = auth.uid()
+    AND (workspace_role(workspace_id) = 'owner' OR project_role(project_id) = 'owner')
+  );
+
+CREATE POLICY "Owners can cancel invitations"
+  ON invitations FOR DELETE
+  TO authenticated
+  USING (workspace_role(workspace_id) = 'owner' OR project_role(project_id) = 'owner');
+
+CREATE POLICY "Users can view collaborator profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (is_collaborator(id));
+
+-- Projects
+
+DROP POLICY IF EXISTS "Users can view own projects" ON projects;
+DROP POLICY IF EXISTS "Users can insert own projects" ON projects;
+DROP POLICY IF EXISTS "Users can update own projects" ON projects;
+DROP POLICY IF EXISTS "Users can delete own projects" ON projects;
+
+-- The creator check comes first because the STABLE role functions don't see a
+-- row the same statement just inserted, which insert().select() reads back.
+CREATE POLICY "Collaborators can view projects"
+  ON projects FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR can_view_project(id));
+
+CREATE POLICY "Users can create projects"
+  ON projects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'editor'))
+  );
+
+CREATE POLICY "Editors can update projects"
+  ON projects FOR UPDATE
+  TO authenticated
+  USING (can_edit_project(id))
+  WITH CHECK (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Owners can delete projects"
+  ON projects FOR DELETE
+  TO authenticated
+  USING (project_role(id) = 'owner');
+
+-- project_role() treats projects.user_id as the owner, and the update policy
+-- can't compare old and new values, so an editor could otherwise make
+-- themselves owner or move the project out of its workspace.
+CREATE OR REPLACE FUNCTION protect_project_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.workspace_id IS DISTINCT FROM OLD.workspace_id)
+    AND project_role(OLD.id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only project owners can change the owner or workspace of a project';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_project_ownership BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION protect_project_ownership();
+
+-- Project data
+
+DROP POLICY IF EXISTS "Users can view own floor plans" ON floor_plans;
+DROP POLICY IF EXISTS "Users can insert own floor plans" ON floor_plans;
+DROP POLICY IF EXISTS "Users can update own floor plans" ON floor_plans;
+DROP POLICY IF EXISTS "Users can delete own floor plans" ON floor_plans;
+
+CREATE POLICY "Collaborators can view floor plans"
+  ON floor_plans FOR SELECT TO authenticated USING (can_view_project(project_id));
+CREATE POLICY "Editors can insert floor plans"
+  ON floor_plans FOR INSERT TO authenticated WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can update floor plans"
+  ON floor_plans FOR UPDATE TO authenticated USING (can_edit_project(project_id)) WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can delete floor plans"
+  ON floor_plans FOR DELETE TO authenticated USING (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Users can view own space requirements" ON space_requirements;
+DROP POLICY IF EXISTS "Users can insert own space requirements" ON space_requirements;
+DROP POLICY IF EXISTS "Users can update own space requirements" ON space_requirements;
+DROP POLICY IF EXISTS "Users can delete own space requirements" ON space_requirements;
+
+CREATE POLICY "Collaborators can view space requirements"
+  ON space_requirements FOR SELECT TO authenticated USING (can_view_project(project_id));
+CREATE POLICY "Editors can insert space requirements"
+  ON space_requirements FOR INSERT TO authenticated WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can update space requirements"
+  ON space_requirements FOR UPDATE TO authenticated USING (can_edit_project(project_id)) WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can delete space requirements"
+  ON space_requirements FOR DELETE TO authenticated USING (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Users can view own layout solutions" ON layout_solutions;
+DROP POLICY IF EXISTS "Users can insert own layout solutions" ON layout_solutions;
+DROP POLICY IF EXISTS "Users can update own layout solutions" ON layout_solutions;
+DROP POLICY IF EXISTS "Users can delete own layout solutions" ON layout_solutions;
+
+CREATE POLICY "Collaborators can view layout solutions"
+  ON layout_solutions FOR SELECT TO authenticated
+  USING (can_view_project((SELECT project_id FROM floor_plans WHERE floor_plans.id = layout_solutions.floor_plan_id)));
+CREATE POLICY "Editors can insert layout solutions"
+  ON layout_solutions FOR INSERT TO authenticated
+  WITH CHECK (can_edit_project((SELECT project_id FROM floor_plans WHERE floor_plans.id = layout_solutions.floor_plan_id)));
+CREATE POLICY "Editors can update layout solutions"
+  ON layout_solutions FOR UPDATE TO authenticated
+  USING (can_edit_project((SELECT project_id FROM floor_plans WHERE floor_plans.id = layout_solutions.floor_plan_id)))
+  WITH CHECK (can_edit_project((SELECT project_id FROM floor_plans WHERE floor_plans.id = layout_solutions.floor_plan_id)));
+CREATE POLICY "Editors can delete layout solutions"
+  ON layout_solutions FOR DELETE TO authenticated
+  USING (can_edit_project((SELECT project_id FROM floor_plans WHERE floor_plans.id = layout_solutions.floor_plan_id)));
+
+DROP POLICY IF EXISTS "Users can view own layout versions" ON layout_versions;
+DROP POLICY IF EXISTS "Users can insert own layout versions" ON layout_versions;
+
+CREATE POLICY "Collaborators can view layout versions"
+  ON layout_versions FOR SELECT TO authenticated
+  USING (
+    can_view_project((
+      SELECT floor_plans.project_id FROM layout_solutions
+      JOIN floor_plans ON floor_plans.id = layout_solutions.floor_plan_id
+      WHERE layout_solutions.id = layout_versions.layout_solution_id
+    ))
+  );
+CREATE POLICY "Editors can insert layout versions"
+  ON layout_versions FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND can_edit_project((
+      SELECT floor_plans.project_id FROM layout_solutions
+      JOIN floor_plans ON floor_plans.id = layout_solutions.floor_plan_id
+      WHERE layout_solutions.id = layout_versions.layout_solution_id
+    ))
+  );
+
+DROP POLICY IF EXISTS "Users can view own space standards" ON space_standards;
+DROP POLICY IF EXISTS "Users can insert own space standards" ON space_standards;
+DROP POLICY IF EXISTS "Users can update own space standards" ON space_standards;
+
+CREATE POLICY "Collaborators can view space standards"
+  ON space_standards FOR SELECT TO authenticated USING (can_view_project(project_id));
+CREATE POLICY "Editors can insert space standards"
+  ON space_standards FOR INSERT TO authenticated WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can update space standards"
+  ON space_standards FOR UPDATE TO authenticated USING (can_edit_project(project_id)) WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Users can view own growth scenarios" ON growth_scenarios;
+DROP POLICY IF EXISTS "Users can insert own growth scenarios" ON growth_scenarios;
+DROP POLICY IF EXISTS "Users can update own growth scenarios" ON growth_scenarios;
+DROP POLICY IF EXISTS "Users can delete own growth scenarios" ON growth_scenarios;
+
+CREATE POLICY "Collaborators can view growth scenarios"
+  ON growth_scenarios FOR SELECT TO authenticated USING (can_view_project(project_id));
+CREATE POLICY "Editors can insert growth scenarios"
+  ON growth_scenarios FOR INSERT TO authenticated WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can update growth scenarios"
+  ON growth_scenarios FOR UPDATE TO authenticated USING (can_edit_project(project_id)) WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can delete growth scenarios"
+  ON growth_scenarios FOR DELETE TO authenticated USING (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Users can view own stacking plans" ON stacking_plans;
+DROP POLICY IF EXISTS "Users can insert own stacking plans" ON stacking_plans;
+DROP POLICY IF EXISTS "Users can update own stacking plans" ON stacking_plans;
+DROP POLICY IF EXISTS "Users can delete own stacking plans" ON stacking_plans;
+
+CREATE POLICY "Collaborators can view stacking plans"
+  ON stacking_plans FOR SELECT TO authenticated USING (can_view_project(project_id));
+CREATE POLICY "Editors can insert stacking plans"
+  ON stacking_plans FOR INSERT TO authenticated WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can update stacking plans"
+  ON stacking_plans FOR UPDATE TO authenticated USING (can_edit_project(project_id)) WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can delete stacking plans"
+  ON stacking_plans FOR DELETE TO authenticated USING (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Users can view own price books" ON price_books;
+DROP POLICY IF EXISTS "Users can insert own price books" ON price_books;
+DROP POLICY IF EXISTS "Users can update own price books" ON price_books;
+
+CREATE POLICY "Collaborators can view price books"
+  ON price_books FOR SELECT TO authenticated USING (can_view_project(project_id));
+CREATE POLICY "Editors can insert price books"
+  ON price_books FOR INSERT TO authenticated WITH CHECK (can_edit_project(project_id));
+CREATE POLICY "Editors can update price books"
+  ON price_books FOR UPDATE TO authenticated USING (can_edit_project(project_id)) WITH CHECK (can_edit_project(project_id));
+
+-- Storage: files live under the project id, see FloorPlanUpload and layoutStorage.
+
+DROP POLICY IF EXISTS "Authenticated users can upload floor plans" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update own floor plans" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own floor plans" ON storage.objects;
+
+CREATE POLICY "Editors can upload floor plans"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'floor-plans'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM projects WHERE can_edit_project(id))
+);
+
+CREATE POLICY "Editors can update floor plans"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'floor-plans'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM projects WHERE can_edit_project(id))
+)
+WITH CHECK (
+  bucket_id = 'floor-plans'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM projects WHERE can_edit_project(id))
+);
+
+CREATE POLICY "Editors can delete floor plans"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'floor-plans'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM projects WHERE can_edit_project(id))
+);
@@ -0,0 +1,192 @@
+/*
+  # Share links
+
+  ## Overview
+  Clients should be able to look at proposed layouts without signing up. A share link is an
+  unguessable token that opens a read-only view of a project's solutions, or of a single
+  solution, until it expires or is revoked. The token is random and looked up server-side
+  rather than signed, so revoking a link takes effect immediately.
+
+  ## New Tables
+  ### share_links
+  - `id` (uuid, PK)
+  - `project_id` (uuid, FK to projects)
+  - `layout_solution_id` (uuid, FK to layout_solutions, nullable) - Set when only one solution is shared
+  - `token` (text, unique) - 48 hex characters from `gen_random_bytes`
+  - `label` (text) - What the link shows, for the project's list of links
+  - `expires_at` (timestamptz)
+  - `revoked_at` (timestamptz, nullable)
+  - `created_by` (uuid, FK to profiles)
+  - `created_at` (timestamptz)
+
+  ## Security
+  - Editors and owners of the project can list, create and revoke its links; links can't be
+    updated directly, `revoke_share_link(id)` is the only change
+  - Links are never readable directly; `get_shared_layouts(token)` is SECURITY DEFINER, granted
+    to anon, and returns the shared floor plans, latest requirements and solutions only while
+    the link is active
+  - It returns only the columns the shared view shows: rent and lease terms, cost estimates,
+    generation parameters, notes and who created what stay internal
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  layout_solution_id uuid REFERENCES layout_solutions(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(24), 'hex'),
+  label text NOT NULL DEFAULT '',
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_project_id ON share_links(project_id);
+
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors can view share links"
+  ON share_links FOR SELECT
+  TO authenticated
+  USING (can_edit_project(project_id));
+
+CREATE POLICY "Editors can create share links"
+  ON share_links FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND can_edit_project(project_id));
+
+-- Revoking is the only change allowed, so there is no update policy: an editor
+-- could otherwise re-point a link at another project or extend someone else's.
+CREATE OR REPLACE FUNCTION revoke_share_link(p_link_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_link share_links;
+BEGIN
+  SELECT * INTO v_link FROM share_links WHERE id = p_link_id;
+  IF NOT FOUND OR NOT can_edit_project(v_link.project_id) THEN
+    RAISE EXCEPTION 'Share link % not found', p_link_id;
+  END IF;
+
+  UPDATE share_links SET revoked_at = coalesce(revoked_at, now())
+  WHERE id = p_link_id
+  RETURNING revoked_at INTO v_link.revoked_at;
+
+  RETURN v_link.revoked_at;
+END;
+$$;
+
+-- A project link shows every floor plan with its latest requirements; a solution link shows
+-- only that solution with the requirements it was generated for.
+CREATE OR REPLACE FUNCTION get_shared_layouts(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_link share_links;
+  v_solution layout_solutions;
+BEGIN
+  SELECT * INTO v_link FROM share_links
+  WHERE token = p_token AND revoked_at IS NULL AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_link.layout_solution_id IS NOT NULL THEN
+    SELECT * INTO v_solution FROM layout_solutions WHERE id = v_link.layout_solution_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'project', (
+      SELECT jsonb_build_object('id', p.id, 'name', p.name, 'description', p.description)
+      FROM projects p WHERE p.id = v_link.project_id
+    ),
+    'layout_solution_id', v_link.layout_solution_id,
+    'expires_at', v_link.expires_at,
+    'space_standards', (
+      SELECT jsonb_build_object(
+        'preset', s.preset,
+        'workstation_area', s.workstation_area,
+        'desk_width', s.desk_width,
+        'circulation_factor', s.circulation_factor,
+        'room_areas', s.room_areas
+      )
+      FROM space_standards s WHERE s.project_id = v_link.project_id
+    ),
+    'floor_plans', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', fp.id,
+          'name', fp.name,
+          'original_image_url', fp.original_image_url,
+          'floor_area_sqm', fp.floor_area_sqm,
+          'dimensions_json', fp.dimensions_json,
+          'building', fp.building,
+          'floor_level', fp.floor_level,
+          'ceiling_height_m', fp.ceiling_height_m,
+          'north_angle', fp.north_angle,
+          'requirement', CASE WHEN sr.id IS NULL THEN NULL ELSE jsonb_build_object(
+            'id', sr.id,
+            'workstations', sr.workstations,
+            'meeting_rooms_small', sr.meeting_rooms_small,
+            'meeting_rooms_medium', sr.meeting_rooms_medium,
+            'meeting_rooms_large', sr.meeting_rooms_large,
+            'phone_booths', sr.phone_booths,
+            'breakout_areas', sr.breakout_areas,
+            'kitchen_pantry', sr.kitchen_pantry,
+            'reception_area', sr.reception_area,
+            'storage_rooms', sr.storage_rooms,
+            'server_room', sr.server_room,
+            'custom_rooms', sr.custom_rooms,
+            'adjacency_rules', sr.adjacency_rules,
+            'zones', sr.zones
+          ) END,
+          'solutions', COALESCE((
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'id', ls.id,
+                'created_at', ls.created_at,
+                'feasibility_score', ls.feasibility_score,
+                'feasibility_breakdown', ls.feasibility_breakdown,
+                'is_feasible', ls.is_feasible,
+                'workstations_placed', ls.workstations_placed,
+                'meeting_rooms_placed', ls.meeting_rooms_placed,
+                'amenities_placed', ls.amenities_placed,
+                'custom_rooms_placed', ls.custom_rooms_placed,
+                'adjacency_violations', ls.adjacency_violations,
+                'daylight_score', ls.daylight_score,
+                'utilization_rate', ls.utilization_rate,
+                'constraints_met', ls.constraints_met,
+                'suggestions', ls.suggestions,
+                'solution_image_url', ls.solution_image_url,
+                'layout_json', ls.layout_json
+              )
+              ORDER BY ls.created_at DESC
+            )
+            FROM layout_solutions ls
+            WHERE ls.space_requirement_id = sr.id
+              AND (v_solution.id IS NULL OR ls.id = v_solution.id)
+          ), '[]'::jsonb)
+        )
+        ORDER BY fp.created_at DESC
+      )
+      FROM floor_plans fp
+      LEFT JOIN LATERAL (
+        SELECT * FROM space_requirements r
+        WHERE r.floor_plan_id = fp.id
+          AND (v_solution.id IS NULL OR r.id = v_solution.space_requirement_id)
+        ORDER BY r.created_at DESC
+        LIMIT 1
+      ) sr ON true
+      WHERE fp.project_id = v_link.project_id
+        AND (v_solution.id IS NULL OR fp.id = v_solution.floor_plan_id)
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_layouts(text) TO anon, authenticated;
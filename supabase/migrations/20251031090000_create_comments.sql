@@ -0,0 +1,159 @@
+/*
+  # Comments
+
+  ## Overview
+  Feedback rounds happened over screenshots in chat. Comments are threads on a floor plan or
+  on one of its solution drawings, optionally pinned to a point or a region of the drawing.
+  A thread is its first comment plus the replies pointing at it; resolving marks the first
+  comment. Comments can mention people who have access to the project.
+
+  ## New Tables
+  ### comments
+  - `id` (uuid, PK)
+  - `project_id` (uuid, FK to projects)
+  - `floor_plan_id` (uuid, FK to floor_plans)
+  - `layout_solution_id` (uuid, FK to layout_solutions, nullable) - Set for comments on a solution drawing
+  - `parent_id` (uuid, FK to comments, nullable) - Set for replies
+  - `author_id` (uuid, FK to profiles)
+  - `body` (text)
+  - `pin` (jsonb, nullable) - Point `{x, y}` or region `{x, y, width, height}` as fractions of the drawing
+  - `mentions` (uuid[]) - Mentioned profiles
+  - `resolved_at` (timestamptz, nullable)
+  - `resolved_by` (uuid, FK to profiles, nullable)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - Everyone with access to the project, viewers included, can read and write comments
+  - Authors can edit their comments; editors and owners can also resolve and reopen threads,
+    through `resolve_comment_thread()` so they can't change other people's comments otherwise
+  - Authors and project owners can delete comments
+  - `project_collaborators()` lists the people with access to a project, for mentions
+  - `comment_fits_project()` checks on insert and update that the floor plan, solution and
+    parent thread belong to the comment's project and that everyone mentioned has access to it
+*/
+
+CREATE TABLE IF NOT EXISTS comments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  floor_plan_id uuid REFERENCES floor_plans(id) ON DELETE CASCADE NOT NULL,
+  layout_solution_id uuid REFERENCES layout_solutions(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES comments(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  body text NOT NULL,
+  pin jsonb,
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_floor_plan_id ON comments(floor_plan_id);
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON comments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION project_collaborators(p_project_id uuid)
+RETURNS TABLE (user_id uuid, email text, full_name text)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT profiles.id, profiles.email, profiles.full_name
+  FROM profiles
+  WHERE can_view_project(p_project_id)
+    AND (
+      profiles.id IN (SELECT user_id FROM projects WHERE id = p_project_id)
+      OR profiles.id IN (SELECT user_id FROM project_members WHERE project_id = p_project_id)
+      OR profiles.id IN (
+        SELECT workspace_members.user_id FROM projects
+        JOIN workspace_members ON workspace_members.workspace_id = projects.workspace_id
+        WHERE projects.id = p_project_id
+      )
+    )
+  ORDER BY coalesce(profiles.full_name, profiles.email);
+$$;
+
+-- A comment's floor plan, solution and thread must be in its own project, so
+-- nobody can attach comments to drawings of projects they can't see, and only
+-- people with access to the project can be mentioned.
+CREATE OR REPLACE FUNCTION comment_fits_project(
+  p_project_id uuid,
+  p_floor_plan_id uuid,
+  p_layout_solution_id uuid,
+  p_parent_id uuid,
+  p_mentions uuid[]
+)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM floor_plans WHERE id = p_floor_plan_id AND project_id = p_project_id)
+    AND (p_layout_solution_id IS NULL OR EXISTS (
+      SELECT 1 FROM layout_solutions WHERE id = p_layout_solution_id AND floor_plan_id = p_floor_plan_id
+    ))
+    AND (p_parent_id IS NULL OR EXISTS (
+      SELECT 1 FROM comments
+      WHERE id = p_parent_id
+        AND parent_id IS NULL
+        AND project_id = p_project_id
+        AND floor_plan_id = p_floor_plan_id
+        AND layout_solution_id IS NOT DISTINCT FROM p_layout_solution_id
+    ))
+    AND p_mentions <@ ARRAY(SELECT user_id FROM project_collaborators(p_project_id));
+$$;
+
+CREATE POLICY "Collaborators can view comments"
+  ON comments FOR SELECT
+  TO authenticated
+  USING (can_view_project(project_id));
+
+CREATE POLICY "Collaborators can comment"
+  ON comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND can_view_project(project_id)
+    AND comment_fits_project(project_id, floor_plan_id, layout_solution_id, parent_id, mentions)
+  );
+
+CREATE POLICY "Authors can update comments"
+  ON comments FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (
+    author_id = auth.uid()
+    AND can_view_project(project_id)
+    AND comment_fits_project(project_id, floor_plan_id, layout_solution_id, parent_id, mentions)
+  );
+
+CREATE POLICY "Authors and owners can delete comments"
+  ON comments FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid() OR project_role(project_id) = 'owner');
+
+-- Editors resolve other people's threads through this function rather than an
+-- update policy, so they can't change anything but the resolved state.
+CREATE OR REPLACE FUNCTION resolve_comment_thread(p_comment_id uuid, p_resolved boolean)
+RETURNS timestamptz
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_comment comments;
+BEGIN
+  SELECT * INTO v_comment FROM comments WHERE id = p_comment_id AND parent_id IS NULL;
+  IF NOT FOUND OR NOT (v_comment.author_id = auth.uid() OR can_edit_project(v_comment.project_id)) THEN
+    RAISE EXCEPTION 'Comment thread % not found', p_comment_id;
+  END IF;
+
+  UPDATE comments SET
+    resolved_at = CASE WHEN p_resolved THEN now() END,
+    resolved_by = CASE WHEN p_resolved THEN auth.uid() END
+  WHERE id = p_comment_id
+  RETURNING resolved_at INTO v_comment.resolved_at;
+
+  RETURN v_comment.resolved_at;
+END;
+$$;
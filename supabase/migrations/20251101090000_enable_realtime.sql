@@ -0,0 +1,50 @@
+/*
+  # Realtime updates
+
+  ## Overview
+  People working on the same project didn't see each other's changes until they reloaded,
+  and two people saving the requirement form overwrote each other silently. Floor plans,
+  requirement saves and solutions are now broadcast over Supabase Realtime; presence
+  (who has the project open, who is editing a requirement form) goes over a private channel
+  per project, `presence:<project id>`, and needs no tables.
+
+  ## Changes
+  ### space_requirements
+  - `created_by` (uuid, FK to profiles, nullable) - Who saved this version, so the form can tell
+    someone else's save from its own
+
+  ### supabase_realtime publication
+  - Adds floor_plans, space_requirements and layout_solutions
+
+  ### realtime.messages
+  - Policies allowing people who can view a project to join and track presence on its channel
+
+  ## Security
+  - Realtime applies the tables' RLS policies, so changes only reach people who can view the project
+  - Presence channels are private: joining or tracking one checks `can_view_project()` for the
+    project id in the channel's topic, so a project id and the anon key aren't enough to see who
+    is working on it
+*/
+
+ALTER TABLE space_requirements
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE floor_plans, space_requirements, layout_solutions;
+
+CREATE POLICY "Collaborators can receive project presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND split_part(realtime.topic(), ':', 1) = 'presence'
+    AND can_view_project(split_part(realtime.topic(), ':', 2)::uuid)
+  );
+
+CREATE POLICY "Collaborators can track project presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND split_part(realtime.topic(), ':', 1) = 'presence'
+    AND can_view_project(split_part(realtime.topic(), ':', 2)::uuid)
+  );
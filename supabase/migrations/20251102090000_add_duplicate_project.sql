@@ -0,0 +1,176 @@
+/*
+  # Duplicate and delete projects
+
+  ## Overview
+  Projects can be copied as a starting point for a similar one. `duplicate_project()` copies
+  the project with its floor plans, requirement versions, solutions and their version
+  history, space standards and price book in one transaction, giving every row a new id and
+  pointing references at the copies. Growth scenarios, stacking plans, comments, members and
+  share links stay with the original.
+
+  Files in the floor-plans bucket live under a folder named after the project id. The copy's
+  image URLs already point at the new project's folder; the client copies the files there
+  after the function returns, since storage objects can't be copied from SQL.
+
+  Deleting a project removes the row first and its files afterwards, so a failed delete never
+  leaves a live project with missing images. Storage policies look the project up, which is
+  gone by then; deleted projects are recorded so whoever deleted one can still remove its files.
+
+  ## New Tables
+  ### deleted_projects
+  - `project_id` (uuid, PK) - Id of the deleted project, which is also its storage folder
+  - `deleted_by` (uuid, FK to profiles)
+  - `deleted_at` (timestamptz)
+
+  ## New Functions
+  - `duplicate_project(p_project_id uuid, p_name text)` returns the new project's id. The copy
+    is a draft owned by the caller, in the same workspace if the caller can create projects
+    there and personal otherwise.
+
+  ## Security
+  - `duplicate_project()` is SECURITY DEFINER so the copy can be made in one statement; the
+    caller must be able to edit the source project, since the copy carries everything in it
+    including rent, costs and notes that viewers only see on screen
+  - deleted_projects is written by a trigger on projects; people can only read their own rows
+  - Whoever deleted a project can delete the files left in its folder of the floor-plans bucket
+*/
+
+CREATE OR REPLACE FUNCTION duplicate_project(p_project_id uuid, p_name text)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_source projects;
+  v_new_id uuid := uuid_generate_v4();
+  v_old_folder text := '/' || p_project_id || '/';
+  v_new_folder text;
+BEGIN
+  IF NOT can_edit_project(p_project_id) THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+
+  SELECT * INTO v_source FROM projects WHERE id = p_project_id;
+  v_new_folder := '/' || v_new_id || '/';
+
+  INSERT INTO projects (id, user_id, workspace_id, name, description, status)
+  VALUES (
+    v_new_id,
+    auth.uid(),
+    CASE WHEN workspace_role(v_source.workspace_id) IN ('owner', 'editor') THEN v_source.workspace_id END,
+    p_name,
+    v_source.description,
+    'draft'
+  );
+
+  -- New ids for every copied row, in one map since uuids don't collide across tables.
+  CREATE TEMP TABLE duplicate_ids (old_id uuid PRIMARY KEY, new_id uuid NOT NULL) ON COMMIT DROP;
+
+  INSERT INTO duplicate_ids
+  SELECT id, uuid_generate_v4() FROM floor_plans WHERE project_id = p_project_id;
+
+  INSERT INTO duplicate_ids
+  SELECT id, uuid_generate_v4() FROM space_requirements WHERE project_id = p_project_id;
+
+  INSERT INTO duplicate_ids
+  SELECT layout_solutions.id, uuid_generate_v4() FROM layout_solutions
+  JOIN floor_plans ON floor_plans.id = layout_solutions.floor_plan_id
+  WHERE floor_plans.project_id = p_project_id;
+
+  -- Rows are copied through jsonb so columns added later come along.
+  INSERT INTO floor_plans
+  SELECT (jsonb_populate_record(NULL::floor_plans, to_jsonb(fp) || jsonb_build_object(
+    'id', ids.new_id,
+    'project_id', v_new_id,
+    'original_image_url', replace(fp.original_image_url, v_old_folder, v_new_folder),
+    'processed_image_url', replace(fp.processed_image_url, v_old_folder, v_new_folder)
+  ))).*
+  FROM floor_plans fp
+  JOIN duplicate_ids ids ON ids.old_id = fp.id;
+
+  INSERT INTO space_requirements
+  SELECT (jsonb_populate_record(NULL::space_requirements, to_jsonb(sr) || jsonb_build_object(
+    'id', ids.new_id,
+    'project_id', v_new_id,
+    'floor_plan_id', floor_ids.new_id
+  ))).*
+  FROM space_requirements sr
+  JOIN duplicate_ids ids ON ids.old_id = sr.id
+  LEFT JOIN duplicate_ids floor_ids ON floor_ids.old_id = sr.floor_plan_id;
+
+  INSERT INTO layout_solutions
+  SELECT (jsonb_populate_record(NULL::layout_solutions, to_jsonb(ls) || jsonb_build_object(
+    'id', ids.new_id,
+    'floor_plan_id', floor_ids.new_id,
+    'space_requirement_id', requirement_ids.new_id,
+    'solution_image_url', replace(ls.solution_image_url, v_old_folder, v_new_folder)
+  ))).*
+  FROM layout_solutions ls
+  JOIN duplicate_ids ids ON ids.old_id = ls.id
+  JOIN duplicate_ids floor_ids ON floor_ids.old_id = ls.floor_plan_id
+  JOIN duplicate_ids requirement_ids ON requirement_ids.old_id = ls.space_requirement_id;
+
+  INSERT INTO layout_versions
+  SELECT (jsonb_populate_record(NULL::layout_versions, to_jsonb(lv) || jsonb_build_object(
+    'id', uuid_generate_v4(),
+    'layout_solution_id', ids.new_id,
+    'solution_image_url', replace(lv.solution_image_url, v_old_folder, v_new_folder),
+    'snapshot', replace(lv.snapshot::text, v_old_folder, v_new_folder)::jsonb
+  ))).*
+  FROM layout_versions lv
+  JOIN duplicate_ids ids ON ids.old_id = lv.layout_solution_id;
+
+  INSERT INTO space_standards
+  SELECT (jsonb_populate_record(NULL::space_standards, to_jsonb(s) || jsonb_build_object(
+    'id', uuid_generate_v4(),
+    'project_id', v_new_id
+  ))).*
+  FROM space_standards s
+  WHERE s.project_id = p_project_id;
+
+  INSERT INTO price_books
+  SELECT (jsonb_populate_record(NULL::price_books, to_jsonb(pb) || jsonb_build_object(
+    'id', uuid_generate_v4(),
+    'project_id', v_new_id
+  ))).*
+  FROM price_books pb
+  WHERE pb.project_id = p_project_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS deleted_projects (
+  project_id uuid PRIMARY KEY,
+  deleted_by uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  deleted_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE deleted_projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view projects they deleted"
+  ON deleted_projects FOR SELECT
+  TO authenticated
+  USING (deleted_by = auth.uid());
+
+CREATE OR REPLACE FUNCTION record_deleted_project()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO deleted_projects (project_id, deleted_by)
+  VALUES (OLD.id, auth.uid())
+  ON CONFLICT (project_id) DO NOTHING;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER record_deleted_project AFTER DELETE ON projects
+  FOR EACH ROW EXECUTE FUNCTION record_deleted_project();
+
+CREATE POLICY "Users can delete files of projects they deleted"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'floor-plans'
+  AND (storage.foldername(name))[1] IN (SELECT project_id::text FROM deleted_projects WHERE deleted_by = auth.uid())
+);
@@ -0,0 +1,73 @@
+/*
+  # Save layout versions atomically
+
+  ## Overview
+  Saving an edited solution used to take three requests: update the solution, read the latest
+  version number, insert the next version. Two saves at the same time could both read the
+  same number; the second insert then failed on the unique version number after its solution
+  update had already gone through, leaving the saved layout without a history entry.
+  `save_layout_version()` does all of it in one transaction, with the solution row locked so
+  concurrent saves of the same solution take turns.
+
+  ## New Functions
+  - `save_layout_version(p_solution_id uuid, p_snapshot jsonb, p_changes_description text,
+    p_update_solution boolean)` writes the snapshot's columns to the solution when
+    `p_update_solution` is set, appends the next version with the snapshot, and returns the
+    solution row. Generating a solution passes false, as the row was just inserted.
+
+  ## Security
+  - Runs as the caller, so the layout_solutions and layout_versions policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION save_layout_version(
+  p_solution_id uuid,
+  p_snapshot jsonb,
+  p_changes_description text,
+  p_update_solution boolean DEFAULT true
+)
+RETURNS layout_solutions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_solution layout_solutions;
+  v_version_number integer;
+BEGIN
+  SELECT * INTO v_solution FROM layout_solutions WHERE id = p_solution_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Layout solution % not found', p_solution_id;
+  END IF;
+
+  IF p_update_solution THEN
+    -- Only the keys present in the snapshot change.
+    v_solution := jsonb_populate_record(v_solution, p_snapshot);
+
+    UPDATE layout_solutions SET
+      feasibility_score = v_solution.feasibility_score,
+      feasibility_breakdown = v_solution.feasibility_breakdown,
+      is_feasible = v_solution.is_feasible,
+      workstations_placed = v_solution.workstations_placed,
+      meeting_rooms_placed = v_solution.meeting_rooms_placed,
+      amenities_placed = v_solution.amenities_placed,
+      custom_rooms_placed = v_solution.custom_rooms_placed,
+      adjacency_violations = v_solution.adjacency_violations,
+      daylight_score = v_solution.daylight_score,
+      utilization_rate = v_solution.utilization_rate,
+      constraints_met = v_solution.constraints_met,
+      suggestions = v_solution.suggestions,
+      solution_image_url = v_solution.solution_image_url,
+      layout_json = v_solution.layout_json,
+      cost_estimate = v_solution.cost_estimate
+    WHERE id = p_solution_id
+    RETURNING * INTO v_solution;
+  END IF;
+
+  SELECT coalesce(max(version_number), 0) + 1 INTO v_version_number
+  FROM layout_versions
+  WHERE layout_solution_id = p_solution_id;
+
+  INSERT INTO layout_versions (layout_solution_id, version_number, solution_image_url, changes_description, created_by, snapshot)
+  VALUES (p_solution_id, v_version_number, v_solution.solution_image_url, p_changes_description, auth.uid(), p_snapshot);
+
+  RETURN v_solution;
+END;
+$$;
@@ -0,0 +1,81 @@
+/*
+  # Create layout solutions atomically
+
+  ## Overview
+  Generating a solution used to insert the solution row and then record its first version
+  with `save_layout_version()` in a second request. If the second request failed the
+  solution was left without a history. `create_layout_solution()` inserts both in one
+  transaction.
+
+  ## New Functions
+  - `create_layout_solution(p_floor_plan_id uuid, p_space_requirement_id uuid,
+    p_generation_params jsonb, p_snapshot jsonb, p_changes_description text)` inserts the
+    solution with the snapshot's columns, records it as version 1 and returns the solution row.
+
+  ## Security
+  - Runs as the caller, so the layout_solutions and layout_versions policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION create_layout_solution(
+  p_floor_plan_id uuid,
+  p_space_requirement_id uuid,
+  p_generation_params jsonb,
+  p_snapshot jsonb,
+  p_changes_description text
+)
+RETURNS layout_solutions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_solution layout_solutions;
+BEGIN
+  v_solution := jsonb_populate_record(NULL::layout_solutions, p_snapshot);
+
+  INSERT INTO layout_solutions (
+    floor_plan_id,
+    space_requirement_id,
+    generation_params,
+    feasibility_score,
+    feasibility_breakdown,
+    is_feasible,
+    workstations_placed,
+    meeting_rooms_placed,
+    amenities_placed,
+    custom_rooms_placed,
+    adjacency_violations,
+    daylight_score,
+    utilization_rate,
+    constraints_met,
+    suggestions,
+    solution_image_url,
+    layout_json,
+    cost_estimate
+  )
+  VALUES (
+    p_floor_plan_id,
+    p_space_requirement_id,
+    p_generation_params,
+    v_solution.feasibility_score,
+    v_solution.feasibility_breakdown,
+    v_solution.is_feasible,
+    v_solution.workstations_placed,
+    v_solution.meeting_rooms_placed,
+    v_solution.amenities_placed,
+    v_solution.custom_rooms_placed,
+    v_solution.adjacency_violations,
+    v_solution.daylight_score,
+    v_solution.utilization_rate,
+    v_solution.constraints_met,
+    v_solution.suggestions,
+    v_solution.solution_image_url,
+    v_solution.layout_json,
+    v_solution.cost_estimate
+  )
+  RETURNING * INTO v_solution;
+
+  INSERT INTO layout_versions (layout_solution_id, version_number, solution_image_url, changes_description, created_by, snapshot)
+  VALUES (v_solution.id, 1, v_solution.solution_image_url, p_changes_description, auth.uid(), p_snapshot);
+
+  RETURN v_solution;
+END;
+$$;